@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { findMany, upsert, transaction, getOutboundMessagesWithTotal, getAllOpens } = vi.hoisted(() => ({
+  findMany: vi.fn(),
+  upsert: vi.fn(),
+  transaction: vi.fn(),
+  getOutboundMessagesWithTotal: vi.fn(),
+  getAllOpens: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({ prisma: { postmarkEvent: { findMany, upsert }, $transaction: transaction } }))
+vi.mock('@/lib/postmark', () => ({
+  getPostmarkClient: () => ({ getOutboundMessagesWithTotal, getAllOpens })
+}))
+
+import { getEngagementRanking, getRecipientTimeline, scoreEngagement, syncOpenEvents } from '@/lib/engagement'
+
+function sentMessage(MessageID: string, recipient: string, ReceivedAt = '2023-01-10T09:00:00Z') {
+  return { MessageID, Subject: MessageID, Tag: '', Recipients: [recipient], ReceivedAt }
+}
+
+function event(recordType: string, recipient: string, messageId: string, occurredAt: string, originalLink: string | null = null) {
+  return { recordType, recipient, messageId, tag: null, messageStream: 'outbound', originalLink, occurredAt: new Date(occurredAt) }
+}
+
+describe('scoreEngagement', () => {
+  const asOf = new Date('2023-02-01T00:00:00Z')
+
+  it('should weigh recency, opens and clicks', () => {
+    expect(scoreEngagement({ messages: 4, opened: 4, clicked: 4, lastEngagedAt: '2023-02-01T00:00:00Z' }, asOf)).toBe(100)
+    expect(scoreEngagement({ messages: 4, opened: 2, clicked: 0, lastEngagedAt: '2023-01-02T00:00:00Z' }, asOf)).toBe(40)
+    expect(scoreEngagement({ messages: 4, opened: 0, clicked: 0, lastEngagedAt: null }, asOf)).toBe(0)
+  })
+})
+
+describe('getEngagementRanking', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should rank recipients by score in either order', async () => {
+    const events = [
+      event('Delivery', 'hot@example.com', 'm1', '2023-01-10T10:00:00Z'),
+      event('Open', 'hot@example.com', 'm1', '2023-01-10T11:00:00Z'),
+      event('Open', 'hot@example.com', 'm1', '2023-01-10T12:00:00Z'),
+      event('Click', 'hot@example.com', 'm1', '2023-01-10T12:05:00Z', 'https://example.com'),
+      event('Delivery', 'cold@example.com', 'm2', '2023-01-10T10:00:00Z'),
+      event('Delivery', 'cold@example.com', 'm3', '2023-01-20T10:00:00Z'),
+      event('Delivery', 'new@example.com', 'm4', '2023-01-20T10:00:00Z')
+    ]
+    findMany.mockResolvedValue(events)
+    getOutboundMessagesWithTotal.mockResolvedValue({ messages: [], totalCount: 0 })
+
+    const most = await getEngagementRanking('2023-01-01', '2023-01-31')
+    expect(most.totalRecipients).toBe(3)
+    expect(most.recipients[0]).toMatchObject({ recipient: 'hot@example.com', messages: 1, opened: 1, clicked: 1 })
+
+    const least = await getEngagementRanking('2023-01-01', '2023-01-31', { order: 'least', minMessages: 2 })
+    expect(least.recipients.map(recipient => recipient.recipient)).toEqual(['cold@example.com'])
+    expect(least.recipients[0]).toMatchObject({ messages: 2, delivered: 2, lastEngagedAt: null, score: 0 })
+  })
+
+  it('should rank recipients of sent messages without any stored events', async () => {
+    findMany.mockResolvedValue([
+      event('Open', 'hot@example.com', 'm1', '2023-01-10T11:00:00Z')
+    ])
+    getOutboundMessagesWithTotal.mockResolvedValue({
+      messages: [sentMessage('m1', 'hot@example.com'), sentMessage('m2', 'hot@example.com'), sentMessage('m3', 'Quiet@example.com')],
+      totalCount: 3
+    })
+
+    const ranking = await getEngagementRanking('2023-01-01', '2023-01-31', { order: 'least', tag: 'launch' })
+
+    expect(getOutboundMessagesWithTotal).toHaveBeenCalledWith('2023-01-01', '2023-01-31', { tag: 'launch', stream: undefined, status: 'sent' })
+    expect(ranking.totalRecipients).toBe(2)
+    expect(ranking.truncated).toBe(false)
+    expect(ranking.recipients[0]).toMatchObject({ recipient: 'quiet@example.com', messages: 1, opened: 0, score: 0 })
+    expect(ranking.recipients[1]).toMatchObject({ recipient: 'hot@example.com', messages: 2, opened: 1 })
+  })
+})
+
+describe('syncOpenEvents', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should store the imported opens in batches', async () => {
+    const opens = Array.from({ length: 501 }, (_, index) => ({
+      RecordType: 'Open',
+      MessageID: `m${index}`,
+      Recipient: 'a@example.com',
+      ReceivedAt: '2023-01-10T11:00:00Z'
+    }))
+    getAllOpens.mockResolvedValue(opens)
+
+    expect(await syncOpenEvents('2023-01-01', '2023-01-31')).toBe(501)
+    expect(transaction.mock.calls.map(([batch]) => batch.length)).toEqual([500, 1])
+    expect(upsert).toHaveBeenCalledTimes(501)
+  })
+})
+
+describe('getRecipientTimeline', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should attach stored events to the messages sent to the address', async () => {
+    findMany.mockResolvedValueOnce([
+      event('Open', 'a@example.com', 'm1', '2023-01-02T10:00:00Z')
+    ])
+    getOutboundMessagesWithTotal.mockResolvedValueOnce({
+      totalCount: 2,
+      messages: [
+        { MessageID: 'm2', Subject: 'Second', Tag: '', Recipients: ['a@example.com'], ReceivedAt: '2023-01-05T09:00:00Z' },
+        { MessageID: 'm1', Subject: 'First', Tag: 'launch', Recipients: ['a@example.com'], ReceivedAt: '2023-01-01T09:00:00Z' }
+      ]
+    })
+
+    const timeline = await getRecipientTimeline(' A@example.com ', '2023-01-01', '2023-01-31')
+
+    expect(getOutboundMessagesWithTotal).toHaveBeenCalledWith('2023-01-01', '2023-01-31', { recipient: 'a@example.com' })
+    expect(timeline.engagement).toMatchObject({ recipient: 'a@example.com', messages: 2, opened: 1 })
+    expect(timeline.messages.map(message => message.id)).toEqual(['m2', 'm1'])
+    expect(timeline.messages[1]).toMatchObject({ subject: 'First', tag: 'launch', events: [{ type: 'Open', link: null }] })
+    expect(timeline.truncated).toBe(false)
+  })
+
+  it('should report when the address has more messages than the search returns', async () => {
+    findMany.mockResolvedValueOnce([])
+    getOutboundMessagesWithTotal.mockResolvedValueOnce({ totalCount: 10001, messages: [sentMessage('m1', 'a@example.com')] })
+
+    const timeline = await getRecipientTimeline('a@example.com', '2023-01-01', '2023-01-31')
+
+    expect(timeline.truncated).toBe(true)
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { getDomains, getSenderSignatures } = vi.hoisted(() => ({
+  getDomains: vi.fn(),
+  getSenderSignatures: vi.fn()
+}))
+
+vi.mock('@/lib/postmark', () => ({
+  getPostmarkClient: () => ({ getDomains, getSenderSignatures })
+}))
+
+import { getDeliverabilityHealth } from '@/lib/postmark-health'
+
+function domain(name: string, verified: boolean) {
+  return { ID: 1, Name: name, SPFVerified: true, DKIMVerified: true, WeakDKIM: false, ReturnPathDomainVerified: verified }
+}
+
+describe('getDeliverabilityHealth', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should be healthy when every domain and signature is verified', async () => {
+    getDomains.mockResolvedValueOnce([domain('example.com', true)])
+    getSenderSignatures.mockResolvedValueOnce([
+      { ID: 1, Domain: 'example.com', EmailAddress: 'hello@example.com', Name: 'Hello', Confirmed: true }
+    ])
+
+    const health = await getDeliverabilityHealth()
+
+    expect(health.healthy).toBe(true)
+    expect(health.senders[0]).toMatchObject({ dkim: true, spf: true, returnPath: true, healthy: true })
+  })
+
+  it('should flag unverified domains and unconfirmed signatures first', async () => {
+    getDomains.mockResolvedValueOnce([domain('a.com', true), domain('b.com', false)])
+    getSenderSignatures.mockResolvedValueOnce([
+      { ID: 1, Domain: 'a.com', EmailAddress: 'ok@a.com', Confirmed: true },
+      { ID: 2, Domain: 'a.com', EmailAddress: 'new@a.com', Confirmed: false },
+      { ID: 3, Domain: 'c.com', EmailAddress: 'x@c.com', Confirmed: true, SPFVerified: true, DKIMVerified: true, ReturnPathDomainVerified: true }
+    ])
+
+    const health = await getDeliverabilityHealth()
+
+    expect(health.healthy).toBe(false)
+    expect(health.domains.map(row => [row.name, row.healthy])).toEqual([['b.com', false], ['a.com', true]])
+    expect(health.senders.map(row => [row.email, row.healthy])).toEqual([['new@a.com', false], ['ok@a.com', true], ['x@c.com', true]])
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { findMany } = vi.hoisted(() => ({
+  findMany: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({ prisma: { postmarkEvent: { findMany } } }))
+
+import { getEngagementHeatmap, isValidTimeZone } from '@/lib/postmark-heatmap'
+
+function event(recordType: string, tag: string | null, occurredAt: string) {
+  return { recordType, tag, occurredAt: new Date(occurredAt) }
+}
+
+describe('getEngagementHeatmap', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    findMany.mockResolvedValue([
+      // Monday 2023-01-02
+      event('Open', 'launch', '2023-01-02T09:15:00Z'),
+      event('Open', 'launch', '2023-01-02T09:45:00Z'),
+      event('Click', 'launch', '2023-01-02T09:50:00Z'),
+      // Sunday 2023-01-01, 23:30 UTC
+      event('Open', 'digest', '2023-01-01T23:30:00Z')
+    ])
+  })
+
+  it('should count opens and clicks per weekday and hour in UTC', async () => {
+    const heatmap = await getEngagementHeatmap('2023-01-01', '2023-01-02')
+
+    expect(heatmap.cells).toHaveLength(7 * 24)
+    expect(heatmap.cells[9]).toEqual({ weekday: 0, hour: 9, opens: 2, clicks: 1 })
+    expect(heatmap.cells[6 * 24 + 23]).toEqual({ weekday: 6, hour: 23, opens: 1, clicks: 0 })
+    expect(heatmap.totals).toEqual({ opens: 3, clicks: 1 })
+    expect(heatmap.peakOpens).toEqual({ weekday: 0, hour: 9, count: 2 })
+    expect(heatmap.tags).toEqual(['digest', 'launch'])
+  })
+
+  it('should shift events into the requested time zone', async () => {
+    const heatmap = await getEngagementHeatmap('2023-01-01', '2023-01-02', { timeZone: 'Asia/Tokyo' })
+
+    // UTC+9: Monday 09:15 becomes Monday 18:15, Sunday 23:30 becomes Monday 08:30
+    expect(heatmap.cells[18]).toMatchObject({ opens: 2, clicks: 1 })
+    expect(heatmap.cells[8]).toMatchObject({ opens: 1 })
+  })
+
+  it('should read whole days of the requested time zone', async () => {
+    await getEngagementHeatmap('2023-01-02', '2023-01-02', { timeZone: 'Asia/Tokyo' })
+
+    expect(findMany.mock.calls[0][0].where.occurredAt).toEqual({
+      gte: new Date('2023-01-01T15:00:00Z'),
+      lt: new Date('2023-01-02T15:00:00Z')
+    })
+  })
+
+  it('should follow daylight saving changes at the range bounds', async () => {
+    await getEngagementHeatmap('2023-03-12', '2023-03-12', { timeZone: 'America/New_York' })
+
+    expect(findMany.mock.calls[0][0].where.occurredAt).toEqual({
+      gte: new Date('2023-03-12T05:00:00Z'),
+      lt: new Date('2023-03-13T04:00:00Z')
+    })
+  })
+
+  it('should filter by tag but still list every tag', async () => {
+    const heatmap = await getEngagementHeatmap('2023-01-01', '2023-01-02', { tag: 'digest' })
+
+    expect(heatmap.totals).toEqual({ opens: 1, clicks: 0 })
+    expect(heatmap.peakClicks).toBeNull()
+    expect(heatmap.tags).toEqual(['digest', 'launch'])
+  })
+
+  it('should reject unknown time zones', async () => {
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false)
+    await expect(getEngagementHeatmap('2023-01-01', '2023-01-02', { timeZone: 'Mars/Olympus' }))
+      .rejects.toThrow('Unknown time zone: Mars/Olympus')
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { getAllInboundMessages } = vi.hoisted(() => ({
+  getAllInboundMessages: vi.fn()
+}))
+
+vi.mock('@/lib/postmark', () => ({
+  getPostmarkClient: () => ({ getAllInboundMessages })
+}))
+vi.mock('@/lib/postmark-servers', () => ({
+  getServerClient: () => ({ getAllInboundMessages })
+}))
+
+import { getInboundReport } from '@/lib/postmark-inbound'
+
+function message(id: string, from: string, date: string, status: string) {
+  return { MessageID: id, From: from, To: 'support@example.com', Subject: `Subject ${id}`, Date: date, Status: status, Attachments: [] }
+}
+
+describe('getInboundReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should count messages per status, day and sender domain', async () => {
+    getAllInboundMessages.mockResolvedValueOnce([
+      message('m1', 'ann@customer.com', 'Sun, 1 Jan 2023 12:00:00 +0000', 'Processed'),
+      message('m2', 'bob@customer.com', 'Sun, 1 Jan 2023 13:00:00 +0000', 'Failed'),
+      message('m3', 'spam@junk.net', 'Mon, 2 Jan 2023 12:00:00 +0000', 'Blocked'),
+      message('m4', 'cat@Customer.com', 'Mon, 2 Jan 2023 14:00:00 +0000', 'Scheduled'),
+      message('m5', 'dan@other.org', 'Mon, 2 Jan 2023 15:00:00 +0000', 'Queued')
+    ])
+
+    const report = await getInboundReport('2023-01-01', '2023-01-02')
+
+    expect(getAllInboundMessages).toHaveBeenCalledWith('2023-01-01', '2023-01-02')
+    expect(report.summary).toEqual({
+      received: 5,
+      processed: 1,
+      failed: 2,
+      blocked: 1,
+      queued: 1,
+      retrying: 1,
+      failureRate: 40
+    })
+    expect(report.daily).toEqual([
+      { date: '2023-01-01', received: 2, processed: 1, failed: 1, blocked: 0, queued: 0 },
+      { date: '2023-01-02', received: 3, processed: 0, failed: 1, blocked: 1, queued: 1 }
+    ])
+    expect(report.topSenderDomains[0]).toEqual({ domain: 'customer.com', messages: 3, failed: 2, blocked: 0 })
+  })
+
+  it('should list failed messages newest first with their retry status', async () => {
+    getAllInboundMessages.mockResolvedValueOnce([
+      message('m1', 'ann@customer.com', 'Sun, 1 Jan 2023 12:00:00 +0000', 'Failed'),
+      message('m2', 'bob@customer.com', 'Mon, 2 Jan 2023 12:00:00 +0000', 'Scheduled'),
+      message('m3', 'cat@customer.com', 'Mon, 2 Jan 2023 13:00:00 +0000', 'Processed')
+    ])
+
+    const report = await getInboundReport('2023-01-01', '2023-01-02')
+
+    expect(report.failed.map(failed => [failed.messageId, failed.retrying])).toEqual([['m2', true], ['m1', false]])
+    expect(report.failed[0]).toMatchObject({ from: 'bob@customer.com', to: 'support@example.com', date: '2023-01-02T12:00:00.000Z' })
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { findMany, getSnapshots } = vi.hoisted(() => ({
+  findMany: vi.fn(),
+  getSnapshots: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({ prisma: { postmarkEvent: { findMany } } }))
+vi.mock('@/lib/postmark-servers', () => ({
+  getPrimaryServer: async () => ({ id: 'default', name: 'Default', token: 'test-token', primary: true })
+}))
+vi.mock('@/lib/stat-snapshots', () => ({
+  ALL_STREAMS: '__all__',
+  ALL_TAGS: '__all__',
+  getSnapshots
+}))
+
+import { getLinkReport } from '@/lib/postmark-links'
+
+function click(url: string, tag: string | null, recipient: string, occurredAt: string) {
+  return { originalLink: url, tag, recipient, occurredAt: new Date(occurredAt) }
+}
+
+function snapshot(tag: string, opened: number) {
+  return { stream: '__all__', tag, date: '2023-01-01', sent: 0, delivered: 0, opened, clicked: 0, bounced: 0, spam: 0, unsubscribed: 0 }
+}
+
+describe('getLinkReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should count total and unique clicks per link and tag', async () => {
+    findMany.mockResolvedValueOnce([
+      click('https://example.com/pricing', 'launch', 'a@example.com', '2023-01-01T10:00:00Z'),
+      click('https://example.com/pricing', 'launch', 'a@example.com', '2023-01-01T11:00:00Z'),
+      click('https://example.com/pricing', 'launch', 'b@example.com', '2023-01-02T09:00:00Z'),
+      click('https://example.com/docs', 'launch', 'b@example.com', '2023-01-02T09:30:00Z'),
+      click('https://example.com/pricing', null, 'c@example.com', '2023-01-02T12:00:00Z')
+    ])
+    getSnapshots.mockResolvedValueOnce([snapshot('__all__', 20), snapshot('launch', 8)])
+
+    const report = await getLinkReport('2023-01-01', '2023-01-02')
+
+    expect(report.byLink).toEqual([
+      { url: 'https://example.com/pricing', tag: 'launch', totalClicks: 3, uniqueClicks: 2, clickToOpenRate: 25 },
+      { url: 'https://example.com/docs', tag: 'launch', totalClicks: 1, uniqueClicks: 1, clickToOpenRate: 12.5 },
+      { url: 'https://example.com/pricing', tag: null, totalClicks: 1, uniqueClicks: 1, clickToOpenRate: 5 }
+    ])
+    expect(report.summary).toEqual({ links: 3, totalClicks: 5, uniqueClicks: 3, opened: 20, clickToOpenRate: 15 })
+    // Only clicks of the server the opens come from
+    expect(findMany.mock.calls[0][0].where.OR).toEqual([{ server: 'default' }, { server: null }])
+    expect(report.daily).toEqual([
+      { date: '2023-01-01', totalClicks: 2, uniqueClicks: 1 },
+      { date: '2023-01-02', totalClicks: 3, uniqueClicks: 2 }
+    ])
+  })
+
+  it('should compare filtered clicks with the opens of the filtered tag', async () => {
+    findMany.mockResolvedValueOnce([
+      click('https://example.com/pricing', 'launch', 'a@example.com', '2023-01-01T10:00:00Z')
+    ])
+    getSnapshots.mockResolvedValueOnce([snapshot('__all__', 20), snapshot('launch', 4)])
+
+    const report = await getLinkReport('2023-01-01', '2023-01-01', { tag: 'launch' })
+
+    expect(findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ recordType: 'Click', tag: 'launch' })
+    }))
+    expect(report.summary.opened).toBe(4)
+    expect(report.summary.clickToOpenRate).toBe(25)
+  })
+})
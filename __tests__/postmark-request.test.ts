@@ -0,0 +1,35 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { getDateRange, queryString, widenRange } from '@/lib/postmark-request'
+
+describe('queryString', () => {
+  it('should only accept a single, non-empty value', () => {
+    expect(queryString(' launch ')).toBe('launch')
+    expect(queryString('')).toBeUndefined()
+    expect(queryString(['a', 'b'])).toBeUndefined()
+    expect(queryString(undefined)).toBeUndefined()
+  })
+})
+
+describe('getDateRange', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should use from and to when both are given', () => {
+    expect(getDateRange({ from: '2023-01-01', to: '2023-01-31', days: '7' })).toEqual({ from: '2023-01-01', to: '2023-01-31' })
+  })
+
+  it('should fall back to the last days', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2023, 0, 31, 12))
+
+    expect(getDateRange({ days: '7' })).toEqual({ from: '2023-01-24', to: '2023-01-31' })
+    expect(getDateRange({})).toEqual({ from: '2023-01-01', to: '2023-01-31' })
+  })
+})
+
+describe('widenRange', () => {
+  it('should add a day on either side', () => {
+    expect(widenRange({ from: '2023-03-01', to: '2023-03-31' })).toEqual({ from: '2023-02-28', to: '2023-04-01' })
+  })
+})
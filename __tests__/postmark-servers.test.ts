@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { parseServerTokens } from '@/lib/postmark'
+import { getPostmarkServers, getPrimaryServer, getServerStreams } from '@/lib/postmark-servers'
+import { MemoryStateStore, setStateStore } from '@/lib/state-store'
+
+// Mock fetch globally
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+describe('parseServerTokens', () => {
+  it('should parse named tokens', () => {
+    expect(parseServerTokens(' brand-a:token-a, brand-b:token-b ,')).toEqual([
+      { id: 'brand-a', token: 'token-a' },
+      { id: 'brand-b', token: 'token-b' }
+    ])
+  })
+
+  it('should return nothing when unset', () => {
+    expect(parseServerTokens(undefined)).toEqual([])
+  })
+
+  it('should reject entries without a name or token', () => {
+    expect(() => parseServerTokens('token-a')).toThrow('Invalid POSTMARK_SERVER_TOKENS entry "token-a"')
+    expect(() => parseServerTokens('brand-a:')).toThrow('Invalid POSTMARK_SERVER_TOKENS entry')
+  })
+})
+
+describe('getPostmarkServers', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.stubEnv('POSTMARK_SERVER_TOKEN', '')
+    vi.stubEnv('POSTMARK_SERVER_TOKENS', '')
+    vi.stubEnv('POSTMARK_DISCOVER_SERVERS', '')
+    vi.stubEnv('POSTMARK_ACCOUNT_TOKEN', '')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should fall back to the single default server', async () => {
+    vi.stubEnv('POSTMARK_SERVER_TOKEN', 'token-a')
+
+    await expect(getPostmarkServers()).resolves.toEqual([
+      { id: 'default', name: 'Default', token: 'token-a', primary: true }
+    ])
+  })
+
+  it('should use named tokens and mark the POSTMARK_SERVER_TOKEN server as primary', async () => {
+    vi.stubEnv('POSTMARK_SERVER_TOKENS', 'brand-a:token-a,brand-b:token-b')
+    vi.stubEnv('POSTMARK_SERVER_TOKEN', 'token-b')
+
+    const servers = await getPostmarkServers()
+
+    expect(servers.map(server => [server.id, server.primary])).toEqual([['brand-a', false], ['brand-b', true]])
+    await expect(getPrimaryServer()).resolves.toMatchObject({ id: 'brand-b' })
+  })
+
+  it('should make the first named server primary by default', async () => {
+    vi.stubEnv('POSTMARK_SERVER_TOKENS', 'brand-a:token-a,brand-b:token-b')
+
+    await expect(getPrimaryServer()).resolves.toMatchObject({ id: 'brand-a', token: 'token-a' })
+  })
+
+  it('should discover servers with the account token', async () => {
+    vi.stubEnv('POSTMARK_DISCOVER_SERVERS', 'true')
+    vi.stubEnv('POSTMARK_ACCOUNT_TOKEN', 'account-token')
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        TotalCount: 3,
+        Servers: [
+          { ID: 1, Name: 'Brand A', ApiTokens: ['token-a'] },
+          { ID: 2, Name: 'Brand B', ApiTokens: ['token-b', 'token-b2'] },
+          { ID: 3, Name: 'No tokens', ApiTokens: [] }
+        ]
+      })
+    })
+
+    const servers = await getPostmarkServers()
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining('/servers?count=500&offset=0'),
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'X-Postmark-Account-Token': 'account-token' })
+      })
+    )
+    expect(servers).toEqual([
+      { id: '1', name: 'Brand A', token: 'token-a', primary: true },
+      { id: '2', name: 'Brand B', token: 'token-b', primary: false }
+    ])
+
+    // Cached until the discovery TTL runs out
+    await getPostmarkServers()
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should require a token', async () => {
+    await expect(getPostmarkServers()).rejects.toThrow('POSTMARK_SERVER_TOKEN environment variable is not set')
+  })
+})
+
+describe('getServerStreams', () => {
+  const server = { id: 'brand-a', name: 'brand-a', token: 'token-a', primary: false }
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    setStateStore(new MemoryStateStore())
+  })
+
+  it('should list outbound streams once and serve them from the state store', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        TotalCount: 2,
+        MessageStreams: [
+          { ID: 'outbound', Name: 'Transactional', MessageStreamType: 'Transactional' },
+          { ID: 'inbound', Name: 'Inbound', MessageStreamType: 'Inbound' }
+        ]
+      })
+    })
+
+    await getServerStreams(server)
+    const streams = await getServerStreams(server)
+
+    expect(streams.map(stream => stream.ID)).toEqual(['outbound'])
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should return no streams when Postmark can\'t be reached', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 401, statusText: 'Unauthorized', text: async () => '', json: async () => ({ ErrorCode: 10, Message: 'Bad token' }) })
+
+    await expect(getServerStreams(server)).resolves.toEqual([])
+  })
+})
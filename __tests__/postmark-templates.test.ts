@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { findMany, getTemplates, getOutboundMessagesWithTotal, getAllBounces } = vi.hoisted(() => ({
+  findMany: vi.fn(),
+  getTemplates: vi.fn(),
+  getOutboundMessagesWithTotal: vi.fn(),
+  getAllBounces: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({ prisma: { postmarkEvent: { findMany } } }))
+vi.mock('@/lib/postmark', () => ({
+  getPostmarkClient: () => ({ getTemplates, getOutboundMessagesWithTotal, getAllBounces })
+}))
+
+import { getTemplateReport } from '@/lib/postmark-templates'
+
+function message(id: string, receivedAt: string, template: { TemplateId?: number; TemplateAlias?: string } = {}) {
+  return { MessageID: id, Recipients: [], ReceivedAt: receivedAt, ...template }
+}
+
+describe('getTemplateReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    getTemplates.mockResolvedValue([
+      { TemplateId: 1, Name: 'Welcome', Alias: 'welcome', TemplateType: 'Standard', Active: true },
+      { TemplateId: 2, Name: 'Password reset', Alias: 'reset', TemplateType: 'Standard', Active: true },
+      { TemplateId: 3, Name: 'Base layout', Alias: 'layout', TemplateType: 'Layout', Active: true }
+    ])
+    getOutboundMessagesWithTotal.mockResolvedValue({
+      messages: [
+        message('m1', '2023-01-01T10:00:00-05:00', { TemplateId: 1 }),
+        message('m2', '2023-01-01T11:00:00-05:00', { TemplateAlias: 'welcome' }),
+        message('m3', '2023-01-02T09:00:00-05:00', { TemplateId: 1 }),
+        message('m4', '2023-01-02T09:30:00-05:00', { TemplateAlias: 'receipt' }),
+        message('m5', '2023-01-02T10:00:00-05:00')
+      ],
+      totalCount: 5
+    })
+    getAllBounces.mockResolvedValue([
+      { MessageID: 'm3', Type: 'HardBounce' },
+      { MessageID: 'm4', Type: 'SMTPApiError' }
+    ])
+    findMany.mockResolvedValue([
+      { recordType: 'Open', messageId: 'm1' },
+      { recordType: 'Open', messageId: 'm1' },
+      { recordType: 'Click', messageId: 'm1' },
+      { recordType: 'Open', messageId: 'm2' },
+      { recordType: 'Open', messageId: 'm5' }
+    ])
+  })
+
+  it('should count unique opens, clicks and bounces per template', async () => {
+    const report = await getTemplateReport('2023-01-01', '2023-01-02')
+
+    expect(report.byTemplate).toEqual([
+      { id: '1', name: 'Welcome', alias: 'welcome', sent: 3, delivered: 2, opened: 2, clicked: 1, bounced: 1, openRate: 66.67, clickRate: 33.33, bounceRate: 33.33 },
+      { id: 'receipt', name: 'receipt', alias: 'receipt', sent: 1, delivered: 1, opened: 0, clicked: 0, bounced: 0, openRate: 0, clickRate: 0, bounceRate: 0 },
+      { id: '2', name: 'Password reset', alias: 'reset', sent: 0, delivered: 0, opened: 0, clicked: 0, bounced: 0, openRate: 0, clickRate: 0, bounceRate: 0 }
+    ])
+    expect(report.summary).toEqual({ templates: 2, sent: 4, openRate: 50, clickRate: 25, bounceRate: 25, untemplated: 1, totalMessages: 5, truncated: false })
+  })
+
+  it('should limit the daily series to the selected template', async () => {
+    const report = await getTemplateReport('2023-01-01', '2023-01-02', { template: '1' })
+
+    expect(report.daily).toEqual([
+      { date: '2023-01-01', sent: 2, opened: 2, clicked: 1, bounced: 0 },
+      { date: '2023-01-02', sent: 1, opened: 0, clicked: 0, bounced: 1 }
+    ])
+  })
+
+  it('should flag ranges with more messages than the search returns', async () => {
+    getOutboundMessagesWithTotal.mockResolvedValueOnce({
+      messages: [message('m1', '2023-01-01T10:00:00-05:00', { TemplateId: 1 })],
+      totalCount: 12000
+    })
+
+    const report = await getTemplateReport('2023-01-01', '2023-01-02')
+
+    expect(report.summary).toMatchObject({ sent: 1, totalMessages: 12000, truncated: true })
+  })
+})
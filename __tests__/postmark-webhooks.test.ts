@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { authenticateWebhook } from '@/lib/postmark-webhooks'
+import { PostmarkWebhookSchema } from '@/lib/postmark'
+
+vi.mock('@/lib/db', () => ({ prisma: {} }))
+
+describe('authenticateWebhook', () => {
+  beforeEach(() => {
+    vi.stubEnv('POSTMARK_WEBHOOK_USERNAME', 'postmark')
+    vi.stubEnv('POSTMARK_WEBHOOK_PASSWORD', 'hunter2')
+    vi.stubEnv('POSTMARK_WEBHOOK_SECRET', 'shared-secret')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should accept valid basic auth credentials', () => {
+    const authorization = `Basic ${Buffer.from('postmark:hunter2').toString('base64')}`
+    expect(authenticateWebhook({ authorization }, {})).toEqual({ authorized: true })
+  })
+
+  it('should accept the shared secret as a header or query parameter', () => {
+    expect(authenticateWebhook({ 'x-webhook-secret': 'shared-secret' }, {}).authorized).toBe(true)
+    expect(authenticateWebhook({}, { secret: 'shared-secret' }).authorized).toBe(true)
+  })
+
+  it('should reject wrong credentials', () => {
+    const authorization = `Basic ${Buffer.from('postmark:wrong').toString('base64')}`
+    expect(authenticateWebhook({ authorization }, { secret: 'nope' })).toEqual({
+      authorized: false,
+      error: 'Invalid webhook credentials'
+    })
+  })
+
+  it('should reject everything when no credentials are configured', () => {
+    vi.unstubAllEnvs()
+    vi.stubEnv('POSTMARK_WEBHOOK_USERNAME', '')
+    vi.stubEnv('POSTMARK_WEBHOOK_PASSWORD', '')
+    vi.stubEnv('POSTMARK_WEBHOOK_SECRET', '')
+
+    expect(authenticateWebhook({}, { secret: '' }).authorized).toBe(false)
+  })
+})
+
+describe('PostmarkWebhookSchema', () => {
+  it('should parse a click event', () => {
+    const result = PostmarkWebhookSchema.safeParse({
+      RecordType: 'Click',
+      MessageStream: 'outbound',
+      MessageID: '00000000-0000-0000-0000-000000000000',
+      Recipient: 'john@example.com',
+      Tag: 'welcome-email',
+      OriginalLink: 'https://example.com/pricing',
+      ClickLocation: 'HTML',
+      Platform: 'Desktop',
+      ReceivedAt: '2023-01-01T10:00:00Z'
+    })
+
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject unknown record types', () => {
+    const result = PostmarkWebhookSchema.safeParse({ RecordType: 'Inbound', MessageID: 'x' })
+    expect(result.success).toBe(false)
+  })
+})
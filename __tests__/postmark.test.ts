@@ -81,4 +81,361 @@ describe('PostmarkAPI', () => {
       )
     })
   })
-}) 
\ No newline at end of file
+
+  describe('retries', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should retry server errors with backoff', async () => {
+      vi.useFakeTimers()
+      const api = new PostmarkAPI('test-token')
+
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable', text: () => Promise.resolve('') })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ ID: 1, Name: 'Production' }) })
+
+      const server = api.getServer()
+      await vi.advanceTimersByTimeAsync(1000)
+
+      await expect(server).resolves.toMatchObject({ ID: 1, Name: 'Production' })
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not retry client errors', async () => {
+      const api = new PostmarkAPI('test-token')
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        text: () => Promise.resolve(JSON.stringify({ ErrorCode: 10, Message: 'Bad or missing Server API token' }))
+      })
+
+      await expect(api.getServer()).rejects.toMatchObject({
+        name: 'PostmarkApiError',
+        status: 401,
+        errorCode: 10,
+        message: 'Postmark API error: Bad or missing Server API token (10)'
+      })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('getAllTags', () => {
+    let api: PostmarkAPI
+
+    beforeEach(() => {
+      api = new PostmarkAPI('test-token')
+    })
+
+    it('should collect distinct tags from outbound messages', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          TotalCount: 3,
+          Messages: [
+            { MessageID: 'a', Tag: 'welcome', ReceivedAt: '2023-01-01T10:00:00Z' },
+            { MessageID: 'b', Tag: 'newsletter', ReceivedAt: '2023-01-01T11:00:00Z' },
+            { MessageID: 'c', Tag: 'welcome', ReceivedAt: '2023-01-01T12:00:00Z' }
+          ]
+        })
+      })
+
+      const tags = await api.getAllTags('2023-01-01', '2023-01-31')
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.postmarkapp.com/messages/outbound?count=500&offset=0&fromdate=2023-01-01&todate=2023-01-31',
+        expect.any(Object)
+      )
+      expect(tags).toEqual(['newsletter', 'welcome'])
+    })
+
+    it('should group tags by the message stream they were sent through', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          TotalCount: 3,
+          Messages: [
+            { MessageID: 'a', Tag: 'receipt', MessageStream: 'outbound', ReceivedAt: '2023-01-01T10:00:00Z' },
+            { MessageID: 'b', Tag: 'newsletter', MessageStream: 'broadcast', ReceivedAt: '2023-01-01T11:00:00Z' },
+            { MessageID: 'c', Tag: 'welcome', ReceivedAt: '2023-01-01T12:00:00Z' }
+          ]
+        })
+      })
+
+      const tagsByStream = await api.getTagsByStream('2023-01-01', '2023-01-31')
+
+      expect(Object.fromEntries(tagsByStream)).toEqual({
+        outbound: ['receipt', 'welcome'],
+        broadcast: ['newsletter']
+      })
+    })
+
+    it('should search busy ranges day by day to stay under the search cap', async () => {
+      const api = new PostmarkAPI('test-token')
+      mockFetch.mockImplementation((url: string) => {
+        const from = url.match(/fromdate=([\d-]+)/)![1]
+        const to = url.match(/todate=([\d-]+)/)![1]
+        const body = from !== to
+          ? { TotalCount: 15000, Messages: [{ MessageID: 'a', Tag: 'receipt', ReceivedAt: '2023-01-01T10:00:00Z' }] }
+          : { TotalCount: 1, Messages: [{ MessageID: from, Tag: from === '2023-01-01' ? 'receipt' : 'digest', ReceivedAt: `${from}T10:00:00Z` }] }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve(body) })
+      })
+
+      const tagsByStream = await api.getTagsByStream('2023-01-01', '2023-01-02')
+
+      expect(Object.fromEntries(tagsByStream)).toEqual({ outbound: ['digest', 'receipt'] })
+      expect(mockFetch.mock.calls.map(([url]) => url.match(/fromdate=([\d-]+)&todate=([\d-]+)/).slice(1).join('..'))).toEqual([
+        '2023-01-01..2023-01-02',
+        '2023-01-01..2023-01-01',
+        '2023-01-02..2023-01-02'
+      ])
+    })
+  })
+
+  describe('getDailyStats', () => {
+    it('should merge the per-day endpoints into one row per day', async () => {
+      const api = new PostmarkAPI('test-token')
+      const responses: Record<string, unknown> = {
+        sends: { Days: [{ Date: '2023-01-01', Sent: 100 }, { Date: '2023-01-02', Sent: 50 }] },
+        opens: { Days: [{ Date: '2023-01-01', Opens: 40, Unique: 30 }] },
+        clicks: { Days: [{ Date: '2023-01-01', Clicks: 12, Unique: 10 }] },
+        bounces: { Days: [{ Date: '2023-01-02', HardBounce: 2, SoftBounce: 1, SMTPApiError: 4 }] },
+        spam: { Days: [{ Date: '2023-01-02', SpamComplaint: 1 }] }
+      }
+
+      mockFetch.mockImplementation((url: string) => {
+        const endpoint = url.split('/stats/outbound/')[1].split('?')[0]
+        return Promise.resolve({ ok: true, json: () => Promise.resolve(responses[endpoint]) })
+      })
+
+      const days = await api.getDailyStats('2023-01-01', '2023-01-02')
+
+      expect(days).toEqual([
+        { date: '2023-01-01', sent: 100, delivered: 100, opened: 30, clicked: 10, bounced: 0, spam: 0, unsubscribed: 0 },
+        { date: '2023-01-02', sent: 50, delivered: 47, opened: 0, clicked: 0, bounced: 3, spam: 1, unsubscribed: 0 }
+      ])
+    })
+  })
+
+  describe('getDailyUnsubscribes', () => {
+    it('should count recipient unsubscribes per day across outbound streams', async () => {
+      mockFetch.mockImplementation((url: string) => {
+        if (url.includes('/message-streams?')) {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({
+              TotalCount: 3,
+              MessageStreams: [
+                { ID: 'outbound', Name: 'Default Transactional Stream', MessageStreamType: 'Transactional' },
+                { ID: 'broadcast', Name: 'Broadcasts', MessageStreamType: 'Broadcasts' },
+                { ID: 'inbound', Name: 'Inbound', MessageStreamType: 'Inbound' }
+              ]
+            })
+          })
+        }
+
+        const suppressions = url.includes('/message-streams/broadcast/')
+          ? [
+              { EmailAddress: 'a@example.com', SuppressionReason: 'ManualSuppression', Origin: 'Recipient', CreatedAt: '2023-01-01T10:00:00-05:00' },
+              { EmailAddress: 'b@example.com', SuppressionReason: 'ManualSuppression', Origin: 'Recipient', CreatedAt: '2023-01-02T09:00:00-05:00' }
+            ]
+          : [
+              { EmailAddress: 'c@example.com', SuppressionReason: 'ManualSuppression', Origin: 'Recipient', CreatedAt: '2023-01-01T23:00:00-05:00' }
+            ]
+
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({ Suppressions: suppressions }) })
+      })
+
+      const api = new PostmarkAPI('test-token')
+      const counts = await api.getDailyUnsubscribes('2023-01-01', '2023-01-02')
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.postmarkapp.com/message-streams/broadcast/suppressions/dump?fromdate=2023-01-01&todate=2023-01-02&SuppressionReason=ManualSuppression&Origin=Recipient',
+        expect.any(Object)
+      )
+      expect(mockFetch).not.toHaveBeenCalledWith(
+        expect.stringContaining('/message-streams/inbound/'),
+        expect.any(Object)
+      )
+      expect(Object.fromEntries(counts)).toEqual({ '2023-01-01': 2, '2023-01-02': 1 })
+    })
+  })
+
+  describe('getBounces', () => {
+    it('should pass tag, stream, type and inactive filters to the bounce search', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          TotalCount: 1,
+          Bounces: [{
+            ID: 42,
+            Type: 'HardBounce',
+            TypeCode: 1,
+            Name: 'Hard bounce',
+            Tag: 'welcome',
+            MessageStream: 'outbound',
+            Description: 'The server was unable to deliver your message',
+            Email: 'john@example.com',
+            BouncedAt: '2023-01-01T10:00:00-05:00',
+            Inactive: true,
+            CanActivate: true
+          }]
+        })
+      })
+
+      const api = new PostmarkAPI('test-token')
+      const result = await api.getBounces('2023-01-01', '2023-01-31', {
+        tag: 'welcome',
+        stream: 'outbound',
+        type: 'HardBounce',
+        inactive: true,
+        count: 50,
+        offset: 100
+      })
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.postmarkapp.com/bounces?count=50&offset=100&fromdate=2023-01-01&todate=2023-01-31&tag=welcome&messagestream=outbound&type=HardBounce&inactive=true',
+        expect.any(Object)
+      )
+      expect(result.TotalCount).toBe(1)
+      expect(result.Bounces[0]).toMatchObject({ Email: 'john@example.com', Inactive: true })
+    })
+  })
+
+  describe('outbound messages', () => {
+    it('should pass recipient, tag, status, subject and stream filters to the message search', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          TotalCount: 1,
+          Messages: [{
+            MessageID: 'abc-123',
+            Tag: 'receipt',
+            MessageStream: 'outbound',
+            From: 'shop@example.com',
+            Recipients: ['john@example.com'],
+            Subject: 'Your receipt',
+            Status: 'Sent',
+            ReceivedAt: '2023-01-05T10:00:00-05:00'
+          }]
+        })
+      })
+
+      const api = new PostmarkAPI('test-token')
+      const result = await api.searchOutboundMessages('2023-01-01', '2023-01-31', {
+        recipient: 'john@example.com',
+        tag: 'receipt',
+        status: 'sent',
+        subject: 'Your receipt',
+        stream: 'outbound',
+        offset: 50
+      })
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.postmarkapp.com/messages/outbound?count=50&offset=50&fromdate=2023-01-01&todate=2023-01-31&recipient=john%40example.com&tag=receipt&status=sent&subject=Your%20receipt&messagestream=outbound',
+        expect.any(Object)
+      )
+      expect(result.Messages[0]).toMatchObject({ MessageID: 'abc-123', From: 'shop@example.com' })
+    })
+
+    it('should fetch message details with the events timeline', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          MessageID: 'abc-123',
+          Recipients: ['john@example.com'],
+          Subject: 'Your receipt',
+          ReceivedAt: '2023-01-05T10:00:00-05:00',
+          TextBody: 'Thanks for your order',
+          MessageEvents: [
+            { Recipient: 'john@example.com', Type: 'Delivered', ReceivedAt: '2023-01-05T10:00:02-05:00', Details: { DeliveryMessage: '250 OK' } },
+            { Recipient: 'john@example.com', Type: 'Opened', ReceivedAt: '2023-01-05T11:00:00-05:00' }
+          ]
+        })
+      })
+
+      const api = new PostmarkAPI('test-token')
+      const message = await api.getOutboundMessageDetails('abc-123')
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.postmarkapp.com/messages/outbound/abc-123/details',
+        expect.any(Object)
+      )
+      expect(message.TextBody).toBe('Thanks for your order')
+      expect(message.MessageEvents.map(event => event.Type)).toEqual(['Delivered', 'Opened'])
+    })
+  })
+
+  describe('usage breakdowns', () => {
+    it('should turn email client totals into shares sorted by count', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          Days: [{ Date: '2023-01-01', 'Apple Mail': 3, Gmail: 5 }],
+          'Apple Mail': 3,
+          Gmail: 5,
+          Outlook: 0
+        })
+      })
+
+      const api = new PostmarkAPI('test-token')
+      const usage = await api.getEmailClientUsage('2023-01-01', '2023-01-31', 'welcome')
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.postmarkapp.com/stats/outbound/opens/emailclients?fromdate=2023-01-01&todate=2023-01-31&tag=welcome',
+        expect.any(Object)
+      )
+      expect(usage).toEqual([
+        { name: 'Gmail', count: 5 },
+        { name: 'Apple Mail', count: 3 }
+      ])
+    })
+
+    it('should default missing platforms to zero and leave them out', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ Days: [], Desktop: 4, Mobile: 6 })
+      })
+
+      const api = new PostmarkAPI('test-token')
+      const usage = await api.getClickPlatformUsage('2023-01-01', '2023-01-31')
+
+      expect(usage).toEqual([
+        { name: 'Mobile', count: 6 },
+        { name: 'Desktop', count: 4 }
+      ])
+    })
+  })
+
+  describe('account endpoints', () => {
+    it('should send the account token instead of the server token', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          TotalCount: 1,
+          Domains: [{ ID: 1, Name: 'example.com', SPFVerified: true, DKIMVerified: true, ReturnPathDomainVerified: false }]
+        })
+      })
+
+      const api = new PostmarkAPI('test-token', 'account-token')
+      const domains = await api.getDomains()
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.postmarkapp.com/domains?count=500&offset=0',
+        expect.objectContaining({
+          headers: { 'Accept': 'application/json', 'X-Postmark-Account-Token': 'account-token' }
+        })
+      )
+      expect(domains[0]).toMatchObject({ Name: 'example.com', ReturnPathDomainVerified: false, WeakDKIM: false })
+    })
+
+    it('should refuse account requests without an account token', async () => {
+      const api = new PostmarkAPI('test-token')
+
+      expect(api.hasAccountToken()).toBe(false)
+      await expect(api.getSenderSignatures()).rejects.toThrow('Postmark account token is required')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { getRetryAfterMs, isRetryableStatus, RateLimiter } from '@/lib/rate-limiter'
+import { MemoryStateStore } from '@/lib/state-store'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+function response(status: number, headers: Record<string, string> = {}) {
+  return { ok: status >= 200 && status < 300, status, headers: new Headers(headers) }
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should queue requests until the bucket refills', async () => {
+    const limiter = new RateLimiter('test', { capacity: 1, intervalMs: 1000 })
+    const order: string[] = []
+
+    limiter.acquire().then(() => order.push('first'))
+    limiter.acquire().then(() => order.push('second'))
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(order).toEqual(['first'])
+    expect(await limiter.getState()).toMatchObject({ available: 0, queued: 1 })
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(order).toEqual(['first', 'second'])
+  })
+
+  it('should retry server errors and return the successful response', async () => {
+    const limiter = new RateLimiter('test', { capacity: 10, intervalMs: 1000 })
+    mockFetch
+      .mockResolvedValueOnce(response(502))
+      .mockResolvedValueOnce(response(200))
+
+    const result = limiter.fetch('https://example.com')
+    await vi.advanceTimersByTimeAsync(1000)
+
+    await expect(result).resolves.toMatchObject({ status: 200 })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should hold every request back until Retry-After has passed', async () => {
+    const limiter = new RateLimiter('test', { capacity: 10, intervalMs: 1000 })
+    mockFetch
+      .mockResolvedValueOnce(response(429, { 'Retry-After': '5' }))
+      .mockResolvedValue(response(200))
+
+    const first = limiter.fetch('https://example.com/a')
+    await vi.advanceTimersByTimeAsync(0)
+    const second = limiter.fetch('https://example.com/b')
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect((await limiter.getState()).waitingUntil).not.toBeNull()
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(5000)
+
+    await expect(first).resolves.toMatchObject({ status: 200 })
+    await expect(second).resolves.toMatchObject({ status: 200 })
+    expect((await limiter.getState()).waitingUntil).toBeNull()
+  })
+
+  it('should return the last response once retries run out', async () => {
+    const limiter = new RateLimiter('test', { capacity: 10, intervalMs: 1000, maxRetries: 1 })
+    mockFetch.mockResolvedValue(response(500))
+
+    const result = limiter.fetch('https://example.com')
+    await vi.advanceTimersByTimeAsync(1000)
+
+    await expect(result).resolves.toMatchObject({ status: 500 })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should pick up requests and pauses stored by another process', async () => {
+    const store = new MemoryStateStore()
+    const options = { capacity: 2, intervalMs: 1000, store }
+    mockFetch.mockResolvedValue(response(200, { 'Retry-After': '10' }))
+
+    await new RateLimiter('test', options).fetch('https://example.com')
+
+    // A cold start begins with an empty bucket in memory but the same store
+    const state = await new RateLimiter('test', options).getState()
+    expect(state.available).toBe(1)
+    expect(state.waitingUntil).not.toBeNull()
+  })
+
+  it('should not retry client errors', async () => {
+    const limiter = new RateLimiter('test', { capacity: 10, intervalMs: 1000 })
+    mockFetch.mockResolvedValueOnce(response(404))
+
+    await expect(limiter.fetch('https://example.com')).resolves.toMatchObject({ status: 404 })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('isRetryableStatus', () => {
+  it('should only retry timeouts, rate limits and server errors', () => {
+    expect([400, 401, 404, 408, 422, 429, 500, 503].filter(isRetryableStatus)).toEqual([408, 429, 500, 503])
+  })
+})
+
+describe('getRetryAfterMs', () => {
+  const now = Date.parse('2023-01-01T00:00:00Z')
+
+  it('should read Retry-After as seconds or an HTTP date', () => {
+    expect(getRetryAfterMs(new Headers({ 'Retry-After': '30' }), now)).toBe(30000)
+    expect(getRetryAfterMs(new Headers({ 'Retry-After': 'Sun, 01 Jan 2023 00:01:00 GMT' }), now)).toBe(60000)
+  })
+
+  it('should wait for the reset time once no requests remain', () => {
+    expect(getRetryAfterMs(new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '10' }), now)).toBe(10000)
+    expect(getRetryAfterMs(new Headers({ 'X-RateLimit-Remaining': '3', 'X-RateLimit-Reset': '10' }), now)).toBeUndefined()
+  })
+
+  it('should read the time to regain access from Facebook usage headers', () => {
+    const usage = JSON.stringify({ act_1: [{ call_count: 100, estimated_time_to_regain_access: 2 }] })
+    expect(getRetryAfterMs(new Headers({ 'X-Business-Use-Case-Usage': usage }), now)).toBe(120000)
+  })
+})
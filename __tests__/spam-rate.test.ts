@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  calculateSpamRate,
+  getHistoryStart,
+  getRollingSpamRate,
+  getSpamLevel,
+  getSpamThresholds,
+  withDailySpamRates
+} from '@/lib/spam-rate'
+
+function day(date: string, delivered: number, spam: number) {
+  return { date, delivered, spam }
+}
+
+describe('spam rates', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should default to the mailbox provider thresholds', () => {
+    expect(getSpamThresholds()).toEqual({ warning: 0.1, critical: 0.3 })
+  })
+
+  it('should read thresholds from the environment', () => {
+    vi.stubEnv('SPAM_RATE_WARNING_PERCENT', '0.05')
+    vi.stubEnv('SPAM_RATE_CRITICAL_PERCENT', '0.2')
+    expect(getSpamThresholds()).toEqual({ warning: 0.05, critical: 0.2 })
+
+    // Invalid values fall back, and the warning level never exceeds the critical one
+    vi.stubEnv('SPAM_RATE_WARNING_PERCENT', '0.5')
+    vi.stubEnv('SPAM_RATE_CRITICAL_PERCENT', 'high')
+    expect(getSpamThresholds()).toEqual({ warning: 0.3, critical: 0.3 })
+  })
+
+  it('should grade rates against the thresholds', () => {
+    const thresholds = { warning: 0.1, critical: 0.3 }
+    expect(getSpamLevel(0.05, thresholds)).toBe('ok')
+    expect(getSpamLevel(0.1, thresholds)).toBe('warning')
+    expect(getSpamLevel(0.3, thresholds)).toBe('critical')
+  })
+
+  it('should compute rates per delivered message to 3 decimal places', () => {
+    expect(calculateSpamRate(1, 3000)).toBe(0.033)
+    expect(calculateSpamRate(3, 1000)).toBe(0.3)
+    expect(calculateSpamRate(1, 0)).toBe(0)
+  })
+
+  it('should compute rolling windows ending on each day', () => {
+    const days = [
+      day('2023-01-01', 1000, 10),
+      day('2023-01-07', 1000, 0),
+      day('2023-01-08', 1000, 2)
+    ]
+
+    expect(getRollingSpamRate(days, '2023-01-07', 7)).toBe(0.5)
+    expect(getRollingSpamRate(days, '2023-01-08', 7)).toBe(0.1)
+    expect(getRollingSpamRate(days, '2023-01-08', 30)).toBe(0.4)
+  })
+
+  it('should only return days from the start of the range', () => {
+    const days = [
+      day('2022-12-31', 1000, 4),
+      day('2023-01-01', 1000, 0)
+    ]
+
+    expect(getHistoryStart('2023-01-01')).toBe('2022-12-03')
+    expect(withDailySpamRates(days, '2023-01-01')).toEqual([
+      { date: '2023-01-01', delivered: 1000, spam: 0, spamRate: 0, spamRate7d: 0.2, spamRate30d: 0.2 }
+    ])
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { findMany, eventFindMany, syncStateFindUnique, syncStateUpsert } = vi.hoisted(() => ({
+  findMany: vi.fn(),
+  eventFindMany: vi.fn(),
+  syncStateFindUnique: vi.fn(),
+  syncStateUpsert: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    statSnapshot: { findMany, upsert: vi.fn() },
+    postmarkEvent: { findMany: eventFindMany },
+    syncState: { findUnique: syncStateFindUnique, upsert: syncStateUpsert },
+    $transaction: vi.fn()
+  }
+}))
+
+import { MemoryStateStore, setStateStore } from '@/lib/state-store'
+import { getSnapshots, getUniqueEngagement, syncPostmarkServers } from '@/lib/stat-snapshots'
+
+// Mock fetch globally
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+const SERVERS = [
+  { id: 'brand-a', name: 'Brand A', token: 'token-a', primary: true },
+  { id: 'brand-b', name: 'Brand B', token: 'token-b', primary: false }
+]
+
+function overview(uniqueOpens: number, uniqueClicks: number) {
+  return {
+    ok: true,
+    json: () => Promise.resolve({ Sent: 100, Opens: uniqueOpens * 3, UniqueOpens: uniqueOpens, TotalClicks: uniqueClicks * 2, UniqueLinksClicked: uniqueClicks })
+  }
+}
+
+describe('getSnapshots', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  it('should only read rows of the given servers', async () => {
+    findMany.mockResolvedValueOnce([
+      { server: 'brand-a', stream: '__all__', tag: '__all__', date: new Date('2023-01-01T00:00:00Z'), sent: 10, delivered: 9, opened: 4, clicked: 1, bounced: 1, spam: 0, unsubscribed: 0 }
+    ])
+
+    const rows = await getSnapshots('2023-01-01', '2023-01-31', ['brand-a', 'brand-b'])
+
+    expect(findMany.mock.calls[0][0].where.server).toEqual({ in: ['brand-a', 'brand-b'] })
+    expect(rows).toEqual([
+      { server: 'brand-a', stream: '__all__', tag: '__all__', date: '2023-01-01', sent: 10, delivered: 9, opened: 4, clicked: 1, bounced: 1, spam: 0, unsubscribed: 0 }
+    ])
+  })
+})
+
+describe('getUniqueEngagement', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    setStateStore(new MemoryStateStore())
+  })
+
+  it('should add up the unique opens and clicks of every server over the range', async () => {
+    mockFetch.mockResolvedValueOnce(overview(40, 12)).mockResolvedValueOnce(overview(10, 3))
+
+    await expect(getUniqueEngagement(SERVERS, '2023-01-01', '2023-01-31')).resolves.toEqual({ opened: 50, clicked: 15 })
+    expect(mockFetch.mock.calls[0][0]).toBe('https://api.postmarkapp.com/stats/outbound?fromdate=2023-01-01&todate=2023-01-31')
+  })
+
+  it('should filter by stream and reuse the cached totals', async () => {
+    mockFetch.mockResolvedValueOnce(overview(40, 12))
+
+    await getUniqueEngagement(SERVERS.slice(0, 1), '2023-01-01', '2023-01-31', 'broadcast')
+    await expect(getUniqueEngagement(SERVERS.slice(0, 1), '2023-01-01', '2023-01-31', 'broadcast')).resolves.toEqual({ opened: 40, clicked: 12 })
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(mockFetch.mock.calls[0][0]).toContain('messagestream=broadcast')
+  })
+
+  it('should count a tag on its own', async () => {
+    mockFetch.mockResolvedValueOnce(overview(8, 2))
+
+    await expect(getUniqueEngagement(SERVERS.slice(0, 1), '2023-01-01', '2023-01-31', 'broadcast', 'launch')).resolves.toEqual({ opened: 8, clicked: 2 })
+    expect(mockFetch.mock.calls[0][0]).toBe('https://api.postmarkapp.com/stats/outbound?fromdate=2023-01-01&todate=2023-01-31&tag=launch&messagestream=broadcast')
+  })
+})
+
+describe('syncPostmarkServers', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    setStateStore(new MemoryStateStore())
+    eventFindMany.mockResolvedValue([])
+    syncStateFindUnique.mockResolvedValue(null)
+  })
+
+  it('should leave the range unsynced when one of the daily count calls fails', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.includes('/stats/outbound/opens')) {
+        return { ok: false, status: 422, statusText: 'Unprocessable', headers: new Headers(), text: async () => '{"ErrorCode":100,"Message":"Server error"}' }
+      }
+      const body = url.includes('/messages/outbound')
+        ? { TotalCount: 0, Messages: [] }
+        : url.includes('/message-streams')
+          ? { TotalCount: 0, MessageStreams: [] }
+          : { Days: [] }
+      return { ok: true, status: 200, headers: new Headers(), json: async () => body }
+    })
+
+    await expect(syncPostmarkServers(SERVERS.slice(0, 1), { from: '2023-01-01', to: '2023-01-31' })).rejects.toThrow('Server error')
+    expect(syncStateUpsert).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { findUnique, upsert, deleteMany } = vi.hoisted(() => ({
+  findUnique: vi.fn(),
+  upsert: vi.fn(),
+  deleteMany: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({ prisma: { keyValue: { findUnique, upsert, deleteMany } } }))
+
+import { MemoryStateStore, PrismaStateStore } from '@/lib/state-store'
+
+describe('MemoryStateStore', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should return stored values until they expire', async () => {
+    vi.useFakeTimers()
+    const store = new MemoryStateStore()
+
+    await store.set('cache', { total: 3 }, 1000)
+    await store.set('bucket', { tokens: 1 })
+    expect(await store.get('cache')).toEqual({ total: 3 })
+
+    vi.advanceTimersByTime(1000)
+
+    expect(await store.get('cache')).toBeUndefined()
+    expect(await store.get('bucket')).toEqual({ tokens: 1 })
+  })
+
+  it('should delete values', async () => {
+    const store = new MemoryStateStore()
+    await store.set('bucket', { tokens: 1 })
+    await store.delete('bucket')
+
+    expect(await store.get('bucket')).toBeUndefined()
+  })
+})
+
+describe('PrismaStateStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should store values as JSON with an expiry', async () => {
+    const store = new PrismaStateStore()
+    const before = Date.now()
+
+    await store.set('bucket', { tokens: 2 }, 60000)
+
+    const { where, create } = upsert.mock.calls[0][0]
+    expect(where).toEqual({ key: 'bucket' })
+    expect(create.value).toBe('{"tokens":2}')
+    expect(create.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 60000)
+  })
+
+  it('should parse stored values', async () => {
+    findUnique.mockResolvedValueOnce({ key: 'bucket', value: '{"tokens":2}', expiresAt: null })
+
+    expect(await new PrismaStateStore().get('bucket')).toEqual({ tokens: 2 })
+  })
+
+  it('should treat expired rows as missing and remove them', async () => {
+    const expiresAt = new Date(Date.now() - 1000)
+    findUnique.mockResolvedValueOnce({ key: 'bucket', value: '{"tokens":2}', expiresAt })
+
+    expect(await new PrismaStateStore().get('bucket')).toBeUndefined()
+    expect(deleteMany).toHaveBeenCalledWith({ where: { key: 'bucket', expiresAt } })
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { findUnique, upsert } = vi.hoisted(() => ({
+  findUnique: vi.fn(),
+  upsert: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({ prisma: { syncState: { findUnique, upsert } } }))
+
+import { planSync, runSync, SyncSource } from '@/lib/sync'
+
+describe('planSync', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-03-10T12:00:00'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should fetch the whole range when nothing is stored', () => {
+    expect(planSync({ from: '2024-02-01', to: '2024-03-10' }, null, 2)).toEqual([
+      { from: '2024-02-01', to: '2024-03-10' }
+    ])
+  })
+
+  it('should only fetch the look-back window when the range is covered', () => {
+    const coverage = { from: '2024-01-01', to: '2024-03-10' }
+
+    expect(planSync({ from: '2024-02-01', to: '2024-03-10' }, coverage, 2)).toEqual([
+      { from: '2024-03-09', to: '2024-03-10' }
+    ])
+  })
+
+  it('should fetch nothing for ranges older than the look-back window', () => {
+    const coverage = { from: '2024-01-01', to: '2024-03-10' }
+
+    expect(planSync({ from: '2024-01-10', to: '2024-01-20' }, coverage, 7)).toEqual([])
+  })
+
+  it('should fill the gaps before and after stored coverage', () => {
+    const coverage = { from: '2024-02-01', to: '2024-02-20' }
+
+    expect(planSync({ from: '2024-01-15', to: '2024-03-10' }, coverage, 0)).toEqual([
+      { from: '2024-01-15', to: '2024-01-31' },
+      { from: '2024-02-21', to: '2024-03-10' }
+    ])
+  })
+
+  it('should not fetch past today', () => {
+    expect(planSync({ from: '2024-03-01', to: '2024-03-31' }, null, 2)).toEqual([
+      { from: '2024-03-01', to: '2024-03-10' }
+    ])
+  })
+
+  it('should re-fetch the requested range when forced', () => {
+    const coverage = { from: '2024-01-01', to: '2024-03-10' }
+
+    expect(planSync({ from: '2024-02-01', to: '2024-02-29' }, coverage, 2, true)).toEqual([
+      { from: '2024-02-01', to: '2024-02-29' }
+    ])
+  })
+})
+
+describe('runSync', () => {
+  const source = (syncRange: SyncSource['syncRange']): SyncSource => ({ name: 'test', lookbackDays: 2, minIntervalMinutes: 15, syncRange })
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-03-10T12:00:00'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function coverage(updatedAt: Date) {
+    return { firstSyncedDate: new Date('2024-01-01T00:00:00Z'), lastSyncedDate: new Date('2024-03-10T00:00:00Z'), updatedAt }
+  }
+
+  it('should skip the look-back window right after a sync', async () => {
+    findUnique.mockResolvedValue(coverage(new Date(Date.now() - 5 * 60 * 1000)))
+    const syncRange = vi.fn()
+
+    const result = await runSync(source(syncRange), { from: '2024-02-01', to: '2024-03-10' })
+
+    expect(result.fetched).toEqual([])
+    expect(syncRange).not.toHaveBeenCalled()
+  })
+
+  it('should fetch the look-back window once the interval has passed or when forced', async () => {
+    findUnique.mockResolvedValue(coverage(new Date(Date.now() - 20 * 60 * 1000)))
+    const syncRange = vi.fn()
+
+    expect((await runSync(source(syncRange), { from: '2024-02-01', to: '2024-03-10' })).fetched).toEqual([
+      { from: '2024-03-09', to: '2024-03-10' }
+    ])
+
+    findUnique.mockResolvedValue(coverage(new Date()))
+    expect((await runSync(source(syncRange), { from: '2024-03-01', to: '2024-03-10' }, { force: true })).fetched).toEqual([
+      { from: '2024-03-01', to: '2024-03-10' }
+    ])
+  })
+
+  it('should still fetch days before the stored range', async () => {
+    findUnique.mockResolvedValue(coverage(new Date()))
+    const syncRange = vi.fn()
+
+    expect((await runSync(source(syncRange), { from: '2023-12-20', to: '2024-03-10' })).fetched).toEqual([
+      { from: '2023-12-20', to: '2023-12-31' }
+    ])
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { getColumnAliases, getTransactionDay, importTransactions, mapColumns, normalizeTransactionDate } from '@/lib/thrivecart-import'
+
+const HEADER = ['event', 'item_name', 'item_plan_name', 'date', 'checkbox_confirmation', 'price']
+
+describe('mapColumns', () => {
+  it('should find fields by header regardless of order and spelling', () => {
+    const { indexes, missing } = mapColumns(['Price', 'Item Name', 'Event', 'Order Date'])
+
+    expect(indexes).toMatchObject({ price: 0, item_name: 1, event: 2, date: 3, item_plan_name: -1 })
+    expect(missing).toEqual([])
+  })
+
+  it('should report missing required columns', () => {
+    expect(mapColumns(['event', 'date']).missing).toEqual(['item_name', 'price'])
+  })
+
+  it('should use configured aliases before the defaults', () => {
+    const aliases = getColumnAliases('{"price":["Net Amount"]}')
+
+    expect(aliases.price).toEqual(['net_amount', 'price', 'amount', 'total', 'order_total'])
+    expect(mapColumns(['event', 'item', 'date', 'Net Amount', 'Total'], aliases).indexes.price).toBe(3)
+  })
+
+  it('should reject invalid alias configuration', () => {
+    expect(() => getColumnAliases('price=amount')).toThrow('not valid JSON')
+    expect(() => getColumnAliases('{"cost":["amount"]}')).toThrow('unknown field "cost"')
+  })
+})
+
+describe('normalizeTransactionDate', () => {
+  it('should store times separated by a space or by T the same way', () => {
+    expect(normalizeTransactionDate('2025-06-13 14:46:08')).toBe('2025-06-13 14:46:08')
+    expect(normalizeTransactionDate('2025-06-13T14:46:08Z')).toBe('2025-06-13 14:46:08')
+    expect(normalizeTransactionDate(' 2025-06-13T14:46:08.123+02:00 ')).toBe('2025-06-13 14:46:08')
+    expect(normalizeTransactionDate('2025-06-13T14:46')).toBe('2025-06-13 14:46:00')
+    expect(normalizeTransactionDate('2025-06-13')).toBe('2025-06-13')
+    expect(normalizeTransactionDate('13/06/2025')).toBeNull()
+  })
+
+  it('should read the day of either form', () => {
+    expect(getTransactionDay('2025-06-13T23:59:59Z')).toBe('2025-06-13')
+    expect(getTransactionDay('2025-06-13 00:00:00')).toBe('2025-06-13')
+    expect(getTransactionDay('June 13')).toBeNull()
+  })
+})
+
+describe('importTransactions', () => {
+  it('should accept valid rows and report rejected ones with a reason', () => {
+    const { transactions, report } = importTransactions([
+      {
+        name: 'orders',
+        rows: [
+          HEADER,
+          ['Purchase', 'Course', 'Monthly', '2025-06-13 14:46:08', 'TRUE', '$1,299.00'],
+          ['refund', 'Course', '', '2025-06-14', 'false', ''],
+          ['chargeback', 'Course', 'Monthly', '2025-06-14', 'false', '99'],
+          ['purchase', 'Course', 'Monthly', '2025-06-15', 'false', 'free'],
+          ['purchase', 'Course']
+        ]
+      },
+      {
+        name: 'upsells',
+        rows: [['event', 'price', 'date', 'product'], ['upsellaccept', '49', '2025-06-13', 'Templates']]
+      }
+    ])
+
+    expect(transactions).toEqual([
+      { event: 'purchase', item_name: 'Course', item_plan_name: 'Monthly', date: '2025-06-13 14:46:08', checkbox_confirmation: true, price: 1299 },
+      { event: 'refund', item_name: 'Course', item_plan_name: '', date: '2025-06-14', checkbox_confirmation: false, price: 0 },
+      { event: 'upsellaccept', item_name: 'Templates', item_plan_name: '', date: '2025-06-13', checkbox_confirmation: false, price: 49 }
+    ])
+    expect(report).toMatchObject({
+      accepted: 3,
+      rejected: 3,
+      unknownEvents: [{ event: 'chargeback', count: 1 }],
+      rejections: [
+        { source: 'orders', row: 4, reason: 'event is not a known event type' },
+        { source: 'orders', row: 5, reason: 'price must be a number' },
+        { source: 'orders', row: 6, reason: 'date is missing; price is missing' }
+      ]
+    })
+    expect(report.sources.map(source => [source.name, source.accepted, source.rejected])).toEqual([
+      ['orders', 2, 3],
+      ['upsells', 1, 0]
+    ])
+  })
+
+  it('should reject every row of a source missing required columns', () => {
+    const { transactions, report } = importTransactions([
+      { name: 'legacy', rows: [['type', 'name', 'when'], ['purchase', 'Course', '2025-06-13']] }
+    ])
+
+    expect(transactions).toEqual([])
+    expect(report.rejected).toBe(1)
+    expect(report.sources[0].missingColumns).toEqual(['item_name', 'date', 'price'])
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import type { ThriveCartTransaction } from '@/lib/thrivecart'
+import { matchRefunds, UNMATCHED_PRODUCT } from '@/lib/thrivecart-refunds'
+
+function transaction(event: ThriveCartTransaction['event'], item_name: string, date: string, price: number, item_plan_name = ''): ThriveCartTransaction {
+  return { event, item_name, item_plan_name, date, checkbox_confirmation: false, price }
+}
+
+describe('matchRefunds', () => {
+  it('should match a refund to the latest earlier sale of the same product', () => {
+    const older = transaction('purchase', 'Course', '2025-06-01 10:00:00', 99)
+    const newer = transaction('purchase', 'Course', '2025-06-05 10:00:00', 99)
+    const later = transaction('purchase', 'Course', '2025-06-20 10:00:00', 99)
+    const refund = transaction('refund', 'Course', '2025-06-10 09:00:00', -99)
+
+    const [match] = matchRefunds([older, newer, later, refund])
+
+    expect(match).toEqual({ refund, amount: 99, product: 'Course', purchase: newer })
+  })
+
+  it('should not match the same sale twice', () => {
+    const sale = transaction('purchase', 'Course', '2025-06-01', 99)
+    const matches = matchRefunds([
+      sale,
+      transaction('refund', 'Course', '2025-06-02', 99),
+      transaction('refund', 'Course', '2025-06-03', 99)
+    ])
+
+    expect(matches.map(match => match.purchase)).toEqual([sale, null])
+    expect(matches[1].product).toBe('Course')
+  })
+
+  it('should fall back to the plan and then the amount', () => {
+    const upsell = transaction('upsellaccept', 'Templates', '2025-06-01', 49, 'Lifetime')
+    const coaching = transaction('purchase', 'Coaching', '2025-06-01', 500)
+
+    const matches = matchRefunds([
+      upsell,
+      coaching,
+      transaction('refund', '', '2025-06-02', 20, 'Lifetime'),
+      transaction('refund', '', '2025-06-03', 500)
+    ])
+
+    expect(matches.map(match => [match.product, match.amount])).toEqual([
+      ['Templates', 20],
+      ['Coaching', 500]
+    ])
+  })
+
+  it('should use sales before the range and refund the whole sale without an amount', () => {
+    const earlier = transaction('purchase', 'Course', '2025-05-01', 199)
+
+    const [match] = matchRefunds([transaction('refund', 'Course', '2025-06-02', 0)], [earlier])
+
+    expect(match).toMatchObject({ amount: 199, product: 'Course', purchase: earlier })
+  })
+
+  it('should keep refunds that match no sale', () => {
+    const [match] = matchRefunds([transaction('refund', '', '2025-06-02', 75)])
+
+    expect(match).toMatchObject({ amount: 75, product: UNMATCHED_PRODUCT, purchase: null })
+  })
+})
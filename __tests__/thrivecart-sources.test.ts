@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { lookup } = vi.hoisted(() => ({
+  lookup: vi.fn()
+}))
+
+vi.mock('dns/promises', () => ({ default: { lookup }, lookup }))
+
+import { MemoryStateStore, setStateStore } from '@/lib/state-store'
+import {
+  authenticateSourceAdmin,
+  clearThriveCartSources,
+  getThriveCartSources,
+  isPrivateAddress,
+  parseSourceList,
+  saveThriveCartSources,
+  validateThriveCartSource
+} from '@/lib/thrivecart-sources'
+
+// Mock fetch globally
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+const HEADER = 'event,item_name,item_plan_name,date,checkbox_confirmation,price'
+
+function csvResponse(body: string, status = 200) {
+  return { ok: status < 400, status, headers: new Headers(), text: async () => body }
+}
+
+function redirectResponse(location: string) {
+  return { ok: false, status: 307, headers: new Headers({ location }), text: async () => '' }
+}
+
+describe('getThriveCartSources', () => {
+  beforeEach(() => {
+    setStateStore(new MemoryStateStore())
+    vi.stubEnv('THRIVECART_CSV_URLS', 'main=https://example.com/a.csv, https://example.com/b.csv')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should read named and unnamed URLs from the environment', async () => {
+    expect(await getThriveCartSources()).toEqual({
+      origin: 'env',
+      sources: [
+        { name: 'main', url: 'https://example.com/a.csv' },
+        { name: 'Sheet 2', url: 'https://example.com/b.csv' }
+      ]
+    })
+  })
+
+  it('should prefer saved sources until they are cleared', async () => {
+    await saveThriveCartSources([{ name: 'Upsells', url: 'https://example.com/c.csv' }])
+    expect(await getThriveCartSources()).toEqual({
+      origin: 'settings',
+      sources: [{ name: 'Upsells', url: 'https://example.com/c.csv' }]
+    })
+
+    await clearThriveCartSources()
+    expect((await getThriveCartSources()).origin).toBe('env')
+  })
+
+  it('should fall back to the original sheet without any configured sources', async () => {
+    vi.stubEnv('THRIVECART_CSV_URLS', '')
+
+    const settings = await getThriveCartSources()
+
+    expect(settings.origin).toBe('default')
+    expect(settings.sources).toHaveLength(1)
+    expect(settings.sources[0].url).toMatch(/^https:\/\/docs\.google\.com\/spreadsheets\//)
+  })
+
+  it('should accept newline separated lists', () => {
+    expect(parseSourceList('\nhttps://example.com/a.csv\n\n')).toEqual([
+      { name: 'Sheet 1', url: 'https://example.com/a.csv' }
+    ])
+  })
+})
+
+describe('authenticateSourceAdmin', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should require the configured admin secret', () => {
+    vi.stubEnv('THRIVECART_ADMIN_SECRET', 's3cret')
+
+    expect(authenticateSourceAdmin({ 'x-admin-secret': 's3cret' })).toEqual({ authorized: true })
+    expect(authenticateSourceAdmin({ 'x-admin-secret': 'guess' }).authorized).toBe(false)
+    expect(authenticateSourceAdmin({}).authorized).toBe(false)
+  })
+
+  it('should refuse every request without a configured secret', () => {
+    vi.stubEnv('THRIVECART_ADMIN_SECRET', '')
+
+    expect(authenticateSourceAdmin({ 'x-admin-secret': '' })).toEqual({
+      authorized: false,
+      error: 'Source management is not configured; set THRIVECART_ADMIN_SECRET'
+    })
+  })
+})
+
+describe('isPrivateAddress', () => {
+  it('should recognise loopback, private and link-local addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']
+      .forEach(address => expect(isPrivateAddress(address), address).toBe(true))
+  })
+
+  it('should allow public addresses', () => {
+    ['8.8.8.8', '172.32.0.1', '142.250.185.78', '2a00:1450:4001:82b::200e']
+      .forEach(address => expect(isPrivateAddress(address), address).toBe(false))
+  })
+})
+
+describe('validateThriveCartSource', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    lookup.mockResolvedValue([{ address: '93.184.215.14', family: 4 }])
+  })
+
+  it('should report columns and rows of a valid sheet', async () => {
+    mockFetch.mockResolvedValueOnce(csvResponse(`${HEADER}\npurchase,Course,Monthly,2025-06-13 14:46:08,true,$99.00\n`))
+
+    const result = await validateThriveCartSource('https://example.com/a.csv')
+
+    expect(result.ok).toBe(true)
+    expect(result.rowCount).toBe(1)
+    expect(result.columns).toEqual(HEADER.split(','))
+    expect(result.problems).toEqual([])
+  })
+
+  it('should map reordered and aliased headers', async () => {
+    mockFetch.mockResolvedValueOnce(csvResponse('Date,Product,Amount,Event\n2025-06-13,Course,$99.00,purchase\n'))
+
+    const result = await validateThriveCartSource('https://example.com/a.csv')
+
+    expect(result.ok).toBe(true)
+    expect(result.mapping).toMatchObject({ event: 'Event', item_name: 'Product', date: 'Date', price: 'Amount', item_plan_name: null })
+  })
+
+  it('should flag missing columns as errors and bad rows as warnings', async () => {
+    mockFetch.mockResolvedValueOnce(csvResponse('event,product,date\npurchase,Course,2025-06-13\n'))
+    expect(await validateThriveCartSource('https://example.com/a.csv')).toMatchObject({
+      ok: false,
+      problems: [{ level: 'error', message: 'Missing columns: price. Rename the headers or add them to THRIVECART_COLUMN_ALIASES' }]
+    })
+
+    mockFetch.mockResolvedValueOnce(csvResponse([
+      HEADER,
+      'purchase,Course,Monthly,13/06/2025,true,99',
+      'chargeback,Course,Monthly,2025-06-14,true,99',
+      'purchase,Course,Monthly,2025-06-15,true,99'
+    ].join('\n')))
+
+    const result = await validateThriveCartSource('https://example.com/a.csv')
+
+    expect(result.ok).toBe(true)
+    expect(result.rowCount).toBe(3)
+    expect(result.problems).toEqual([
+      {
+        level: 'warning',
+        message: '2 of 3 rows will be rejected (row 2: date must start with YYYY-MM-DD; row 3: event is not a known event type)'
+      },
+      { level: 'warning', message: 'Unknown event types: chargeback (1)' }
+    ])
+  })
+
+  it('should reject sheets that are not published as CSV', async () => {
+    mockFetch.mockResolvedValueOnce(csvResponse('<!DOCTYPE html><html><body>Sign in</body></html>'))
+
+    const result = await validateThriveCartSource('https://example.com/private')
+
+    expect(result.ok).toBe(false)
+    expect(result.problems[0].message).toContain('HTML page instead of CSV')
+  })
+
+  it('should not fetch URLs without an http scheme', async () => {
+    const result = await validateThriveCartSource('ftp://example.com/a.csv')
+
+    expect(result.ok).toBe(false)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should not fetch private or local hosts', async () => {
+    for (const url of ['http://localhost:3000/api', 'http://169.254.169.254/latest/meta-data', 'http://[::1]/a.csv']) {
+      expect((await validateThriveCartSource(url)).problems).toEqual([
+        { level: 'error', message: 'URL must not point at a private or local address' }
+      ])
+    }
+
+    lookup.mockResolvedValueOnce([{ address: '10.0.0.5', family: 4 }])
+    expect((await validateThriveCartSource('https://internal.example.com/a.csv')).ok).toBe(false)
+
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should check every redirect before following it', async () => {
+    mockFetch
+      .mockResolvedValueOnce(redirectResponse('https://sheets.example.com/export.csv'))
+      .mockResolvedValueOnce(csvResponse(`${HEADER}\npurchase,Course,Monthly,2025-06-13 14:46:08,true,$99.00\n`))
+
+    expect((await validateThriveCartSource('https://example.com/a.csv')).ok).toBe(true)
+    expect(mockFetch.mock.calls.map(([url, init]) => [url, init.redirect])).toEqual([
+      ['https://example.com/a.csv', 'manual'],
+      ['https://sheets.example.com/export.csv', 'manual']
+    ])
+    expect(lookup).toHaveBeenCalledWith('sheets.example.com', { all: true })
+  })
+
+  it('should not follow redirects to private or local hosts', async () => {
+    mockFetch.mockResolvedValueOnce(redirectResponse('http://169.254.169.254/latest/meta-data'))
+
+    expect((await validateThriveCartSource('https://example.com/a.csv')).problems).toEqual([
+      { level: 'error', message: 'URL must not point at a private or local address' }
+    ])
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should give up after too many redirects', async () => {
+    mockFetch.mockResolvedValue(redirectResponse('/again'))
+
+    expect((await validateThriveCartSource('https://example.com/a.csv')).problems).toEqual([
+      { level: 'error', message: 'More than 5 redirects' }
+    ])
+    expect(mockFetch).toHaveBeenCalledTimes(6)
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { findMany, createMany } = vi.hoisted(() => ({
+  findMany: vi.fn(),
+  createMany: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({ prisma: { thriveCartTransaction: { findMany, createMany } } }))
+
+import { importUpload, transactionFingerprint } from '@/lib/thrivecart-upload'
+
+const HEADER = ['Event', 'Item name', 'Item plan name', 'Date', 'Checkbox confirmation', 'Price']
+
+const rows = (...data: string[][]) => [HEADER, ...data]
+
+describe('transactionFingerprint', () => {
+  it('ignores case and surrounding spaces in names', () => {
+    const a = transactionFingerprint({ event: 'purchase', item_name: 'Course ', item_plan_name: 'Monthly', date: '2025-06-01 10:00:00', checkbox_confirmation: false, price: 99 })
+    const b = transactionFingerprint({ event: 'purchase', item_name: 'course', item_plan_name: 'MONTHLY', date: '2025-06-01 10:00:00', checkbox_confirmation: true, price: 99.0 })
+    expect(a).toBe(b)
+  })
+
+  it('compares dates in their stored form and prices to the cent', () => {
+    const a = transactionFingerprint({ event: 'purchase', item_name: 'Course', item_plan_name: '', date: '2025-06-01T10:00:00Z', checkbox_confirmation: false, price: 99.001 })
+    const b = transactionFingerprint({ event: 'purchase', item_name: 'Course', item_plan_name: '', date: '2025-06-01 10:00:00', checkbox_confirmation: false, price: 99 })
+    expect(a).toBe(b)
+  })
+})
+
+describe('importUpload', () => {
+  beforeEach(() => {
+    findMany.mockReset().mockResolvedValue([])
+    createMany.mockReset().mockResolvedValue({ count: 0 })
+  })
+
+  it('stores new rows as uploads with their fingerprint', async () => {
+    const result = await importUpload({
+      fileName: 'export.csv',
+      rows: rows(
+        ['purchase', 'Course', '', '2025-06-01 10:00:00', 'false', '$99.00'],
+        ['refund', 'Course', '', '2025-06-03 09:00:00', 'false', '-99']
+      )
+    })
+
+    expect(result).toMatchObject({ rowCount: 2, accepted: 2, rejected: 0, duplicates: 0, imported: 2, missingColumns: [] })
+    expect(findMany.mock.calls[0][0].where.day).toEqual({ gte: expect.any(Date), lte: expect.any(Date) })
+
+    const data = createMany.mock.calls[0][0].data
+    expect(data).toHaveLength(2)
+    expect(data[0]).toMatchObject({ event: 'purchase', itemName: 'Course', price: 99, source: 'upload', fingerprint: 'purchase|course||2025-06-01 10:00:00|99.00#1' })
+  })
+
+  it('skips rows already uploaded but keeps rows repeated in the file', async () => {
+    findMany.mockResolvedValue([
+      { event: 'purchase', itemName: 'Course', itemPlanName: '', date: '2025-06-01 10:00:00', checkboxConfirmation: false, price: 99, source: 'upload', fingerprint: 'purchase|course||2025-06-01 10:00:00|99.00#1' }
+    ])
+
+    const result = await importUpload({
+      fileName: 'export.csv',
+      rows: rows(
+        ['purchase', 'Course', '', '2025-06-01 10:00:00', 'false', '99'],
+        ['purchase', 'Templates', '', '2025-06-02 10:00:00', 'false', '49'],
+        ['purchase', 'Templates', '', '2025-06-02 10:00:00', 'false', '49']
+      )
+    })
+
+    expect(result.duplicates).toBe(1)
+    expect(result.imported).toBe(2)
+    expect(result.preview.map(transaction => transaction.item_name)).toEqual(['Templates', 'Templates'])
+    expect(createMany.mock.calls[0][0].data.map((row: { fingerprint: string }) => row.fingerprint)).toEqual([
+      'purchase|templates||2025-06-02 10:00:00|49.00#1',
+      'purchase|templates||2025-06-02 10:00:00|49.00#2'
+    ])
+  })
+
+  it('only skips as many copies of a row as are already stored', async () => {
+    const stored = { event: 'purchase', itemName: 'Course', itemPlanName: '', date: '2025-06-01 10:00:00', checkboxConfirmation: false, price: 99 }
+    findMany.mockResolvedValue([
+      { ...stored, source: 'sheet', fingerprint: null },
+      { ...stored, source: 'upload', fingerprint: 'purchase|course||2025-06-01 10:00:00|99.00#1' },
+      { ...stored, source: 'upload', fingerprint: 'purchase|course||2025-06-01 10:00:00|99.00#2' }
+    ])
+    const course = ['purchase', 'Course', '', '2025-06-01T10:00:00', 'false', '99.00']
+
+    const result = await importUpload({ fileName: 'export.csv', rows: rows(course, course, course) })
+
+    expect(result.duplicates).toBe(2)
+    expect(result.imported).toBe(1)
+    expect(createMany.mock.calls[0][0].data[0].fingerprint).toBe('purchase|course||2025-06-01 10:00:00|99.00#3')
+  })
+
+  it('stores every copy of a row the sheet has as well', async () => {
+    const stored = { event: 'purchase', itemName: 'Course', itemPlanName: '', date: '2025-06-01 10:00:00', checkboxConfirmation: false, price: 99, source: 'sheet', fingerprint: null }
+    findMany.mockResolvedValue([stored, stored])
+    const course = ['purchase', 'Course', '', '2025-06-01 10:00:00', 'false', '99']
+
+    const result = await importUpload({ fileName: 'export.csv', rows: rows(course, course, course) })
+
+    expect(result).toMatchObject({ duplicates: 0, inSheet: 2, imported: 3 })
+    expect(createMany.mock.calls[0][0].data.map((row: { fingerprint: string }) => row.fingerprint)).toEqual([
+      'purchase|course||2025-06-01 10:00:00|99.00#1',
+      'purchase|course||2025-06-01 10:00:00|99.00#2',
+      'purchase|course||2025-06-01 10:00:00|99.00#3'
+    ])
+  })
+
+  it('stores nothing on a dry run', async () => {
+    const result = await importUpload({
+      fileName: 'export.csv',
+      rows: rows(['purchase', 'Course', '', '2025-06-01 10:00:00', 'false', '99']),
+      dryRun: true
+    })
+
+    expect(result.accepted).toBe(1)
+    expect(result.imported).toBe(0)
+    expect(result.preview).toHaveLength(1)
+    expect(createMany).not.toHaveBeenCalled()
+  })
+
+  it('reads fields from the columns chosen for the upload', async () => {
+    const result = await importUpload({
+      fileName: 'export.csv',
+      rows: [
+        ['Type', 'Product', 'When', 'Amount'],
+        ['purchase', 'Course', '2025-06-01 10:00:00', '99']
+      ],
+      columns: { event: 'Type', item_name: 'Product', date: 'When', price: 'Amount' },
+      dryRun: true
+    })
+
+    expect(result.missingColumns).toEqual([])
+    expect(result.columns).toMatchObject({ event: 'Type', item_name: 'Product', date: 'When', price: 'Amount' })
+    expect(result.accepted).toBe(1)
+  })
+
+  it('reports missing columns without importing', async () => {
+    const result = await importUpload({
+      fileName: 'export.csv',
+      rows: rows(['purchase', 'Course', '', '2025-06-01 10:00:00', 'false', '99']),
+      columns: { price: '' }
+    })
+
+    expect(result.missingColumns).toEqual(['price'])
+    expect(result.accepted).toBe(0)
+    expect(createMany).not.toHaveBeenCalled()
+  })
+})
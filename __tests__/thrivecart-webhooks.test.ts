@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { findMany, upsert } = vi.hoisted(() => ({
+  findMany: vi.fn(),
+  upsert: vi.fn()
+}))
+
+vi.mock('@/lib/db', () => ({ prisma: { thriveCartWebhookEvent: { findMany, upsert } } }))
+
+import {
+  authenticateThriveCartWebhook,
+  expandFormFields,
+  storeThriveCartWebhook,
+  ThriveCartWebhookSchema,
+  toWebhookTransactions
+} from '@/lib/thrivecart-webhooks'
+
+// An order.success notification as ThriveCart posts it, form encoded
+const ORDER_FORM = {
+  event: 'order.success',
+  mode: 'live',
+  thrivecart_secret: 'secret-word',
+  order_id: '1001',
+  invoice_id: '5001',
+  base_product_name: 'Course',
+  order_date: '2025-06-13 14:46:08',
+  'order[charges][0][name]': 'Course',
+  'order[charges][0][reference]': '1',
+  'order[charges][0][item_type]': 'product',
+  'order[charges][0][amount]': '9900',
+  'order[charges][0][payment_plan_name]': 'One payment',
+  'order[charges][1][name]': 'Templates',
+  'order[charges][1][reference]': '2',
+  'order[charges][1][item_type]': 'upsell',
+  'order[charges][1][amount]': '4900'
+}
+
+function parse(body: Record<string, unknown>) {
+  return ThriveCartWebhookSchema.parse(expandFormFields(body))
+}
+
+describe('authenticateThriveCartWebhook', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should compare the secret word', () => {
+    vi.stubEnv('THRIVECART_WEBHOOK_SECRET', 'secret-word')
+
+    expect(authenticateThriveCartWebhook({ thrivecart_secret: 'secret-word' })).toEqual({ authorized: true })
+    expect(authenticateThriveCartWebhook({ thrivecart_secret: 'guess' }).authorized).toBe(false)
+  })
+
+  it('should reject everything when no secret is configured', () => {
+    vi.stubEnv('THRIVECART_WEBHOOK_SECRET', '')
+
+    expect(authenticateThriveCartWebhook({ thrivecart_secret: '' }).error).toBe('Webhook authentication is not configured')
+  })
+})
+
+describe('toWebhookTransactions', () => {
+  it('should turn every charge of an order into a purchase or upsell', () => {
+    expect(toWebhookTransactions(parse(ORDER_FORM))).toEqual([
+      {
+        eventKey: 'order.success:1001:5001:1:',
+        orderId: '1001',
+        event: 'purchase',
+        item_name: 'Course',
+        item_plan_name: 'One payment',
+        date: '2025-06-13 14:46:08',
+        checkbox_confirmation: false,
+        price: 99
+      },
+      expect.objectContaining({ eventKey: 'order.success:1001:5001:2:', event: 'upsellaccept', item_name: 'Templates', price: 49 })
+    ])
+  })
+
+  it('should map refunds, rebills and cancellations', () => {
+    const refund = toWebhookTransactions(parse({
+      event: 'order.refund',
+      order_id: '1001',
+      base_product_name: 'Course',
+      'refund[amount]': '9900',
+      'refund[date]': '2025-06-20 09:00:00'
+    }))
+    const rebill = toWebhookTransactions(parse({
+      event: 'order.subscription_payment',
+      order_id: '1002',
+      invoice_id: '5002',
+      base_product_name: 'Membership',
+      'order[total]': '2900',
+      order_date: '2025-07-01 00:00:00'
+    }))
+    const cancellation = toWebhookTransactions(parse({
+      event: 'order.subscription_cancelled',
+      order_id: '1002',
+      base_product_name: 'Membership',
+      'subscription[id]': '77'
+    }))
+
+    expect(refund).toMatchObject([{ event: 'refund', item_name: 'Course', price: 99, date: '2025-06-20 09:00:00' }])
+    expect(rebill).toMatchObject([{ event: 'rebill', item_name: 'Membership', price: 29 }])
+    expect(cancellation).toMatchObject([{ event: 'cancel', price: 0, eventKey: 'order.subscription_cancelled:1002::77' }])
+  })
+
+  it('should date refunds without their own date by when they were received', () => {
+    const refund = toWebhookTransactions(parse({
+      event: 'order.refund',
+      order_id: '1001',
+      order_date: '2025-06-13 14:46:08',
+      order_timestamp: '1749825968',
+      'refund[amount]': '2000'
+    }), new Date(Date.UTC(2025, 5, 20, 9, 30)))
+
+    expect(refund).toMatchObject([{ event: 'refund', date: '2025-06-20 09:30:00' }])
+  })
+
+  it('should store ISO 8601 and timestamp dates like sheet dates in UTC', () => {
+    const [isoSale] = toWebhookTransactions(parse({ ...ORDER_FORM, order_date: '2025-06-13T14:46:08Z' }))
+    const [timestampSale] = toWebhookTransactions(parse({ ...ORDER_FORM, order_timestamp: '1749825968' }))
+
+    expect(isoSale.date).toBe('2025-06-13 14:46:08')
+    expect(timestampSale.date).toBe('2025-06-13 14:46:08')
+  })
+
+  it('should keep equal partial refunds of one order apart', () => {
+    const partial = (refundId: string) => toWebhookTransactions(parse({
+      event: 'order.refund',
+      order_id: '1001',
+      invoice_id: '5001',
+      'refund[id]': refundId,
+      'refund[invoice_id]': `inv-${refundId}`,
+      'refund[amount]': '2000',
+      'refund[date]': '2025-06-20 09:00:00'
+    }))
+
+    const [first] = partial('r1')
+    const [second] = partial('r2')
+
+    expect(first.eventKey).toBe('order.refund:1001:5001:r1:inv-r1:20:2025-06-20 09:00:00')
+    expect(second.eventKey).not.toBe(first.eventKey)
+    expect(partial('r1')[0].eventKey).toBe(first.eventKey)
+  })
+
+  it('should build the same keys for a retried notification', () => {
+    const first = toWebhookTransactions(parse(ORDER_FORM), new Date('2025-06-13T15:00:00Z'))
+    const retry = toWebhookTransactions(parse(ORDER_FORM), new Date('2025-06-13T16:00:00Z'))
+
+    expect(retry.map(transaction => transaction.eventKey)).toEqual(first.map(transaction => transaction.eventKey))
+  })
+})
+
+describe('storeThriveCartWebhook', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should upsert each charge and count only new ones', async () => {
+    findMany.mockResolvedValue([{ eventKey: 'order.success:1001:5001:1:' }])
+
+    const stored = await storeThriveCartWebhook(parse(ORDER_FORM), ORDER_FORM)
+
+    expect(stored).toBe(1)
+    expect(upsert).toHaveBeenCalledTimes(2)
+    expect(upsert.mock.calls[1][0]).toMatchObject({
+      where: { eventKey: 'order.success:1001:5001:2:' },
+      create: { webhookEvent: 'order.success', event: 'upsellaccept', orderId: '1001', price: 49 },
+      update: {}
+    })
+    expect(upsert.mock.calls[0][0].create.payload).not.toContain('secret-word')
+  })
+})
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { transactionFindMany, transactionCreateMany, webhookFindMany, lookup } = vi.hoisted(() => ({
+  transactionFindMany: vi.fn(),
+  transactionCreateMany: vi.fn(),
+  webhookFindMany: vi.fn(),
+  lookup: vi.fn()
+}))
+
+vi.mock('dns/promises', () => ({ default: { lookup }, lookup }))
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    thriveCartTransaction: { findMany: transactionFindMany, createMany: transactionCreateMany, deleteMany: vi.fn() },
+    thriveCartWebhookEvent: { findMany: webhookFindMany },
+    syncState: { upsert: vi.fn(), findUnique: vi.fn() },
+    $transaction: vi.fn()
+  }
+}))
+
+import { MemoryStateStore, setStateStore } from '@/lib/state-store'
+import { ThriveCartService } from '@/lib/thrivecart'
+import { importUpload } from '@/lib/thrivecart-upload'
+
+// A database whose cache rows can't be read
+class BrokenCacheStore extends MemoryStateStore {
+  async get<T>(key: string): Promise<T | undefined> {
+    if (key.startsWith('thrivecart:stats:')) {
+      throw new Error('database is locked')
+    }
+    return super.get<T>(key)
+  }
+}
+
+// Mock fetch globally
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+function webhookRow(event: string, itemName: string, date: string, price: number) {
+  return { event, itemName, itemPlanName: '', date, price }
+}
+
+describe('ThriveCartService', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    setStateStore(new MemoryStateStore())
+    vi.stubEnv('THRIVECART_DATA_SOURCE', 'webhook')
+    transactionFindMany.mockResolvedValue([])
+    webhookFindMany.mockResolvedValue([])
+    lookup.mockResolvedValue([{ address: '93.184.215.14', family: 4 }])
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should treat an unreadable cache as a miss', async () => {
+    setStateStore(new BrokenCacheStore())
+    webhookFindMany.mockImplementation(async ({ where }) =>
+      where.event ? [] : [webhookRow('purchase', 'Course', '2025-06-13 14:46:08', 99)]
+    )
+
+    const stats = await ThriveCartService.getInstance().fetchData(true, { from: '2025-06-01', to: '2025-06-30' })
+
+    expect(stats.totalRevenue).toBe(99)
+    expect(stats.totalPurchases).toBe(1)
+  })
+
+  it('should group ISO 8601 dates into their day', async () => {
+    webhookFindMany.mockImplementation(async ({ where }) =>
+      where.event ? [] : [
+        webhookRow('purchase', 'Course', '2025-06-13T14:46:08Z', 99),
+        webhookRow('refund', 'Course', '2025-06-13T18:00:00Z', -99)
+      ]
+    )
+
+    const stats = await ThriveCartService.getInstance().fetchData(true, { from: '2025-06-01', to: '2025-06-30' })
+
+    expect(stats.dailyStats).toEqual([
+      expect.objectContaining({ date: '2025-06-13', revenue: 99, refunds: 1, refundedAmount: 99, netRevenue: 0 })
+    ])
+  })
+
+  it('should sync sheet rows with ISO 8601 dates', async () => {
+    vi.stubEnv('THRIVECART_DATA_SOURCE', 'csv')
+    vi.stubEnv('THRIVECART_CSV_URLS', 'https://example.com/orders.csv')
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      text: async () => 'event,item_name,item_plan_name,date,checkbox_confirmation,price\npurchase,Course,Monthly,2025-06-13T14:46:08Z,true,99\n'
+    })
+    // The stored rows are read back for the stats
+    transactionFindMany.mockImplementation(async () =>
+      transactionCreateMany.mock.calls[0][0].data.map((row: object) => ({ ...row, source: 'sheet', fingerprint: null }))
+    )
+
+    const stats = await ThriveCartService.getInstance().fetchData(true)
+
+    expect(transactionCreateMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ date: '2025-06-13 14:46:08', day: new Date('2025-06-13T00:00:00Z') })
+    ])
+    expect(stats.totalPurchases).toBe(1)
+    expect(stats.totalRevenue).toBe(99)
+  })
+
+  it('should count a row the sheet and an upload both have only as often as either has it', async () => {
+    vi.stubEnv('THRIVECART_DATA_SOURCE', 'csv')
+    vi.stubEnv('THRIVECART_CSV_URLS', 'https://example.com/orders.csv')
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      text: async () => 'event,item_name,item_plan_name,date,checkbox_confirmation,price\npurchase,Course,,2025-06-13 14:46:08,false,99\n'
+    })
+    const row = { event: 'purchase', itemName: 'Course', itemPlanName: '', date: '2025-06-13 14:46:08', checkboxConfirmation: false, price: 99 }
+    transactionFindMany.mockResolvedValue([
+      { ...row, source: 'sheet', fingerprint: null },
+      // An export listing the order twice
+      { ...row, source: 'upload', fingerprint: 'purchase|course||2025-06-13 14:46:08|99.00#1' },
+      { ...row, source: 'upload', fingerprint: 'purchase|course||2025-06-13 14:46:08|99.00#2' }
+    ])
+
+    const stats = await ThriveCartService.getInstance().fetchData(true)
+
+    expect(stats.totalPurchases).toBe(2)
+    expect(stats.totalRevenue).toBe(198)
+  })
+
+  it('should count a sale the sheet or an upload shares with a webhook once', async () => {
+    vi.stubEnv('THRIVECART_DATA_SOURCE', 'both')
+    vi.stubEnv('THRIVECART_CSV_URLS', 'https://example.com/orders.csv')
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      text: async () => 'event,item_name,item_plan_name,date,checkbox_confirmation,price\npurchase,Course,,2025-06-13 14:46:08,false,99\n'
+    })
+    const row = { itemPlanName: '', checkboxConfirmation: false, fingerprint: null }
+    transactionFindMany.mockResolvedValue([
+      { ...row, event: 'purchase', itemName: 'Course', date: '2025-06-13 14:46:08', price: 99, source: 'sheet' },
+      { ...row, event: 'upsellaccept', itemName: 'Templates', date: '2025-06-13 14:46:08', price: 49, source: 'upload', fingerprint: 'upsellaccept|templates||2025-06-13 14:46:08|49.00#1' },
+      // Not reported by a webhook
+      { ...row, event: 'purchase', itemName: 'Course', date: '2025-06-12 10:00:00', price: 99, source: 'sheet' }
+    ])
+    webhookFindMany.mockResolvedValue([
+      webhookRow('purchase', 'Course', '2025-06-13 14:46:08', 99),
+      webhookRow('upsellaccept', 'Templates', '2025-06-13 14:46:08', 49)
+    ])
+
+    const stats = await ThriveCartService.getInstance().fetchData(true)
+
+    expect(stats.totalPurchases).toBe(2)
+    expect(stats.totalUpsells).toBe(1)
+    expect(stats.totalRevenue).toBe(247)
+  })
+
+  it('should keep counting every uploaded copy of a row after the sheet rows are reset', async () => {
+    vi.stubEnv('THRIVECART_DATA_SOURCE', 'csv')
+    vi.stubEnv('THRIVECART_CSV_URLS', 'https://example.com/orders.csv')
+    const header = 'event,item_name,item_plan_name,date,checkbox_confirmation,price\n'
+    const course = 'purchase,Course,,2025-06-13 14:46:08,false,99\n'
+    const row = { event: 'purchase', itemName: 'Course', itemPlanName: '', date: '2025-06-13 14:46:08', checkboxConfirmation: false, price: 99 }
+    let stored: object[] = [{ ...row, source: 'sheet', fingerprint: null }, { ...row, source: 'sheet', fingerprint: null }]
+    transactionFindMany.mockImplementation(async () => stored)
+    // Sheet syncs are not replayed into the stored rows
+    transactionCreateMany.mockImplementation(async ({ data }) => {
+      stored = stored.concat(data.filter((created: { source?: string }) => created.source === 'upload'))
+      return { count: data.length }
+    })
+    const sheet = (text: string) => ({ ok: true, status: 200, headers: new Headers(), text: async () => text })
+
+    const upload = await importUpload({
+      fileName: 'export.csv',
+      rows: [
+        ['event', 'item_name', 'item_plan_name', 'date', 'checkbox_confirmation', 'price'],
+        ...[1, 2, 3].map(() => ['purchase', 'Course', '', '2025-06-13 14:46:08', 'false', '99'])
+      ]
+    })
+    expect(upload.imported).toBe(3)
+
+    mockFetch.mockResolvedValueOnce(sheet(header + course + course))
+    const withSheet = await ThriveCartService.getInstance().fetchData(true)
+    expect(withSheet.totalPurchases).toBe(3)
+
+    // The sources changed: the sheet rows are gone and the new sheet is empty
+    stored = stored.filter(transaction => (transaction as { source: string }).source === 'upload')
+    mockFetch.mockResolvedValueOnce(sheet(header))
+    const afterReset = await ThriveCartService.getInstance().fetchData(true)
+    expect(afterReset.totalPurchases).toBe(3)
+  })
+})
@@ -11,9 +11,22 @@ interface KpiCardProps {
     isPositive: boolean
   }
   format?: 'number' | 'percentage' | 'currency'
+  // Highlights the card when the value crossed a threshold
+  alert?: 'warning' | 'critical'
   className?: string
 }
 
+const alertStyles = {
+  warning: {
+    card: 'border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20',
+    value: 'text-yellow-700 dark:text-yellow-400'
+  },
+  critical: {
+    card: 'border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/20',
+    value: 'text-red-700 dark:text-red-400'
+  }
+}
+
 export default function KpiCard({ 
   title, 
   value, 
@@ -21,6 +34,7 @@ export default function KpiCard({
   icon: Icon, 
   trend, 
   format = 'number',
+  alert,
   className = '' 
 }: KpiCardProps) {
   const formatValue = (val: number | string) => {
@@ -40,7 +54,8 @@ export default function KpiCard({
 
   return (
     <div className={`
-      bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6
+      rounded-lg shadow-sm border p-6
+      ${alert ? alertStyles[alert].card : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700'}
       hover:shadow-md transition-shadow duration-200
       ${className}
     `}>
@@ -54,7 +69,7 @@ export default function KpiCard({
           </div>
           
           <div className="mt-2">
-            <p className="text-3xl font-bold text-gray-900 dark:text-white">
+            <p className={`text-3xl font-bold ${alert ? alertStyles[alert].value : 'text-gray-900 dark:text-white'}`}>
               {formatValue(value)}
             </p>
             
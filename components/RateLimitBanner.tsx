@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react'
+import { Clock } from 'lucide-react'
+import type { RateLimiterState } from '@/lib/rate-limiter'
+import type { RateLimitsResponse } from '@/pages/api/rate-limits'
+
+interface RateLimitBannerProps {
+  // Polls only while the page is waiting on a request
+  active: boolean
+  className?: string
+}
+
+const POLL_INTERVAL_MS = 2000
+
+const LIMITER_LABELS: Record<string, string> = {
+  postmark: 'Postmark',
+  facebook: 'Facebook',
+  thrivecart: 'ThriveCart'
+}
+
+function describe(limiter: RateLimiterState): string {
+  const label = LIMITER_LABELS[limiter.name] || limiter.name
+  if (limiter.waitingUntil) {
+    const seconds = Math.max(1, Math.ceil((new Date(limiter.waitingUntil).getTime() - Date.now()) / 1000))
+    return `Waiting on the ${label} rate limit, resuming in ${seconds}s`
+  }
+  return `${limiter.queued} ${label} request${limiter.queued === 1 ? '' : 's'} queued behind the rate limit`
+}
+
+export default function RateLimitBanner({ active, className = '' }: RateLimitBannerProps) {
+  const [limiters, setLimiters] = useState<RateLimiterState[]>([])
+
+  useEffect(() => {
+    if (!active) {
+      setLimiters([])
+      return
+    }
+
+    let cancelled = false
+    const poll = async () => {
+      try {
+        const response = await fetch('/api/rate-limits')
+        const data: RateLimitsResponse = await response.json()
+        if (!cancelled && data.success && data.data) {
+          setLimiters(data.data.filter(limiter => limiter.waitingUntil || limiter.queued > 0))
+        }
+      } catch {
+        // The banner is informational; the page reports its own request errors
+      }
+    }
+
+    poll()
+    const interval = setInterval(poll, POLL_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [active])
+
+  if (limiters.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={`bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-300 px-4 py-3 rounded-lg ${className}`}>
+      {limiters.map(limiter => (
+        <p key={limiter.name} className="flex items-center gap-2 text-sm">
+          <Clock className="h-4 w-4" />
+          {describe(limiter)}
+        </p>
+      ))}
+    </div>
+  )
+}
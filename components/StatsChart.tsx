@@ -9,18 +9,13 @@ import {
   Legend, 
   ResponsiveContainer,
   BarChart,
-  Bar
+  Bar,
+  ReferenceLine
 } from 'recharts'
 
+// Any daily series works; metrics are looked up by key on each point
 interface ChartDataPoint {
   date: string
-  sent: number
-  delivered: number
-  opened: number
-  clicked: number
-  bounced: number
-  spam: number
-  unsubscribed: number
 }
 
 interface StatsChartProps {
@@ -28,6 +23,11 @@ interface StatsChartProps {
   type?: 'line' | 'bar'
   height?: number
   showMetrics?: string[]
+  // Labels and colors for metrics beyond the default email ones
+  labels?: Record<string, string>
+  colors?: Record<string, string>
+  // Horizontal lines, e.g. warning and critical levels of a rate
+  thresholds?: Array<{ value: number; label: string; color: string }>
   className?: string
 }
 
@@ -57,8 +57,14 @@ export default function StatsChart({
   type = 'line', 
   height = 400,
   showMetrics = defaultMetrics,
+  labels = {},
+  colors = {},
+  thresholds = [],
   className = ''
 }: StatsChartProps) {
+  const getLabel = (metric: string) => labels[metric] || metricLabels[metric as keyof typeof metricLabels] || metric
+  const getColor = (metric: string) => colors[metric] || metricColors[metric as keyof typeof metricColors]
+
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr)
     return date.toLocaleDateString('en-US', { 
@@ -68,7 +74,7 @@ export default function StatsChart({
   }
 
   const formatTooltipValue = (value: number, name: string) => {
-    return [value.toLocaleString(), metricLabels[name as keyof typeof metricLabels] || name]
+    return [value.toLocaleString(), getLabel(name)]
   }
 
   const CustomTooltip = ({ active, payload, label }: any) => {
@@ -119,10 +125,20 @@ export default function StatsChart({
             wrapperStyle={{ paddingTop: '20px' }}
             iconType="circle"
           />
+
+          {thresholds.map((threshold) => (
+            <ReferenceLine
+              key={threshold.label}
+              y={threshold.value}
+              stroke={threshold.color}
+              strokeDasharray="4 4"
+              label={{ value: threshold.label, position: 'insideTopRight', fill: threshold.color, fontSize: 12 }}
+            />
+          ))}
           
           {showMetrics.map((metric) => {
-            const color = metricColors[metric as keyof typeof metricColors]
-            const label = metricLabels[metric as keyof typeof metricLabels]
+            const color = getColor(metric)
+            const label = getLabel(metric)
             
             if (type === 'bar') {
               return (
@@ -13,26 +13,95 @@ interface TagStats {
   openRate: number
   clickRate: number
   bounceRate: number
+  unsubscribeRate: number
+  spamRate: number
+  spamLevel: string
 }
 
-interface StatsTableProps {
+export interface StatsTableColumn<T> {
+  field: keyof T & string
+  label: string
+  format?: 'number' | 'percentage' | 'text'
+  // Field holding the row's 'warning' or 'critical' level for this value
+  alertField?: keyof T & string
+}
+
+// Rows other than the per-tag email stats name their own columns and fields
+interface StatsTableProps<T> {
+  data: T[]
+  columns: StatsTableColumn<T>[]
+  // Field that identifies a row and is matched by the search box
+  keyField: keyof T & string
+  defaultSort: keyof T & string
+  // Field holding a URL that the row's action opens in a new tab
+  linkField?: keyof T & string
+  searchPlaceholder?: string
+  className?: string
+}
+
+// The per-tag email stats only need their rows
+interface TagStatsTableProps {
   data: TagStats[]
   className?: string
 }
 
-type SortField = keyof TagStats
 type SortDirection = 'asc' | 'desc'
 
-export default function StatsTable({ data, className = '' }: StatsTableProps) {
+const tagColumns: StatsTableColumn<TagStats>[] = [
+  { field: 'tag', label: 'Tag', format: 'text' },
+  { field: 'sent', label: 'Sent' },
+  { field: 'delivered', label: 'Delivered' },
+  { field: 'openRate', label: 'Open Rate', format: 'percentage' },
+  { field: 'clickRate', label: 'Click Rate', format: 'percentage' },
+  { field: 'bounceRate', label: 'Bounce Rate', format: 'percentage' },
+  { field: 'unsubscribeRate', label: 'Unsubscribe Rate', format: 'percentage' },
+  { field: 'spamRate', label: 'Spam Rate', format: 'percentage', alertField: 'spamLevel' }
+]
+
+const alertColors: Record<string, string> = {
+  warning: 'text-yellow-700 dark:text-yellow-400 font-medium',
+  critical: 'text-red-700 dark:text-red-400 font-medium'
+}
+
+// Shows the per-tag email stats by default; pass columns and fields to show other rows
+export default function StatsTable(props: TagStatsTableProps): JSX.Element
+export default function StatsTable<T extends object>(props: StatsTableProps<T>): JSX.Element
+export default function StatsTable<T extends object>(props: TagStatsTableProps | StatsTableProps<T>) {
+  if ('columns' in props) {
+    return <Table {...props} />
+  }
+  return (
+    <Table
+      data={props.data}
+      columns={tagColumns}
+      keyField="tag"
+      defaultSort="sent"
+      searchPlaceholder="Search tags..."
+      className={props.className}
+    />
+  )
+}
+
+function Table<T extends object>({
+  data,
+  columns,
+  keyField,
+  defaultSort,
+  linkField,
+  searchPlaceholder = 'Search...',
+  className = ''
+}: StatsTableProps<T>) {
+  type SortField = keyof T & string
+
   const [searchTerm, setSearchTerm] = useState('')
-  const [sortField, setSortField] = useState<SortField>('sent')
+  const [sortField, setSortField] = useState<SortField>(defaultSort)
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
 
   const filteredData = useMemo(() => {
     return data.filter(row => 
-      row.tag.toLowerCase().includes(searchTerm.toLowerCase())
+      String(row[keyField] ?? '').toLowerCase().includes(searchTerm.toLowerCase())
     )
-  }, [data, searchTerm])
+  }, [data, searchTerm, keyField])
 
   const sortedData = useMemo(() => {
     return [...filteredData].sort((a, b) => {
@@ -64,9 +133,23 @@ export default function StatsTable({ data, className = '' }: StatsTableProps) {
     }
   }
 
+  const SortIcon = ({ field }: { field: SortField }) => {
+    if (sortField !== field) {
+      return <ChevronUp className="h-4 w-4 text-gray-400" />
+    }
+    return sortDirection === 'asc'
+      ? <ChevronUp className="h-4 w-4 text-primary-600" />
+      : <ChevronDown className="h-4 w-4 text-primary-600" />
+  }
+
   const formatNumber = (num: number) => num.toLocaleString()
   const formatPercentage = (num: number) => `${num}%`
 
+  const formatCell = (value: unknown, format: StatsTableColumn<T>['format'] = 'number') => {
+    if (typeof value !== 'number') return value == null ? '—' : String(value)
+    return format === 'percentage' ? formatPercentage(value) : formatNumber(value)
+  }
+
   return (
     <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-sm border ${className}`}>
       <div className="p-4 border-b">
@@ -74,7 +157,7 @@ export default function StatsTable({ data, className = '' }: StatsTableProps) {
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           <input
             type="text"
-            placeholder="Search tags..."
+            placeholder={searchPlaceholder}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="w-full pl-10 pr-4 py-2 border rounded-md focus:ring-2 focus:ring-primary-500"
@@ -85,26 +168,49 @@ export default function StatsTable({ data, className = '' }: StatsTableProps) {
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Tag</th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Sent</th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Delivered</th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Open Rate</th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Click Rate</th>
+              {columns.map((column) => (
+                <th
+                  key={column.field}
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase cursor-pointer hover:bg-gray-100"
+                  onClick={() => handleSort(column.field)}
+                >
+                  <div className="flex items-center gap-1">
+                    {column.label}
+                    <SortIcon field={column.field} />
+                  </div>
+                </th>
+              ))}
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
-            {sortedData.map((row) => (
-              <tr key={row.tag} className="hover:bg-gray-50">
-                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">{row.tag}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm">{formatNumber(row.sent)}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm">{formatNumber(row.delivered)}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm">{formatPercentage(row.openRate)}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm">{formatPercentage(row.clickRate)}</td>
+            {sortedData.map((row, index) => (
+              <tr key={`${String(row[keyField])}-${index}`} className="hover:bg-gray-50">
+                {columns.map((column, columnIndex) => (
+                  <td
+                    key={column.field}
+                    className={`px-6 py-4 text-sm ${columnIndex === 0 ? 'font-medium max-w-md truncate' : 'whitespace-nowrap'} ${
+                      column.alertField ? alertColors[String(row[column.alertField])] ?? '' : ''
+                    }`}
+                  >
+                    {formatCell(row[column.field], column.format)}
+                  </td>
+                ))}
                 <td className="px-6 py-4 whitespace-nowrap text-sm">
-                  <button className="text-primary-600 hover:text-primary-500">
-                    <ExternalLink className="h-4 w-4" />
-                  </button>
+                  {linkField ? (
+                    <a
+                      href={String(row[linkField])}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary-600 hover:text-primary-500"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  ) : (
+                    <button className="text-primary-600 hover:text-primary-500">
+                      <ExternalLink className="h-4 w-4" />
+                    </button>
+                  )}
                 </td>
               </tr>
             ))}
@@ -0,0 +1,105 @@
+'use client';
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { BounceDailyStats } from '@/pages/api/postmark/bounces';
+
+interface BounceChartProps {
+  data: BounceDailyStats[];
+  height?: number;
+}
+
+const bounceTypes = [
+  { key: 'hardBounce', name: 'Hard Bounce', color: '#EF4444' },
+  { key: 'softBounce', name: 'Soft Bounce', color: '#F59E0B' },
+  { key: 'transient', name: 'Transient', color: '#3B82F6' },
+  { key: 'smtpApiError', name: 'SMTP API Error', color: '#9CA3AF' }
+];
+
+export function BounceChart({ data, height = 300 }: BounceChartProps) {
+  const formatDate = (dateStr: string) => {
+    try {
+      const date = new Date(dateStr);
+      return date.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric'
+      });
+    } catch {
+      return dateStr;
+    }
+  };
+
+  const chartData = data.map(item => ({
+    ...item,
+    formattedDate: formatDate(item.date)
+  }));
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-white dark:bg-gray-800 p-3 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          <p className="font-medium text-gray-900 dark:text-white mb-2">
+            {label}
+          </p>
+          {payload.map((entry: any, index: number) => (
+            <div key={index} className="flex items-center gap-2">
+              <div
+                className="w-3 h-3 rounded-full"
+                style={{ backgroundColor: entry.color }}
+              />
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                {entry.name}:
+              </span>
+              <span className="text-sm font-medium text-gray-900 dark:text-white">
+                {entry.value.toLocaleString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+        Bounces by Type
+      </h3>
+      <ResponsiveContainer width="100%" height={height}>
+        <BarChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+          <XAxis
+            dataKey="formattedDate"
+            className="text-xs"
+            tick={{ fontSize: 12 }}
+          />
+          <YAxis
+            className="text-xs"
+            tick={{ fontSize: 12 }}
+            allowDecimals={false}
+          />
+          <Tooltip content={<CustomTooltip />} />
+          <Legend />
+          {bounceTypes.map(type => (
+            <Bar
+              key={type.key}
+              dataKey={type.key}
+              name={type.name}
+              stackId="bounces"
+              fill={type.color}
+            />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { BouncedAddress } from '@/pages/api/postmark/bounces';
+
+interface BounceTableProps {
+  bounces: BouncedAddress[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  onPageChange: (page: number) => void;
+}
+
+export function BounceTable({ bounces, totalCount, page, pageSize, onPageChange }: BounceTableProps) {
+  // Postmark only returns the first 10,000 results of a bounce search
+  const totalPages = Math.max(1, Math.ceil(Math.min(totalCount, 10000) / pageSize));
+  const startIndex = (page - 1) * pageSize;
+
+  const formatDate = (dateStr: string) => {
+    try {
+      const date = new Date(dateStr);
+      return date.toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      });
+    } catch {
+      return dateStr;
+    }
+  };
+
+  const getTypeBadge = (bounce: BouncedAddress) => {
+    const styles = {
+      HardBounce: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+      SoftBounce: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
+      Transient: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400'
+    };
+    const fallback = 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
+
+    return (
+      <span className={`px-2 py-1 text-xs font-medium rounded-full ${styles[bounce.type as keyof typeof styles] || fallback}`}>
+        {bounce.typeName}
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Bounced Addresses
+        </h3>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Bounced At
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Address
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Type
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Reason
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Tag
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Status
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {bounces.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                  No bounces in this range
+                </td>
+              </tr>
+            )}
+            {bounces.map((bounce) => (
+              <tr key={bounce.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                  {formatDate(bounce.bouncedAt)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                  {bounce.email}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {getTypeBadge(bounce)}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                  <div className="max-w-md truncate" title={bounce.details || bounce.description || ''}>
+                    {bounce.description || bounce.details || '—'}
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                  {bounce.tag || '—'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  {bounce.inactive ? (
+                    <span className="text-red-600 dark:text-red-400">
+                      Inactive{bounce.canActivate ? ' (can reactivate)' : ''}
+                    </span>
+                  ) : (
+                    <span className="text-green-600 dark:text-green-400">Active</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="px-6 py-3 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="text-sm text-gray-700 dark:text-gray-300">
+            Showing {startIndex + 1} to {startIndex + bounces.length} of {totalCount.toLocaleString()} bounces
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onPageChange(Math.max(1, page - 1))}
+              disabled={page === 1}
+              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-gray-700 dark:text-gray-300"
+            >
+              Previous
+            </button>
+            <span className="px-3 py-1 text-sm text-gray-700 dark:text-gray-300">
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => onPageChange(Math.min(totalPages, page + 1))}
+              disabled={page === totalPages}
+              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-gray-700 dark:text-gray-300"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ShieldCheck, ShieldAlert, ShieldQuestion, ChevronDown, ChevronUp, Check, X } from 'lucide-react';
+import type { DeliverabilityHealth, VerificationStatus } from '@/lib/postmark-health';
+import { HealthResponse } from '@/pages/api/postmark/health';
+
+const CHECKS: Array<{ key: keyof VerificationStatus; label: string }> = [
+  { key: 'dkim', label: 'DKIM' },
+  { key: 'spf', label: 'SPF' },
+  { key: 'returnPath', label: 'Return-Path' },
+];
+
+function StatusIcon({ ok }: { ok: boolean }) {
+  return ok
+    ? <Check className="h-4 w-4 text-green-600 dark:text-green-400" />
+    : <X className="h-4 w-4 text-red-600 dark:text-red-400" />;
+}
+
+export function DeliverabilityPanel() {
+  const [health, setHealth] = useState<DeliverabilityHealth | null>(null);
+  const [configured, setConfigured] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHealth = async () => {
+      try {
+        const response = await fetch('/api/postmark/health');
+        const data: HealthResponse = await response.json();
+
+        if (cancelled) {
+          return;
+        }
+        if (data.configured === false) {
+          setConfigured(false);
+          return;
+        }
+        if (!response.ok || !data.success || !data.data) {
+          throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+
+        setHealth(data.data);
+        // Open straight away when something needs fixing
+        setExpanded(!data.data.healthy);
+      } catch (err) {
+        console.error('Error fetching deliverability health:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to check deliverability');
+        }
+      }
+    };
+
+    fetchHealth();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!configured) {
+    return (
+      <div className="mb-6 flex items-center gap-2 bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 px-4 py-3 rounded-lg text-sm">
+        <ShieldQuestion className="h-4 w-4" />
+        Set POSTMARK_ACCOUNT_TOKEN to check domain and sender signature verification
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="mb-6 flex items-center gap-2 bg-yellow-100 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-700 text-yellow-800 dark:text-yellow-400 px-4 py-3 rounded-lg text-sm">
+        <ShieldQuestion className="h-4 w-4" />
+        Could not check deliverability: {error}
+      </div>
+    );
+  }
+
+  if (!health) {
+    return null;
+  }
+
+  const unverified = health.domains.filter((domain) => !domain.healthy).length
+    + health.senders.filter((sender) => !sender.healthy).length;
+
+  return (
+    <div className={`mb-6 rounded-lg border ${
+      health.healthy
+        ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+        : 'bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-700'
+    }`}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className={`w-full flex items-center justify-between px-4 py-3 text-sm font-medium ${
+          health.healthy ? 'text-green-800 dark:text-green-300' : 'text-red-800 dark:text-red-400'
+        }`}
+      >
+        <span className="flex items-center gap-2">
+          {health.healthy ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+          {health.healthy
+            ? `All ${health.domains.length} domains and ${health.senders.length} sender signatures verified`
+            : `${unverified} domain${unverified === 1 ? '' : 's'} or sender signature${unverified === 1 ? '' : 's'} not verified`}
+        </span>
+        {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 overflow-x-auto">
+          <table className="w-full text-sm bg-white dark:bg-gray-800 rounded">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Domain / Sender
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Confirmed
+                </th>
+                {CHECKS.map((check) => (
+                  <th key={check.key} className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    {check.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {health.domains.map((domain) => (
+                <tr key={`domain-${domain.name}`}>
+                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{domain.name}</td>
+                  <td className="px-4 py-2 text-gray-500 dark:text-gray-400">—</td>
+                  {CHECKS.map((check) => (
+                    <td key={check.key} className="px-4 py-2"><StatusIcon ok={domain[check.key]} /></td>
+                  ))}
+                </tr>
+              ))}
+              {health.senders.map((sender) => (
+                <tr key={`sender-${sender.email}`}>
+                  <td className="px-4 py-2 text-gray-900 dark:text-white">
+                    {sender.email}
+                    {sender.name && <span className="text-gray-500 dark:text-gray-400"> · {sender.name}</span>}
+                  </td>
+                  <td className="px-4 py-2"><StatusIcon ok={sender.confirmed} /></td>
+                  {CHECKS.map((check) => (
+                    <td key={check.key} className="px-4 py-2"><StatusIcon ok={sender[check.key]} /></td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Checked {new Date(health.checkedAt).toLocaleString()}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
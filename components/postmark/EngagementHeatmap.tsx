@@ -0,0 +1,69 @@
+'use client';
+
+import type { HeatmapCell } from '@/lib/postmark-heatmap';
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+interface EngagementHeatmapProps {
+  title: string;
+  cells: HeatmapCell[];
+  metric: 'opens' | 'clicks';
+  // RGB of the busiest cell; quieter cells fade towards transparent
+  color?: string;
+}
+
+const pad = (hour: number) => (hour < 10 ? `0${hour}` : `${hour}`);
+
+export const formatHour = (hour: number) => `${pad(hour)}:00`;
+
+export function EngagementHeatmap({ title, cells, metric, color = '37, 99, 235' }: EngagementHeatmapProps) {
+  const max = Math.max(0, ...cells.map((cell) => cell[metric]));
+  const hours = Array.from({ length: 24 }, (_, hour) => hour);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">{title}</h3>
+      <div className="overflow-x-auto">
+        <table className="border-separate" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr>
+              <th />
+              {hours.map((hour) => (
+                <th key={hour} className="text-[10px] font-normal text-gray-500 dark:text-gray-400 w-7">
+                  {hour % 3 === 0 ? pad(hour) : ''}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {WEEKDAY_LABELS.map((label, weekday) => (
+              <tr key={label}>
+                <th className="pr-2 text-xs font-medium text-gray-500 dark:text-gray-400 text-right">{label}</th>
+                {hours.map((hour) => {
+                  const count = cells[weekday * 24 + hour]?.[metric] ?? 0;
+                  const intensity = max > 0 ? count / max : 0;
+                  return (
+                    <td
+                      key={hour}
+                      title={`${label} ${formatHour(hour)}: ${count.toLocaleString()} ${metric}`}
+                      className="w-7 h-7 rounded-sm bg-gray-100 dark:bg-gray-700"
+                      style={count > 0 ? { backgroundColor: `rgba(${color}, ${0.15 + intensity * 0.85})` } : undefined}
+                    />
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center gap-2 mt-4 text-xs text-gray-500 dark:text-gray-400">
+        <span>0</span>
+        <div
+          className="h-2 w-32 rounded"
+          style={{ background: `linear-gradient(to right, rgba(${color}, 0.15), rgba(${color}, 1))` }}
+        />
+        <span>{max.toLocaleString()}</span>
+      </div>
+    </div>
+  );
+}
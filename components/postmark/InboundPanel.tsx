@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { Inbox, CheckCircle, XCircle, Ban, RefreshCw } from 'lucide-react';
+import KpiCard from '@/components/KpiCard';
+import { InboundResponse } from '@/pages/api/postmark/inbound';
+
+interface InboundPanelProps {
+  // Query string with days, or from and to, and an optional server
+  query: string;
+  // Changes whenever the page is refreshed, to reload the report
+  refreshKey?: number;
+}
+
+const statuses = [
+  { key: 'processed', name: 'Processed', color: '#10B981' },
+  { key: 'failed', name: 'Failed', color: '#EF4444' },
+  { key: 'blocked', name: 'Blocked', color: '#6B7280' },
+  { key: 'queued', name: 'Queued', color: '#3B82F6' }
+];
+
+const formatDate = (dateStr: string) => {
+  try {
+    return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  } catch {
+    return dateStr;
+  }
+};
+
+export function InboundPanel({ query, refreshKey }: InboundPanelProps) {
+  const [report, setReport] = useState<InboundResponse['data'] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/postmark/inbound?${query}`);
+        const data: InboundResponse = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+        if (!cancelled) {
+          setReport(data.data ?? null);
+        }
+      } catch (err) {
+        console.error('Error fetching inbound report:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to fetch inbound messages');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchReport();
+    return () => {
+      cancelled = true;
+    };
+  }, [query, refreshKey]);
+
+  if (loading && !report) {
+    return (
+      <div className="flex items-center justify-center py-12 text-gray-600 dark:text-gray-400">
+        <RefreshCw className="h-5 w-5 animate-spin mr-2" />
+        Loading inbound messages...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="mb-6 bg-yellow-100 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-700 text-yellow-800 dark:text-yellow-400 px-4 py-3 rounded-lg">
+        <p className="font-medium">Could not load inbound messages</p>
+        <p className="text-sm mt-1">{error}</p>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return null;
+  }
+
+  const { summary } = report;
+
+  return (
+    <div className={loading ? 'opacity-60' : ''}>
+      <div className="text-sm text-gray-500 dark:text-gray-400 mb-6">{report.timeRange}</div>
+
+      {/* KPI Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <KpiCard title="Received" value={summary.received} icon={Inbox} format="number" />
+        <KpiCard title="Processed" value={summary.processed} icon={CheckCircle} format="number" />
+        <KpiCard
+          title="Failed"
+          value={summary.failed}
+          subtitle={`${summary.failureRate}% of received · ${summary.retrying} retrying`}
+          icon={XCircle}
+          format="number"
+        />
+        <KpiCard title="Blocked" value={summary.blocked} icon={Ban} format="number" />
+      </div>
+
+      {/* Daily Chart */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-8">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          Inbound Messages by Status
+        </h3>
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={report.daily.map((day) => ({ ...day, formattedDate: formatDate(day.date) }))}>
+            <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+            <XAxis dataKey="formattedDate" className="text-xs" tick={{ fontSize: 12 }} />
+            <YAxis className="text-xs" tick={{ fontSize: 12 }} allowDecimals={false} />
+            <Tooltip />
+            <Legend />
+            {statuses.map((status) => (
+              <Bar key={status.key} dataKey={status.key} name={status.name} stackId="inbound" fill={status.color} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+        {/* Top Sender Domains */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white px-6 pt-6 pb-4">
+            Top Sender Domains
+          </h3>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Domain</th>
+                <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Messages</th>
+                <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Failed</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {report.topSenderDomains.map((domain) => (
+                <tr key={domain.domain}>
+                  <td className="px-6 py-2 text-gray-900 dark:text-white">{domain.domain}</td>
+                  <td className="px-6 py-2 text-right text-gray-900 dark:text-white">{domain.messages.toLocaleString()}</td>
+                  <td className="px-6 py-2 text-right text-gray-500 dark:text-gray-400">{domain.failed.toLocaleString()}</td>
+                </tr>
+              ))}
+              {report.topSenderDomains.length === 0 && (
+                <tr>
+                  <td colSpan={3} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
+                    No inbound messages in this range
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Failed Messages */}
+        <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white px-6 pt-6 pb-4">
+            Failed Messages
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">From</th>
+                  <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Subject</th>
+                  <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Retry</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {report.failed.map((message) => (
+                  <tr key={message.messageId}>
+                    <td className="px-6 py-2 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                      {new Date(message.date).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-2 text-gray-900 dark:text-white">
+                      {message.fromName ? `${message.fromName} <${message.from}>` : message.from}
+                    </td>
+                    <td className="px-6 py-2 text-gray-900 dark:text-white">{message.subject || '(no subject)'}</td>
+                    <td className="px-6 py-2 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                        message.retrying
+                          ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400'
+                          : 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400'
+                      }`}>
+                        {message.retrying ? 'Retry scheduled' : 'Gave up'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+                {report.failed.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
+                      No failed inbound messages
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
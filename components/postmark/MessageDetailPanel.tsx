@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  X,
+  Send,
+  CheckCircle,
+  Eye,
+  MousePointer,
+  AlertTriangle,
+  Clock,
+  UserMinus,
+  Circle,
+  RefreshCw,
+  LucideIcon
+} from 'lucide-react';
+import { MessageDetails, MessageDetailsResponse } from '@/pages/api/postmark/messages/[id]';
+import { formatMessageDate } from '@/components/postmark/MessageTable';
+
+interface MessageDetailPanelProps {
+  messageId: string;
+  onClose: () => void;
+}
+
+const EVENT_STYLES: Record<string, { label: string; icon: LucideIcon; color: string }> = {
+  Delivered: { label: 'Delivered', icon: CheckCircle, color: 'text-green-600 dark:text-green-400' },
+  Opened: { label: 'Opened', icon: Eye, color: 'text-blue-600 dark:text-blue-400' },
+  LinkClicked: { label: 'Link clicked', icon: MousePointer, color: 'text-purple-600 dark:text-purple-400' },
+  Bounced: { label: 'Bounced', icon: AlertTriangle, color: 'text-red-600 dark:text-red-400' },
+  Transient: { label: 'Delayed', icon: Clock, color: 'text-yellow-600 dark:text-yellow-400' },
+  SubscriptionChanged: { label: 'Subscription changed', icon: UserMinus, color: 'text-gray-600 dark:text-gray-400' }
+};
+
+export function MessageDetailPanel({ messageId, onClose }: MessageDetailPanelProps) {
+  const [message, setMessage] = useState<MessageDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [bodyView, setBodyView] = useState<'html' | 'text'>('html');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchMessage = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/postmark/messages/${encodeURIComponent(messageId)}`);
+        const data: MessageDetailsResponse = await response.json();
+
+        if (!response.ok || !data.success || !data.data) {
+          throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+
+        if (!cancelled) {
+          setMessage(data.data);
+          setBodyView(data.data.htmlBody ? 'html' : 'text');
+        }
+      } catch (err) {
+        console.error('Error fetching message details:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to fetch message');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchMessage();
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+
+      <aside className="relative w-full max-w-2xl h-full overflow-y-auto bg-white dark:bg-gray-800 shadow-xl border-l border-gray-200 dark:border-gray-700">
+        <div className="sticky top-0 flex items-center justify-between px-6 py-4 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">
+            {message?.subject || 'Message details'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {loading && (
+            <div className="flex items-center justify-center py-12 text-gray-600 dark:text-gray-400">
+              <RefreshCw className="h-5 w-5 animate-spin mr-2" />
+              Loading message...
+            </div>
+          )}
+
+          {error && !loading && (
+            <div className="bg-red-100 dark:bg-red-900/20 border border-red-300 dark:border-red-700 text-red-800 dark:text-red-400 px-4 py-3 rounded-lg">
+              <p className="font-medium">Error loading message</p>
+              <p className="text-sm mt-1">{error}</p>
+            </div>
+          )}
+
+          {message && !loading && !error && (
+            <>
+              {/* Envelope */}
+              <dl className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm mb-8">
+                <dt className="text-gray-500 dark:text-gray-400">To</dt>
+                <dd className="col-span-2 text-gray-900 dark:text-white break-all">{message.recipients.join(', ') || '—'}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">From</dt>
+                <dd className="col-span-2 text-gray-900 dark:text-white break-all">{message.from || '—'}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">Tag</dt>
+                <dd className="col-span-2 text-gray-900 dark:text-white">{message.tag || '—'}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">Stream</dt>
+                <dd className="col-span-2 text-gray-900 dark:text-white">{message.stream || '—'}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">Message ID</dt>
+                <dd className="col-span-2 font-mono text-xs text-gray-900 dark:text-white break-all">{message.id}</dd>
+              </dl>
+
+              {/* Events Timeline */}
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-4">Timeline</h4>
+              <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-3 mb-8">
+                <li className="mb-6 ml-6">
+                  <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-white dark:bg-gray-800">
+                    <Send className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                  </span>
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">Accepted by Postmark</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{formatMessageDate(message.receivedAt)}</p>
+                </li>
+                {message.events.map((event, index) => {
+                  const style = EVENT_STYLES[event.type] || { label: event.type, icon: Circle, color: 'text-gray-600 dark:text-gray-400' };
+                  const Icon = style.icon;
+                  return (
+                    <li key={`${event.type}-${event.occurredAt}-${index}`} className="mb-6 ml-6">
+                      <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-white dark:bg-gray-800">
+                        <Icon className={`h-4 w-4 ${style.color}`} />
+                      </span>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        {style.label}
+                        <span className="font-normal text-gray-500 dark:text-gray-400"> · {event.recipient}</span>
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{formatMessageDate(event.occurredAt)}</p>
+                      {Object.keys(event.details).length > 0 && (
+                        <dl className="mt-2 text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                          {Object.entries(event.details).map(([key, value]) => (
+                            <div key={key} className="flex gap-2">
+                              <dt className="font-medium">{key}:</dt>
+                              <dd className="break-all">{value}</dd>
+                            </div>
+                          ))}
+                        </dl>
+                      )}
+                    </li>
+                  );
+                })}
+                {message.events.length === 0 && (
+                  <li className="ml-6 text-sm text-gray-500 dark:text-gray-400">
+                    No delivery events recorded yet
+                  </li>
+                )}
+              </ol>
+
+              {/* Body */}
+              <div className="flex items-center justify-between mb-4">
+                <h4 className="font-semibold text-gray-900 dark:text-white">Content</h4>
+                <div className="flex gap-2">
+                  {(['html', 'text'] as const).map((view) => (
+                    <button
+                      key={view}
+                      onClick={() => setBodyView(view)}
+                      disabled={view === 'html' ? !message.htmlBody : !message.textBody}
+                      className={`px-3 py-1 text-sm rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                        bodyView === view
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      {view === 'html' ? 'HTML' : 'Text'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {bodyView === 'html' && message.htmlBody ? (
+                // Sandboxed so the email's scripts and links can't touch the dashboard
+                <iframe
+                  title="Message HTML body"
+                  sandbox=""
+                  srcDoc={message.htmlBody}
+                  className="w-full h-96 bg-white border border-gray-200 dark:border-gray-700 rounded"
+                />
+              ) : (
+                <pre className="whitespace-pre-wrap text-sm text-gray-800 dark:text-gray-200 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded p-4">
+                  {message.textBody || 'No text body'}
+                </pre>
+              )}
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { MessageSummary } from '@/pages/api/postmark/messages';
+
+interface MessageTableProps {
+  messages: MessageSummary[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  selectedId: string | null;
+  onPageChange: (page: number) => void;
+  onSelect: (id: string) => void;
+}
+
+export function formatMessageDate(dateStr: string) {
+  try {
+    const date = new Date(dateStr);
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  } catch {
+    return dateStr;
+  }
+}
+
+export function MessageTable({ messages, totalCount, page, pageSize, selectedId, onPageChange, onSelect }: MessageTableProps) {
+  // Postmark only returns the first 10,000 results of a message search
+  const totalPages = Math.max(1, Math.ceil(Math.min(totalCount, 10000) / pageSize));
+  const startIndex = (page - 1) * pageSize;
+
+  const getStatusBadge = (status: string | null) => {
+    const styles = {
+      Sent: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+      Processed: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
+      Queued: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400'
+    };
+    const fallback = 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
+
+    return (
+      <span className={`px-2 py-1 text-xs font-medium rounded-full ${styles[status as keyof typeof styles] || fallback}`}>
+        {status || 'Unknown'}
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Outbound Messages
+        </h3>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Sent At
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Recipient
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Subject
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Tag
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Status
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {messages.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                  No messages match these filters
+                </td>
+              </tr>
+            )}
+            {messages.map((message) => (
+              <tr
+                key={message.id}
+                onClick={() => onSelect(message.id)}
+                className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 ${selectedId === message.id ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+              >
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                  {formatMessageDate(message.receivedAt)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                  {message.recipients.join(', ') || '—'}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                  <div className="max-w-md truncate" title={message.subject || ''}>
+                    {message.subject || '—'}
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                  {message.tag || '—'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {getStatusBadge(message.status)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="px-6 py-3 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="text-sm text-gray-700 dark:text-gray-300">
+            Showing {startIndex + 1} to {startIndex + messages.length} of {totalCount.toLocaleString()} messages
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onPageChange(Math.max(1, page - 1))}
+              disabled={page === 1}
+              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-gray-700 dark:text-gray-300"
+            >
+              Previous
+            </button>
+            <span className="px-3 py-1 text-sm text-gray-700 dark:text-gray-300">
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => onPageChange(Math.min(totalPages, page + 1))}
+              disabled={page === totalPages}
+              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-gray-700 dark:text-gray-300"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
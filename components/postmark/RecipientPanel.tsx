@@ -0,0 +1,179 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  X,
+  CheckCircle,
+  Eye,
+  MousePointer,
+  AlertTriangle,
+  Circle,
+  RefreshCw,
+  LucideIcon
+} from 'lucide-react';
+import type { RecipientTimeline } from '@/lib/engagement';
+import { RecipientTimelineResponse } from '@/pages/api/postmark/recipients/[email]';
+import { formatMessageDate } from '@/components/postmark/MessageTable';
+import { getScoreBadge } from '@/components/postmark/RecipientTable';
+
+interface RecipientPanelProps {
+  recipient: string;
+  // Query string with days or from/to, matching the page's range
+  rangeQuery: string;
+  onClose: () => void;
+  onSelectMessage: (id: string) => void;
+}
+
+const EVENT_STYLES: Record<string, { label: string; icon: LucideIcon; color: string }> = {
+  Delivery: { label: 'Delivered', icon: CheckCircle, color: 'text-green-600 dark:text-green-400' },
+  Open: { label: 'Opened', icon: Eye, color: 'text-blue-600 dark:text-blue-400' },
+  Click: { label: 'Clicked', icon: MousePointer, color: 'text-purple-600 dark:text-purple-400' },
+  Bounce: { label: 'Bounced', icon: AlertTriangle, color: 'text-red-600 dark:text-red-400' }
+};
+
+export function RecipientPanel({ recipient, rangeQuery, onClose, onSelectMessage }: RecipientPanelProps) {
+  const [timeline, setTimeline] = useState<RecipientTimeline | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchTimeline = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/postmark/recipients/${encodeURIComponent(recipient)}?${rangeQuery}`);
+        const data: RecipientTimelineResponse = await response.json();
+
+        if (!response.ok || !data.success || !data.data) {
+          throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+
+        if (!cancelled) {
+          setTimeline(data.data);
+        }
+      } catch (err) {
+        console.error('Error fetching recipient timeline:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to fetch recipient');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchTimeline();
+    return () => {
+      cancelled = true;
+    };
+  }, [recipient, rangeQuery]);
+
+  const engagement = timeline?.engagement;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+
+      <aside className="relative w-full max-w-2xl h-full overflow-y-auto bg-white dark:bg-gray-800 shadow-xl border-l border-gray-200 dark:border-gray-700">
+        <div className="sticky top-0 flex items-center justify-between px-6 py-4 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">
+            {recipient}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {loading && (
+            <div className="flex items-center justify-center py-12 text-gray-600 dark:text-gray-400">
+              <RefreshCw className="h-5 w-5 animate-spin mr-2" />
+              Loading recipient...
+            </div>
+          )}
+
+          {error && !loading && (
+            <div className="bg-red-100 dark:bg-red-900/20 border border-red-300 dark:border-red-700 text-red-800 dark:text-red-400 px-4 py-3 rounded-lg">
+              <p className="font-medium">Error loading recipient</p>
+              <p className="text-sm mt-1">{error}</p>
+            </div>
+          )}
+
+          {timeline && engagement && !loading && !error && (
+            <>
+              {/* Engagement Summary */}
+              <dl className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm mb-8">
+                <dt className="text-gray-500 dark:text-gray-400">Score</dt>
+                <dd className="col-span-2">{getScoreBadge(engagement.score)}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">Messages</dt>
+                <dd className="col-span-2 text-gray-900 dark:text-white">{engagement.messages.toLocaleString()}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">Opened</dt>
+                <dd className="col-span-2 text-gray-900 dark:text-white">{engagement.opened.toLocaleString()}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">Clicked</dt>
+                <dd className="col-span-2 text-gray-900 dark:text-white">{engagement.clicked.toLocaleString()}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">Bounced</dt>
+                <dd className="col-span-2 text-gray-900 dark:text-white">{engagement.bounced.toLocaleString()}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">Last engaged</dt>
+                <dd className="col-span-2 text-gray-900 dark:text-white">
+                  {engagement.lastEngagedAt ? formatMessageDate(engagement.lastEngagedAt) : 'Never'}
+                </dd>
+              </dl>
+
+              {/* Messages */}
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-4">Messages</h4>
+              {timeline.messages.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No messages sent to this address in this range</p>
+              )}
+              {timeline.truncated && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Only the newest 10,000 messages are listed; pick a shorter range to see the rest</p>
+              )}
+              <ul className="space-y-4">
+                {timeline.messages.map((message) => (
+                  <li key={message.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                    <button
+                      onClick={() => onSelectMessage(message.id)}
+                      className="text-left text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      {message.subject || message.id}
+                    </button>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {message.sentAt ? formatMessageDate(message.sentAt) : 'Sent date unavailable'}
+                      {message.tag && ` · ${message.tag}`}
+                      {message.stream && ` · ${message.stream}`}
+                    </p>
+                    {message.events.length > 0 ? (
+                      <ol className="mt-3 space-y-1">
+                        {message.events.map((event, index) => {
+                          const style = EVENT_STYLES[event.type] || { label: event.type, icon: Circle, color: 'text-gray-600 dark:text-gray-400' };
+                          const Icon = style.icon;
+                          return (
+                            <li key={`${event.type}-${event.occurredAt}-${index}`} className="flex items-start gap-2 text-xs text-gray-600 dark:text-gray-400">
+                              <Icon className={`h-4 w-4 flex-shrink-0 ${style.color}`} />
+                              <span>
+                                {style.label} · {formatMessageDate(event.occurredAt)}
+                                {event.link && <span className="block break-all">{event.link}</span>}
+                              </span>
+                            </li>
+                          );
+                        })}
+                      </ol>
+                    ) : (
+                      <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">No opens or clicks recorded</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import type { RecipientEngagement } from '@/lib/engagement';
+import { formatMessageDate } from '@/components/postmark/MessageTable';
+
+interface RecipientTableProps {
+  recipients: RecipientEngagement[];
+  totalRecipients: number;
+  order: 'most' | 'least';
+  selectedRecipient: string | null;
+  onSelect: (recipient: string) => void;
+}
+
+export function getScoreBadge(score: number) {
+  const style = score >= 60
+    ? 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+    : score >= 25
+      ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400'
+      : 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400';
+
+  return (
+    <span className={`px-2 py-1 text-xs font-medium rounded-full ${style}`}>
+      {score}
+    </span>
+  );
+}
+
+export function RecipientTable({ recipients, totalRecipients, order, selectedRecipient, onSelect }: RecipientTableProps) {
+  const formatRate = (count: number, total: number) => {
+    return total > 0 ? `${((count / total) * 100).toFixed(0)}%` : '—';
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          {order === 'most' ? 'Most Engaged Recipients' : 'Least Engaged Recipients'}
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Showing {recipients.length} of {totalRecipients.toLocaleString()} recipients
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Recipient
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Score
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Messages
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Opened
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Clicked
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Bounced
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Last Engaged
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {recipients.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                  No recipients match these filters
+                </td>
+              </tr>
+            )}
+            {recipients.map((recipient) => (
+              <tr
+                key={recipient.recipient}
+                onClick={() => onSelect(recipient.recipient)}
+                className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 ${selectedRecipient === recipient.recipient ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+              >
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                  {recipient.recipient}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {getScoreBadge(recipient.score)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                  {recipient.messages.toLocaleString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                  {recipient.opened.toLocaleString()} ({formatRate(recipient.opened, recipient.messages)})
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                  {recipient.clicked.toLocaleString()} ({formatRate(recipient.clicked, recipient.messages)})
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                  {recipient.bounced.toLocaleString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                  {recipient.lastEngagedAt ? formatMessageDate(recipient.lastEngagedAt) : 'Never'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
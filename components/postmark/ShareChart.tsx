@@ -0,0 +1,98 @@
+'use client';
+
+import {
+  PieChart,
+  Pie,
+  Cell,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { UsageShare } from '@/pages/api/postmark/clients';
+
+interface ShareChartProps {
+  title: string;
+  data: UsageShare[];
+  // Entries beyond this are combined into "Other"
+  maxSlices?: number;
+  height?: number;
+}
+
+const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#9CA3AF'];
+
+export function ShareChart({ title, data, maxSlices = 6, height = 200 }: ShareChartProps) {
+  const slices = data.length > maxSlices
+    ? [
+        ...data.slice(0, maxSlices - 1),
+        data.slice(maxSlices - 1).reduce(
+          (other, entry) => ({
+            ...other,
+            count: other.count + entry.count,
+            share: Math.round((other.share + entry.share) * 100) / 100
+          }),
+          { name: 'Other', count: 0, share: 0 }
+        )
+      ]
+    : data;
+
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const entry = payload[0].payload as UsageShare;
+      return (
+        <div className="bg-white dark:bg-gray-800 p-3 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          <p className="font-medium text-gray-900 dark:text-white">{entry.name}</p>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {entry.count.toLocaleString()} ({entry.share}%)
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h4 className="font-semibold text-gray-900 dark:text-white mb-4">
+        {title}
+      </h4>
+      {slices.length === 0 ? (
+        <div className="flex items-center justify-center text-sm text-gray-500 dark:text-gray-400" style={{ height }}>
+          No data available
+        </div>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={height}>
+            <PieChart>
+              <Pie
+                data={slices}
+                dataKey="count"
+                nameKey="name"
+                innerRadius="55%"
+                outerRadius="85%"
+                paddingAngle={1}
+              >
+                {slices.map((entry, index) => (
+                  <Cell key={entry.name} fill={COLORS[index % COLORS.length]} />
+                ))}
+              </Pie>
+              <Tooltip content={<CustomTooltip />} />
+            </PieChart>
+          </ResponsiveContainer>
+          <ul className="mt-4 space-y-1">
+            {slices.map((entry, index) => (
+              <li key={entry.name} className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                  <span
+                    className="w-3 h-3 rounded-full"
+                    style={{ backgroundColor: COLORS[index % COLORS.length] }}
+                  />
+                  {entry.name}
+                </span>
+                <span className="font-medium text-gray-900 dark:text-white">{entry.share}%</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
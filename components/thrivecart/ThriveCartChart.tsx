@@ -68,7 +68,7 @@ export function ThriveCartChart({
                 {entry.name}:
               </span>
               <span className="text-sm font-medium text-gray-900 dark:text-white">
-                {entry.name === 'Revenue' 
+                {entry.name === 'Revenue' || entry.name === 'Net Revenue'
                   ? formatCurrency(entry.value)
                   : entry.value
                 }
@@ -149,6 +149,7 @@ export function ThriveCartChart({
             tickFormatter={formatCurrency}
           />
           <Tooltip content={<CustomTooltip />} />
+          <Legend />
           <Line 
             type="monotone" 
             dataKey="revenue" 
@@ -158,6 +159,14 @@ export function ThriveCartChart({
             dot={{ fill: '#3B82F6', strokeWidth: 2, r: 4 }}
             activeDot={{ r: 6, stroke: '#3B82F6', strokeWidth: 2 }}
           />
+          <Line 
+            type="monotone" 
+            dataKey="netRevenue" 
+            name="Net Revenue"
+            stroke="#10B981" 
+            strokeWidth={2}
+            dot={{ fill: '#10B981', strokeWidth: 2, r: 3 }}
+          />
         </LineChart>
       </ResponsiveContainer>
     </div>
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import type { ThriveCartImportReport as ImportReport } from '@/lib/thrivecart-import';
+
+interface ThriveCartImportReportProps {
+  report: ImportReport;
+}
+
+export function ThriveCartImportReport({ report }: ThriveCartImportReportProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const failedSources = report.sources.filter((source) => source.missingColumns.length > 0);
+  const hasProblems = report.rejected > 0 || failedSources.length > 0;
+  const importedAt = new Date(report.importedAt).toLocaleString();
+
+  if (!hasProblems) {
+    return (
+      <div className="flex items-center gap-2 mb-6 text-sm text-gray-500 dark:text-gray-400">
+        <CheckCircle className="h-4 w-4 text-green-600" />
+        Imported {report.accepted.toLocaleString()} rows from {report.sources.length} source{report.sources.length === 1 ? '' : 's'} at {importedAt}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 bg-yellow-100 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-700 text-yellow-800 dark:text-yellow-400 px-4 py-3 rounded-lg">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-2">
+          <AlertTriangle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-medium">
+              Last import: {report.accepted.toLocaleString()} rows accepted, {report.rejected.toLocaleString()} rejected
+            </p>
+            <p className="text-sm mt-1">{importedAt}</p>
+            {failedSources.map((source) => (
+              <p key={source.name} className="text-sm mt-1">
+                {source.name} is missing columns: {source.missingColumns.join(', ')}. Nothing was imported until this is fixed.
+              </p>
+            ))}
+            {report.unknownEvents.length > 0 && (
+              <p className="text-sm mt-1">
+                Unknown event types: {report.unknownEvents.map((unknown) => `${unknown.event} (${unknown.count})`).join(', ')}
+              </p>
+            )}
+          </div>
+        </div>
+        {report.rejections.length > 0 && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-center gap-1 text-sm font-medium whitespace-nowrap hover:underline"
+          >
+            {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            {expanded ? 'Hide rejected rows' : 'Show rejected rows'}
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-4 max-h-80 overflow-y-auto bg-white dark:bg-gray-800 rounded border border-yellow-200 dark:border-yellow-800">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Source</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Row</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Reason</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+              {report.rejections.map((rejection) => (
+                <tr key={`${rejection.source}-${rejection.row}`}>
+                  <td className="px-4 py-2">{rejection.source}</td>
+                  <td className="px-4 py-2 text-right">{rejection.row}</td>
+                  <td className="px-4 py-2">{rejection.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.rejected > report.rejections.length && (
+            <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+              Showing the first {report.rejections.length} of {report.rejected.toLocaleString()} rejected rows
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -107,7 +107,9 @@ export function ThriveCartTable({ transactions }: ThriveCartTableProps) {
       purchase: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
       upsellaccept: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
       abandon: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
-      refund: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400'
+      refund: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400',
+      rebill: 'bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-400',
+      cancel: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
     };
 
     return (
@@ -157,6 +159,8 @@ export function ThriveCartTable({ transactions }: ThriveCartTableProps) {
               <option value="upsellaccept">Upsells</option>
               <option value="abandon">Abandoned</option>
               <option value="refund">Refunds</option>
+              <option value="rebill">Rebills</option>
+              <option value="cancel">Cancellations</option>
             </select>
           </div>
         </div>
@@ -0,0 +1,275 @@
+'use client';
+
+import { useState } from 'react';
+import Papa from 'papaparse';
+import { Upload, FileText, RefreshCw, CheckCircle, X } from 'lucide-react';
+import type { ThriveCartUploadResult } from '@/lib/thrivecart-upload';
+import { UploadResponse } from '@/pages/api/thrivecart/upload';
+
+interface ThriveCartUploadProps {
+  // Called after rows were imported, to reload the stats
+  onImported: () => void;
+  onClose: () => void;
+}
+
+type Columns = ThriveCartUploadResult['columns'];
+
+const FIELDS: { key: keyof Columns; label: string; required: boolean }[] = [
+  { key: 'event', label: 'Event', required: true },
+  { key: 'item_name', label: 'Product', required: true },
+  { key: 'item_plan_name', label: 'Plan', required: false },
+  { key: 'date', label: 'Date', required: true },
+  { key: 'checkbox_confirmation', label: 'Checkbox', required: false },
+  { key: 'price', label: 'Price', required: true },
+];
+
+export function ThriveCartUpload({ onImported, onClose }: ThriveCartUploadProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [columns, setColumns] = useState<Partial<Record<keyof Columns, string>>>({});
+  const [preview, setPreview] = useState<ThriveCartUploadResult | null>(null);
+  const [imported, setImported] = useState<ThriveCartUploadResult | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (body: { fileName: string; rows: string[][]; columns: typeof columns; dryRun: boolean }) => {
+    const response = await fetch('/api/thrivecart/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const data: UploadResponse = await response.json();
+
+    if (!response.ok || !data.success || !data.data) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+    return data.data;
+  };
+
+  const runPreview = async (name: string, parsedRows: string[][], mapping: typeof columns) => {
+    try {
+      setWorking(true);
+      setError(null);
+      setPreview(await send({ fileName: name, rows: parsedRows, columns: mapping, dryRun: true }));
+    } catch (err) {
+      console.error('Error previewing ThriveCart upload:', err);
+      setError(err instanceof Error ? err.message : 'Failed to preview the file');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFile = (file: File) => {
+    setImported(null);
+    setPreview(null);
+    setColumns({});
+    setError(null);
+
+    Papa.parse<string[]>(file, {
+      header: false,
+      skipEmptyLines: true,
+      complete: (results) => {
+        if (results.data.length < 2) {
+          setError('The file has no data rows');
+          return;
+        }
+        setFileName(file.name);
+        setRows(results.data);
+        runPreview(file.name, results.data, {});
+      },
+      error: (err) => setError(err.message)
+    });
+  };
+
+  const handleColumnChange = (field: keyof Columns, header: string) => {
+    const mapping = { ...columns, [field]: header };
+    setColumns(mapping);
+    if (fileName) {
+      runPreview(fileName, rows, mapping);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!fileName) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      setImported(await send({ fileName, rows, columns, dryRun: false }));
+      setPreview(null);
+      onImported();
+    } catch (err) {
+      console.error('Error importing ThriveCart upload:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import the file');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const selectClassName = 'w-full text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+  const newRows = preview ? preview.accepted - preview.duplicates : 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Import ThriveCart Export
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Drop Zone */}
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          const file = e.dataTransfer.files[0];
+          if (file) handleFile(file);
+        }}
+        className={`
+          flex flex-col items-center justify-center gap-2 px-6 py-8 border-2 border-dashed rounded-lg cursor-pointer transition-colors
+          ${dragging
+            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+            : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500'
+          }
+        `}
+      >
+        {fileName ? <FileText className="h-8 w-8 text-gray-400" /> : <Upload className="h-8 w-8 text-gray-400" />}
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {fileName ? `${fileName} · ${(rows.length - 1).toLocaleString()} rows` : 'Drop a CSV export here, or click to choose a file'}
+        </span>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {error && (
+        <div className="mt-4 bg-red-100 dark:bg-red-900/20 border border-red-300 dark:border-red-700 text-red-800 dark:text-red-400 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {imported && (
+        <div className="flex items-center gap-2 mt-4 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle className="h-4 w-4" />
+          Imported {imported.imported.toLocaleString()} rows from {imported.fileName}
+          {imported.duplicates > 0 && `, skipped ${imported.duplicates.toLocaleString()} duplicates`}
+          {imported.rejected > 0 && `, rejected ${imported.rejected.toLocaleString()} invalid rows`}
+        </div>
+      )}
+
+      {preview && (
+        <div className={working ? 'opacity-60' : ''}>
+          {/* Column Mapping */}
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white mt-6 mb-2">Column Mapping</h4>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {FIELDS.map((field) => (
+              <div key={field.key}>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  {field.label}{field.required ? ' *' : ''}
+                </label>
+                <select
+                  value={columns[field.key] ?? preview.columns[field.key] ?? ''}
+                  onChange={(e) => handleColumnChange(field.key, e.target.value)}
+                  className={`${selectClassName} ${preview.missingColumns.indexOf(field.key) !== -1 ? 'border-red-500 dark:border-red-500' : ''}`}
+                >
+                  <option value="">Not mapped</option>
+                  {preview.headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {/* Summary */}
+          <div className="text-sm text-gray-600 dark:text-gray-400 mt-4">
+            {preview.missingColumns.length > 0
+              ? `Map the required columns to continue: ${preview.missingColumns.join(', ')}`
+              : `${newRows.toLocaleString()} new rows · ${preview.duplicates.toLocaleString()} duplicates · ${preview.rejected.toLocaleString()} rejected`}
+            {preview.missingColumns.length === 0 && preview.inSheet > 0 && (
+              <span> · {preview.inSheet.toLocaleString()} new rows are in the sheet as well and only count once</span>
+            )}
+            {preview.unknownEvents.length > 0 && (
+              <span> · Unknown event types: {preview.unknownEvents.map((unknown) => `${unknown.event} (${unknown.count})`).join(', ')}</span>
+            )}
+          </div>
+
+          {/* Preview Rows */}
+          {preview.preview.length > 0 && (
+            <div className="overflow-x-auto mt-4">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    {['Event', 'Product', 'Plan', 'Date', 'Price'].map((label) => (
+                      <th key={label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                  {preview.preview.map((transaction, index) => (
+                    <tr key={index}>
+                      <td className="px-4 py-2">{transaction.event}</td>
+                      <td className="px-4 py-2">{transaction.item_name}</td>
+                      <td className="px-4 py-2">{transaction.item_plan_name}</td>
+                      <td className="px-4 py-2">{transaction.date}</td>
+                      <td className="px-4 py-2">${transaction.price.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Rejected Rows */}
+          {preview.rejections.length > 0 && (
+            <div className="mt-4 max-h-40 overflow-y-auto text-xs text-yellow-800 dark:text-yellow-400">
+              {preview.rejections.slice(0, 20).map((rejection) => (
+                <p key={rejection.row}>Row {rejection.row}: {rejection.reason}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 mt-6">
+            <button
+              onClick={onClose}
+              className="px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={working || newRows === 0 || preview.missingColumns.length > 0}
+              className="flex items-center gap-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {working && <RefreshCw className="h-4 w-4 animate-spin" />}
+              Import {newRows.toLocaleString()} rows
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { prisma } from '@/lib/db'
+import { getPostmarkClient } from '@/lib/postmark'
+import { storePostmarkEvents } from '@/lib/postmark-webhooks'
+import { getLookbackDays, SyncSource, toStoredDate } from '@/lib/sync'
+
+export interface EngagementFilters {
+  tag?: string
+  stream?: string
+}
+
+export interface EngagementRankingOptions extends EngagementFilters {
+  // most: highest score first; least: lowest score first, most messages first on ties
+  order?: 'most' | 'least'
+  limit?: number
+  // Leaves out recipients with too few messages to judge
+  minMessages?: number
+}
+
+export interface RecipientEngagement {
+  recipient: string
+  // Distinct messages sent to the recipient
+  messages: number
+  delivered: number
+  opened: number
+  clicked: number
+  bounced: number
+  lastEngagedAt: string | null
+  score: number
+}
+
+export interface EngagementRanking {
+  recipients: RecipientEngagement[]
+  totalRecipients: number
+  // The message search stopped at Postmark's 10,000 result cap, so recipients
+  // of the messages past it are ranked on their stored events alone
+  truncated: boolean
+}
+
+export interface RecipientMessageEvent {
+  type: string
+  occurredAt: string
+  link: string | null
+}
+
+export interface RecipientMessage {
+  id: string
+  subject: string | null
+  tag: string | null
+  stream: string | null
+  status: string | null
+  sentAt: string | null
+  // Oldest first
+  events: RecipientMessageEvent[]
+}
+
+export interface RecipientTimeline {
+  engagement: RecipientEngagement
+  // Newest first
+  messages: RecipientMessage[]
+  // More messages were sent to the address than the message search returns
+  truncated: boolean
+}
+
+const ENGAGEMENT_EVENT_TYPES = ['Delivery', 'Open', 'Click', 'Bounce']
+
+// Engagement counts for half as much after this many days without an open or click
+export const ENGAGEMENT_HALF_LIFE_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface StoredEngagementEvent {
+  recordType: string
+  messageId: string
+  recipient: string
+  tag: string | null
+  messageStream: string | null
+  originalLink: string | null
+  occurredAt: Date
+}
+
+// Score from 0 to 100. Recency of the last open or click and the share of
+// messages opened weigh 40% each, the share of messages clicked 20%.
+export function scoreEngagement(
+  engagement: Pick<RecipientEngagement, 'messages' | 'opened' | 'clicked' | 'lastEngagedAt'>,
+  asOf: Date
+): number {
+  if (engagement.messages === 0) return 0
+
+  const openRate = Math.min(1, engagement.opened / engagement.messages)
+  const clickRate = Math.min(1, engagement.clicked / engagement.messages)
+  const daysSince = engagement.lastEngagedAt
+    ? Math.max(0, (asOf.getTime() - new Date(engagement.lastEngagedAt).getTime()) / DAY_MS)
+    : Infinity
+  const recency = Math.pow(0.5, daysSince / ENGAGEMENT_HALF_LIFE_DAYS)
+
+  return Math.round(100 * (0.4 * recency + 0.4 * openRate + 0.2 * clickRate))
+}
+
+// Imports open events from Postmark's message opens API, like the click import
+// in postmark-links, so scores don't depend on the open webhook alone
+export async function syncOpenEvents(fromDate: string, toDate: string): Promise<number> {
+  const opens = await getPostmarkClient().getAllOpens(fromDate, toDate)
+
+  await storePostmarkEvents(opens)
+
+  console.log(`Imported ${opens.length} open events from ${fromDate} to ${toDate}`)
+  return opens.length
+}
+
+export const postmarkOpenSyncSource: SyncSource = {
+  name: 'postmark:opens',
+  lookbackDays: getLookbackDays('POSTMARK_SYNC_LOOKBACK_DAYS', 2),
+  minIntervalMinutes: getLookbackDays('POSTMARK_SYNC_INTERVAL_MINUTES', 15),
+  syncRange: async (fromDate, toDate) => {
+    await syncOpenEvents(fromDate, toDate)
+  }
+}
+
+function rangeEnd(toDate: string): Date {
+  return new Date(toStoredDate(toDate).getTime() + DAY_MS)
+}
+
+// Recency is measured from the end of the range, or now for ranges ending today
+function scoringDate(toDate: string): Date {
+  return new Date(Math.min(Date.now(), rangeEnd(toDate).getTime()))
+}
+
+// sentMessages are the IDs of messages known from the message search, which may have no stored events
+function summarize(recipient: string, events: StoredEngagementEvent[], asOf: Date, sentMessages: string[] = []): RecipientEngagement {
+  const messages = new Set<string>(sentMessages)
+  const byType = new Map<string, Set<string>>()
+  let lastEngaged: Date | null = null
+
+  for (const event of events) {
+    messages.add(event.messageId)
+    const ids = byType.get(event.recordType) ?? new Set<string>()
+    ids.add(event.messageId)
+    byType.set(event.recordType, ids)
+
+    if ((event.recordType === 'Open' || event.recordType === 'Click') && (!lastEngaged || event.occurredAt > lastEngaged)) {
+      lastEngaged = event.occurredAt
+    }
+  }
+
+  const engagement = {
+    recipient,
+    messages: messages.size,
+    delivered: byType.get('Delivery')?.size ?? 0,
+    opened: byType.get('Open')?.size ?? 0,
+    clicked: byType.get('Click')?.size ?? 0,
+    bounced: byType.get('Bounce')?.size ?? 0,
+    lastEngagedAt: lastEngaged ? lastEngaged.toISOString() : null
+  }
+
+  return { ...engagement, score: scoreEngagement(engagement, asOf) }
+}
+
+async function getEngagementEvents(
+  fromDate: string,
+  toDate: string,
+  filters: EngagementFilters & { recipient?: string }
+): Promise<StoredEngagementEvent[]> {
+  return prisma.postmarkEvent.findMany({
+    where: {
+      recordType: { in: ENGAGEMENT_EVENT_TYPES },
+      recipient: filters.recipient,
+      tag: filters.tag,
+      messageStream: filters.stream,
+      occurredAt: { gte: toStoredDate(fromDate), lt: rangeEnd(toDate) }
+    },
+    select: {
+      recordType: true,
+      messageId: true,
+      recipient: true,
+      tag: true,
+      messageStream: true,
+      originalLink: true,
+      occurredAt: true
+    }
+  })
+}
+
+// Ranks every recipient Postmark sent a message to in the range, from the
+// message search, and every recipient with stored delivery, open, click or
+// bounce events. Recipients who never opened or clicked rank with a score of 0.
+export async function getEngagementRanking(
+  fromDate: string,
+  toDate: string,
+  options: EngagementRankingOptions = {}
+): Promise<EngagementRanking> {
+  const { order = 'most', limit = 50, minMessages = 1, ...filters } = options
+  const [events, sent] = await Promise.all([
+    getEngagementEvents(fromDate, toDate, filters),
+    getPostmarkClient().getOutboundMessagesWithTotal(fromDate, toDate, { tag: filters.tag, stream: filters.stream, status: 'sent' })
+  ])
+  const asOf = scoringDate(toDate)
+
+  const byRecipient = new Map<string, { events: StoredEngagementEvent[]; sent: string[] }>()
+  const entry = (recipient: string) => {
+    const existing = byRecipient.get(recipient) ?? { events: [], sent: [] }
+    byRecipient.set(recipient, existing)
+    return existing
+  }
+  sent.messages.forEach(message => {
+    message.Recipients.forEach(recipient => {
+      entry(recipient.trim().toLowerCase()).sent.push(message.MessageID)
+    })
+  })
+  events.forEach(event => {
+    entry(event.recipient).events.push(event)
+  })
+
+  const recipients = Array.from(byRecipient.entries())
+    .map(([recipient, known]) => summarize(recipient, known.events, asOf, known.sent))
+    .filter(engagement => engagement.messages >= minMessages)
+    .sort((a, b) => order === 'most'
+      ? b.score - a.score || b.opened + b.clicked - (a.opened + a.clicked)
+      : a.score - b.score || b.messages - a.messages)
+
+  return {
+    recipients: recipients.slice(0, limit),
+    totalRecipients: recipients.length,
+    truncated: sent.totalCount > sent.messages.length
+  }
+}
+
+// Every message sent to the address in the range, from Postmark's message
+// search (up to its 10,000 result cap), with the opens, clicks and bounces
+// stored for each
+export async function getRecipientTimeline(recipient: string, fromDate: string, toDate: string): Promise<RecipientTimeline> {
+  const address = recipient.trim().toLowerCase()
+  const [events, sent] = await Promise.all([
+    getEngagementEvents(fromDate, toDate, { recipient: address }),
+    getPostmarkClient().getOutboundMessagesWithTotal(fromDate, toDate, { recipient: address })
+  ])
+
+  const messages = new Map<string, RecipientMessage>()
+  sent.messages.forEach(message => {
+    messages.set(message.MessageID, {
+      id: message.MessageID,
+      subject: message.Subject ?? null,
+      tag: message.Tag || null,
+      stream: message.MessageStream ?? null,
+      status: message.Status ?? null,
+      sentAt: message.ReceivedAt,
+      events: []
+    })
+  })
+
+  events
+    .slice()
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())
+    .forEach(event => {
+      // Events can outlive Postmark's message retention, so keep them without a subject
+      const message = messages.get(event.messageId) ?? {
+        id: event.messageId,
+        subject: null,
+        tag: event.tag,
+        stream: event.messageStream,
+        status: null,
+        sentAt: null,
+        events: []
+      }
+      message.events.push({ type: event.recordType, occurredAt: event.occurredAt.toISOString(), link: event.originalLink })
+      messages.set(event.messageId, message)
+    })
+
+  const sentAt = (message: RecipientMessage) => message.sentAt ?? message.events[0]?.occurredAt ?? ''
+
+  return {
+    engagement: summarize(address, events, scoringDate(toDate), Array.from(messages.keys())),
+    messages: Array.from(messages.values()).sort((a, b) => new Date(sentAt(b)).getTime() - new Date(sentAt(a)).getTime()),
+    truncated: sent.totalCount > sent.messages.length
+  }
+}
@@ -1,4 +1,8 @@
-import { format, subDays, parseISO } from 'date-fns';
+import { format, parseISO } from 'date-fns';
+import { prisma } from '@/lib/db';
+import { defaultRange, fromStoredDate, getLookbackDays, runSync, SyncSource, toStoredDate } from '@/lib/sync';
+import { facebookRateLimiter } from '@/lib/rate-limiter';
+import { getStateStore } from '@/lib/state-store';
 
 export interface FacebookAdsMetrics {
   date: string;
@@ -57,8 +61,9 @@ export interface DateRange {
 
 export class FacebookAdsService {
   private static instance: FacebookAdsService;
-  private cache: Map<string, { data: FacebookAdsStats; timestamp: number }> = new Map();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  // Expired entries are still served when the upstream fetch fails
+  private readonly CACHE_RETENTION = 24 * 60 * 60 * 1000; // 1 day
   private readonly baseUrl = 'https://graph.facebook.com/v18.0';
   private accessToken: string;
 
@@ -82,8 +87,12 @@ export class FacebookAdsService {
     const now = Date.now();
     
     // Create cache key based on date range
-    const cacheKey = dateRange ? `${dateRange.from}-${dateRange.to}` : 'all';
-    const cached = this.cache.get(cacheKey);
+    const cacheKey = `facebook-ads:stats:${dateRange ? `${dateRange.from}-${dateRange.to}` : 'all'}`;
+    // A cache that can't be read is treated as empty rather than failing the request
+    const cached = await getStateStore().get<{ data: FacebookAdsStats; timestamp: number }>(cacheKey).catch(error => {
+      console.warn('Could not read the Facebook Ads cache:', error);
+      return undefined;
+    });
     
     if (!forceRefresh && cached && (now - cached.timestamp) < this.CACHE_DURATION) {
       return cached.data;
@@ -112,17 +121,23 @@ export class FacebookAdsService {
       const adAccountId = adAccounts[0].id;
       console.log(`🎯 Using ad account: ${adAccountId}`);
       
-      // Fetch insights data
-      const insights = await this.getAdAccountInsights(adAccountId, dateRange);
-      debug.insightsDataPoints = insights.length;
+      // Only fetch the days missing from FacebookAdsSnapshot (plus the attribution window)
+      const range = dateRange ?? defaultRange(30);
+      const { fetched } = await runSync(this.getSyncSource(adAccountId), range);
+      console.log(`📥 Fetched ${fetched.length} missing range(s) from the Graph API`);
+      
+      const dailyStats = await this.getStoredMetrics(adAccountId, range);
+      debug.insightsDataPoints = dailyStats.length;
       
-      console.log(`📈 Found ${insights.length} data points`);
+      console.log(`📈 Found ${dailyStats.length} data points`);
       
-      const stats = this.calculateStats(insights, dateRange, debug);
+      const stats = this.calculateStats(dailyStats, dateRange, debug);
       
-      this.cache.set(cacheKey, {
+      await getStateStore().set(cacheKey, {
         data: stats,
         timestamp: now
+      }, this.CACHE_RETENTION).catch(error => {
+        console.warn('Could not cache the Facebook Ads stats:', error);
       });
 
       return stats;
@@ -140,12 +155,82 @@ export class FacebookAdsService {
     }
   }
 
+  // Facebook keeps attributing conversions to past days for the length of the
+  // attribution window, so those days are re-fetched on every sync
+  private getSyncSource(adAccountId: string): SyncSource {
+    return {
+      name: `facebook:${adAccountId}`,
+      lookbackDays: getLookbackDays('FACEBOOK_SYNC_LOOKBACK_DAYS', 7),
+      syncRange: async (from, to) => {
+        const insights = await this.getAdAccountInsights(adAccountId, { from, to });
+        await this.storeMetrics(adAccountId, { from, to }, insights.map(insight => this.toMetrics(insight)));
+      }
+    };
+  }
+
+  private async storeMetrics(adAccountId: string, range: DateRange, metrics: FacebookAdsMetrics[]): Promise<void> {
+    // Replace the whole range so days that lost their data upstream don't linger
+    await prisma.$transaction([
+      prisma.facebookAdsSnapshot.deleteMany({
+        where: {
+          accountId: adAccountId,
+          date: { gte: toStoredDate(range.from), lte: toStoredDate(range.to) }
+        }
+      }),
+      prisma.facebookAdsSnapshot.createMany({
+        data: metrics.map(day => ({
+          accountId: adAccountId,
+          date: toStoredDate(day.date),
+          spend: day.spend,
+          impressions: day.impressions,
+          clicks: day.clicks,
+          ctr: day.ctr,
+          cpc: day.cpc,
+          reach: day.reach,
+          frequency: day.frequency,
+          purchases: day.purchases,
+          purchaseValue: day.purchaseValue,
+          leads: day.leads,
+          costPerLead: day.costPerLead
+        }))
+      })
+    ]);
+  }
+
+  private async getStoredMetrics(adAccountId: string, range: DateRange): Promise<FacebookAdsMetrics[]> {
+    const rows = await prisma.facebookAdsSnapshot.findMany({
+      where: {
+        accountId: adAccountId,
+        date: { gte: toStoredDate(range.from), lte: toStoredDate(range.to) }
+      },
+      orderBy: { date: 'asc' }
+    });
+
+    return rows.map(row => ({
+      date: fromStoredDate(row.date),
+      spend: row.spend,
+      impressions: row.impressions,
+      clicks: row.clicks,
+      ctr: row.ctr,
+      cpc: row.cpc,
+      reach: row.reach,
+      frequency: row.frequency,
+      cpp: row.purchases > 0 ? row.spend / row.purchases : 0,
+      purchases: row.purchases,
+      purchaseValue: row.purchaseValue,
+      leads: row.leads,
+      costPerLead: row.costPerLead,
+      linkClicks: row.clicks,
+      costPerClick: row.cpc
+    }));
+  }
+
   private async getAdAccounts(): Promise<any[]> {
     const url = `${this.baseUrl}/me/adaccounts?access_token=${this.accessToken}&fields=id,name,account_status`;
     
     console.log('🔗 Fetching ad accounts from:', url.replace(this.accessToken, '[TOKEN]'));
     
-    const response = await fetch(url);
+    const response = await facebookRateLimiter.fetch(url);
     if (!response.ok) {
       const errorText = await response.text();
       console.error('❌ Ad accounts API error:', response.status, errorText);
@@ -162,7 +247,7 @@ export class FacebookAdsService {
     return data.data || [];
   }
 
-  private async getAdAccountInsights(adAccountId: string, dateRange?: DateRange): Promise<any[]> {
+  private async getAdAccountInsights(adAccountId: string, dateRange: DateRange): Promise<any[]> {
     const fields = [
       'date_start',
       'date_stop',
@@ -178,38 +263,74 @@ export class FacebookAdsService {
       'cost_per_action_type'
     ].join(',');
 
-    let timeRange = '';
-    if (dateRange) {
-      timeRange = `&time_range={'since':'${dateRange.from}','until':'${dateRange.to}'}`;
-    } else {
-      // Default to last 30 days
-      const toDate = new Date();
-      const fromDate = subDays(toDate, 30);
-      timeRange = `&time_range={'since':'${format(fromDate, 'yyyy-MM-dd')}','until':'${format(toDate, 'yyyy-MM-dd')}'}`;
-    }
+    const timeRange = `&time_range={'since':'${dateRange.from}','until':'${dateRange.to}'}`;
 
-    const url = `${this.baseUrl}/${adAccountId}/insights?access_token=${this.accessToken}&fields=${fields}&time_increment=1&level=account${timeRange}`;
-    
-    console.log('🔗 Fetching insights from:', url.replace(this.accessToken, '[TOKEN]'));
-    
-    const response = await fetch(url);
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Insights API error:', response.status, errorText);
-      throw new Error(`Failed to fetch insights: ${response.status} - ${errorText}`);
-    }
-    
-    const data = await response.json();
-    console.log('📊 Insights response:', JSON.stringify(data, null, 2));
-    
-    if (data.error) {
-      throw new Error(`Facebook API error: ${data.error.message}`);
+    // One row per day; follow paging.next so ranges over a page are not cut short
+    let url: string | undefined = `${this.baseUrl}/${adAccountId}/insights?access_token=${this.accessToken}&fields=${fields}&time_increment=1&level=account&limit=500${timeRange}`;
+    const insights: any[] = [];
+
+    while (url) {
+      console.log('🔗 Fetching insights from:', url.replace(this.accessToken, '[TOKEN]'));
+
+      const response = await facebookRateLimiter.fetch(url);
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ Insights API error:', response.status, errorText);
+        throw new Error(`Failed to fetch insights: ${response.status} - ${errorText}`);
+      }
+
+      const data = await response.json();
+      console.log('📊 Insights response:', JSON.stringify(data, null, 2));
+
+      if (data.error) {
+        throw new Error(`Facebook API error: ${data.error.message}`);
+      }
+
+      insights.push(...(data.data || []));
+      url = data.paging?.next;
     }
-    
-    return data.data || [];
+
+    return insights;
   }
 
-  private calculateStats(insights: any[], dateRange?: DateRange, debug?: any): FacebookAdsStats {
+  private toMetrics(insight: any): FacebookAdsMetrics {
+    const spend = parseFloat(insight.spend || '0');
+    const clicks = parseInt(insight.clicks || '0');
+    const impressions = parseInt(insight.impressions || '0');
+    const ctr = parseFloat(insight.ctr || '0');
+    const cpc = parseFloat(insight.cpc || '0');
+    const reach = parseInt(insight.reach || '0');
+    const frequency = parseFloat(insight.frequency || '0');
+
+    // Extract leads from actions
+    const leads = this.extractActionValue(insight.actions, 'lead');
+    const purchases = this.extractActionValue(insight.actions, 'purchase');
+    const purchaseValue = this.extractActionValue(insight.action_values, 'purchase');
+
+    // Extract cost per actions
+    const costPerLead = this.extractCostPerAction(insight.cost_per_action_type, 'lead');
+    const costPerClick = parseFloat(insight.cpc || '0');
+
+    return {
+      date: insight.date_start,
+      spend,
+      impressions,
+      clicks,
+      ctr,
+      cpc,
+      reach,
+      frequency,
+      cpp: purchases > 0 ? spend / purchases : 0,
+      purchases,
+      purchaseValue,
+      leads,
+      costPerLead,
+      linkClicks: clicks, // Facebook API doesn't separate link clicks in basic insights
+      costPerClick
+    };
+  }
+
+  private calculateStats(dailyStats: FacebookAdsMetrics[], dateRange?: DateRange, debug?: any): FacebookAdsStats {
     let totalSpend = 0;
     let totalClicks = 0;
     let totalImpressions = 0;
@@ -217,50 +338,14 @@ export class FacebookAdsService {
     let totalPurchases = 0;
     let totalPurchaseValue = 0;
 
-    const dailyStats: FacebookAdsMetrics[] = insights.map(insight => {
-      const spend = parseFloat(insight.spend || '0');
-      const clicks = parseInt(insight.clicks || '0');
-      const impressions = parseInt(insight.impressions || '0');
-      const ctr = parseFloat(insight.ctr || '0');
-      const cpc = parseFloat(insight.cpc || '0');
-      const reach = parseInt(insight.reach || '0');
-      const frequency = parseFloat(insight.frequency || '0');
-
-      // Extract leads from actions
-      const leads = this.extractActionValue(insight.actions, 'lead');
-      const purchases = this.extractActionValue(insight.actions, 'purchase');
-      const purchaseValue = this.extractActionValue(insight.action_values, 'purchase');
-
-      // Extract cost per actions
-      const costPerLead = this.extractCostPerAction(insight.cost_per_action_type, 'lead');
-      const costPerClick = parseFloat(insight.cpc || '0');
-
-      // Update totals
-      totalSpend += spend;
-      totalClicks += clicks;
-      totalImpressions += impressions;
-      totalLeads += leads;
-      totalPurchases += purchases;
-      totalPurchaseValue += purchaseValue;
-
-      return {
-        date: insight.date_start,
-        spend,
-        impressions,
-        clicks,
-        ctr,
-        cpc,
-        reach,
-        frequency,
-        cpp: purchases > 0 ? spend / purchases : 0,
-        purchases,
-        purchaseValue,
-        leads,
-        costPerLead,
-        linkClicks: clicks, // Facebook API doesn't separate link clicks in basic insights
-        costPerClick
-      };
-    });
+    for (const day of dailyStats) {
+      totalSpend += day.spend;
+      totalClicks += day.clicks;
+      totalImpressions += day.impressions;
+      totalLeads += day.leads;
+      totalPurchases += day.purchases;
+      totalPurchaseValue += day.purchaseValue;
+    }
 
     // Calculate averages
     const averageCtr = totalImpressions > 0 ? (totalClicks / totalImpressions) * 100 : 0;
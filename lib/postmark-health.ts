@@ -0,0 +1,88 @@
+import { getPostmarkClient, PostmarkDomain } from '@/lib/postmark'
+
+export interface VerificationStatus {
+  dkim: boolean
+  spf: boolean
+  returnPath: boolean
+}
+
+export interface DomainHealth extends VerificationStatus {
+  name: string
+  healthy: boolean
+}
+
+export interface SenderSignatureHealth extends VerificationStatus {
+  email: string
+  name: string | null
+  domain: string
+  confirmed: boolean
+  healthy: boolean
+}
+
+export interface DeliverabilityHealth {
+  // False as soon as any domain or signature is unverified or unconfirmed
+  healthy: boolean
+  domains: DomainHealth[]
+  senders: SenderSignatureHealth[]
+  checkedAt: string
+}
+
+function isVerified(status: VerificationStatus): boolean {
+  return status.dkim && status.spf && status.returnPath
+}
+
+function domainStatus(domain: PostmarkDomain): VerificationStatus {
+  return {
+    dkim: domain.DKIMVerified,
+    spf: domain.SPFVerified,
+    returnPath: domain.ReturnPathDomainVerified
+  }
+}
+
+// DKIM, SPF and Return-Path verification for every domain and sender signature
+// on the account. Needs POSTMARK_ACCOUNT_TOKEN; the server token can't list them.
+export async function getDeliverabilityHealth(): Promise<DeliverabilityHealth> {
+  const postmark = getPostmarkClient()
+  const [domains, signatures] = await Promise.all([
+    postmark.getDomains(),
+    postmark.getSenderSignatures()
+  ])
+
+  const domainsByName = new Map<string, PostmarkDomain>()
+  domains.forEach(domain => domainsByName.set(domain.Name.toLowerCase(), domain))
+
+  const domainHealth: DomainHealth[] = domains
+    .map(domain => {
+      const status = domainStatus(domain)
+      return { name: domain.Name, ...status, healthy: isVerified(status) }
+    })
+    .sort((a, b) => Number(a.healthy) - Number(b.healthy) || a.name.localeCompare(b.name))
+
+  const senderHealth: SenderSignatureHealth[] = signatures
+    .map(signature => {
+      // Fall back to the matching domain when the signature leaves its status out
+      const domain = domainsByName.get(signature.Domain.toLowerCase())
+      const fallback = domain ? domainStatus(domain) : { dkim: false, spf: false, returnPath: false }
+      const status = {
+        dkim: signature.DKIMVerified ?? fallback.dkim,
+        spf: signature.SPFVerified ?? fallback.spf,
+        returnPath: signature.ReturnPathDomainVerified ?? fallback.returnPath
+      }
+      return {
+        email: signature.EmailAddress,
+        name: signature.Name ?? null,
+        domain: signature.Domain,
+        confirmed: signature.Confirmed,
+        ...status,
+        healthy: signature.Confirmed && isVerified(status)
+      }
+    })
+    .sort((a, b) => Number(a.healthy) - Number(b.healthy) || a.email.localeCompare(b.email))
+
+  return {
+    healthy: domainHealth.every(domain => domain.healthy) && senderHealth.every(sender => sender.healthy),
+    domains: domainHealth,
+    senders: senderHealth,
+    checkedAt: new Date().toISOString()
+  }
+}
@@ -0,0 +1,144 @@
+import { addDays, format, parseISO } from 'date-fns'
+import { prisma } from '@/lib/db'
+import { toStoredDate } from '@/lib/sync'
+
+export interface HeatmapFilters {
+  tag?: string
+  stream?: string
+  // IANA time zone the weekdays and hours are counted in, UTC by default
+  timeZone?: string
+}
+
+export interface HeatmapCell {
+  // 0 is Monday, 6 is Sunday
+  weekday: number
+  hour: number
+  opens: number
+  clicks: number
+}
+
+export interface HeatmapSlot {
+  weekday: number
+  hour: number
+  count: number
+}
+
+export interface EngagementHeatmap {
+  timeZone: string
+  // One cell per weekday and hour, Monday 00:00 first
+  cells: HeatmapCell[]
+  totals: { opens: number; clicks: number }
+  // Busiest weekday and hour, or null without any events
+  peakOpens: HeatmapSlot | null
+  peakClicks: HeatmapSlot | null
+  // Tags of the events in the range, before the tag filter
+  tags: string[]
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Minutes the time zone is ahead of UTC at the instant
+function zoneOffset(instant: Date, timeZone: string): number {
+  // Formats as "01/02/2023, 09:00:00"; some runtimes write midnight as 24
+  const local = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour12: false,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).format(instant)
+  const [month, day, year, hour, minute, second] = local.split(/\D+/).map(part => parseInt(part))
+  const asUtc = Date.UTC(year, month - 1, day, hour % 24, minute, second)
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000)
+}
+
+// The instant the day starts in the time zone
+function zonedMidnight(date: string, timeZone: string): Date {
+  const utcMidnight = toStoredDate(date).getTime()
+  const guess = utcMidnight - zoneOffset(new Date(utcMidnight), timeZone) * 60000
+  // Correct for an offset change (daylight saving) between the two instants
+  return new Date(utcMidnight - zoneOffset(new Date(guess), timeZone) * 60000)
+}
+
+function peak(cells: HeatmapCell[], metric: 'opens' | 'clicks'): HeatmapSlot | null {
+  const best = cells.reduce<HeatmapCell | null>((top, cell) => cell[metric] > (top ? top[metric] : 0) ? cell : top, null)
+  return best ? { weekday: best.weekday, hour: best.hour, count: best[metric] } : null
+}
+
+// Counts stored open and click events (synced by the caller) per weekday and
+// hour of the time zone. Every event counts, so repeat opens and clicks by the
+// same recipient show up as well.
+export async function getEngagementHeatmap(fromDate: string, toDate: string, filters: HeatmapFilters = {}): Promise<EngagementHeatmap> {
+  const timeZone = filters.timeZone ?? 'UTC'
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone: ${timeZone}`)
+  }
+
+  // The range covers whole days of the time zone
+  const events = await prisma.postmarkEvent.findMany({
+    where: {
+      recordType: { in: ['Open', 'Click'] },
+      messageStream: filters.stream,
+      occurredAt: {
+        gte: zonedMidnight(fromDate, timeZone),
+        lt: zonedMidnight(format(addDays(parseISO(toDate), 1), 'yyyy-MM-dd'), timeZone)
+      }
+    },
+    select: { recordType: true, tag: true, occurredAt: true }
+  })
+
+  const weekdayFormat = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short' })
+  // Some runtimes format midnight as 24 with hour12 off
+  const hourFormat = new Intl.DateTimeFormat('en-US', { timeZone, hour: '2-digit', hour12: false })
+
+  const cells: HeatmapCell[] = []
+  WEEKDAYS.forEach((_, weekday) => {
+    for (let hour = 0; hour < 24; hour++) {
+      cells.push({ weekday, hour, opens: 0, clicks: 0 })
+    }
+  })
+
+  const tags = new Set<string>()
+  const totals = { opens: 0, clicks: 0 }
+
+  events.forEach(event => {
+    if (event.tag) {
+      tags.add(event.tag)
+    }
+    if (filters.tag && event.tag !== filters.tag) return
+
+    const weekday = WEEKDAYS.indexOf(weekdayFormat.format(event.occurredAt))
+    const hour = parseInt(hourFormat.format(event.occurredAt)) % 24
+    const cell = cells[weekday * 24 + hour]
+    if (!cell) return
+
+    if (event.recordType === 'Open') {
+      cell.opens++
+      totals.opens++
+    } else {
+      cell.clicks++
+      totals.clicks++
+    }
+  })
+
+  return {
+    timeZone,
+    cells,
+    totals,
+    peakOpens: peak(cells, 'opens'),
+    peakClicks: peak(cells, 'clicks'),
+    tags: Array.from(tags).sort()
+  }
+}
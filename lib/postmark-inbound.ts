@@ -0,0 +1,145 @@
+import { format } from 'date-fns'
+import { getPostmarkClient } from '@/lib/postmark'
+import { getServerClient, PostmarkServerConfig } from '@/lib/postmark-servers'
+import { daysInRange } from '@/lib/sync'
+
+export type InboundStatus = 'processed' | 'failed' | 'blocked' | 'queued'
+
+export interface InboundDailyStats {
+  date: string
+  received: number
+  processed: number
+  failed: number
+  blocked: number
+  queued: number
+}
+
+export interface InboundSenderDomain {
+  domain: string
+  messages: number
+  failed: number
+  blocked: number
+}
+
+export interface FailedInboundMessage {
+  messageId: string
+  from: string
+  fromName: string | null
+  to: string | null
+  subject: string | null
+  date: string
+  tag: string | null
+  // True while Postmark still has a retry of the webhook delivery scheduled
+  retrying: boolean
+}
+
+export interface InboundReport {
+  summary: {
+    received: number
+    processed: number
+    failed: number
+    blocked: number
+    queued: number
+    // Failed messages Postmark will retry
+    retrying: number
+    failureRate: number
+  }
+  daily: InboundDailyStats[]
+  topSenderDomains: InboundSenderDomain[]
+  // Newest first
+  failed: FailedInboundMessage[]
+}
+
+const TOP_SENDER_DOMAINS = 10
+
+function calculateRate(numerator: number, denominator: number): number {
+  if (denominator === 0) return 0
+  return Math.round((numerator / denominator) * 10000) / 100
+}
+
+// Scheduled messages failed to reach the inbound webhook and are waiting for
+// a retry, so they count as failed too
+export function getInboundStatus(status: string): InboundStatus {
+  switch (status.toLowerCase()) {
+    case 'processed':
+      return 'processed'
+    case 'failed':
+    case 'scheduled':
+      return 'failed'
+    case 'blocked':
+      return 'blocked'
+    default:
+      return 'queued'
+  }
+}
+
+function senderDomain(from: string): string {
+  const at = from.lastIndexOf('@')
+  return at === -1 ? from.toLowerCase() : from.slice(at + 1).replace(/>$/, '').toLowerCase()
+}
+
+function emptyDay(date: string): InboundDailyStats {
+  return { date, received: 0, processed: 0, failed: 0, blocked: 0, queued: 0 }
+}
+
+// Inbound messages aren't covered by the /stats endpoints, so the report is
+// built from the inbound messages received in the range. The server defaults
+// to the primary one.
+export async function getInboundReport(fromDate: string, toDate: string, server?: PostmarkServerConfig): Promise<InboundReport> {
+  const postmark = server ? getServerClient(server) : getPostmarkClient()
+  const messages = await postmark.getAllInboundMessages(fromDate, toDate)
+
+  const days = new Map<string, InboundDailyStats>(daysInRange(fromDate, toDate).map(date => [date, emptyDay(date)]))
+  const domains = new Map<string, InboundSenderDomain>()
+  const summary = { received: 0, processed: 0, failed: 0, blocked: 0, queued: 0, retrying: 0, failureRate: 0 }
+  const failed: Array<FailedInboundMessage & { sentAt: number }> = []
+
+  messages.forEach(message => {
+    const status = getInboundStatus(message.Status)
+    summary.received++
+    summary[status]++
+
+    // Messages are bucketed by their Date header, which can fall just outside
+    // the range Postmark filtered on; those still count in the totals
+    const sentAt = new Date(message.Date)
+    const day = isNaN(sentAt.getTime()) ? undefined : days.get(format(sentAt, 'yyyy-MM-dd'))
+    if (day) {
+      day.received++
+      day[status]++
+    }
+
+    const name = senderDomain(message.From)
+    const domain = domains.get(name) ?? { domain: name, messages: 0, failed: 0, blocked: 0 }
+    domain.messages++
+    domain.failed += status === 'failed' ? 1 : 0
+    domain.blocked += status === 'blocked' ? 1 : 0
+    domains.set(name, domain)
+
+    if (status === 'failed') {
+      const retrying = message.Status.toLowerCase() === 'scheduled'
+      summary.retrying += retrying ? 1 : 0
+      failed.push({
+        messageId: message.MessageID,
+        from: message.From,
+        fromName: message.FromName || null,
+        to: message.OriginalRecipient || message.To || null,
+        subject: message.Subject ?? null,
+        date: isNaN(sentAt.getTime()) ? message.Date : sentAt.toISOString(),
+        tag: message.Tag || null,
+        retrying,
+        sentAt: sentAt.getTime() || 0
+      })
+    }
+  })
+
+  return {
+    summary: { ...summary, failureRate: calculateRate(summary.failed, summary.received) },
+    daily: Array.from(days.values()),
+    topSenderDomains: Array.from(domains.values())
+      .sort((a, b) => b.messages - a.messages || a.domain.localeCompare(b.domain))
+      .slice(0, TOP_SENDER_DOMAINS),
+    failed: failed
+      .sort((a, b) => b.sentAt - a.sentAt)
+      .map(({ sentAt, ...message }) => message)
+  }
+}
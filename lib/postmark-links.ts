@@ -0,0 +1,145 @@
+import { prisma } from '@/lib/db'
+import { getPostmarkClient } from '@/lib/postmark'
+import { getPrimaryServer } from '@/lib/postmark-servers'
+import { serverEventFilter, storePostmarkEvents } from '@/lib/postmark-webhooks'
+import { ALL_STREAMS, ALL_TAGS, getSnapshots } from '@/lib/stat-snapshots'
+import { daysInRange, fromStoredDate, getLookbackDays, SyncSource, toStoredDate } from '@/lib/sync'
+
+export interface LinkFilters {
+  tag?: string
+  stream?: string
+}
+
+export interface LinkStats {
+  url: string
+  tag: string | null
+  totalClicks: number
+  uniqueClicks: number
+  clickToOpenRate: number
+}
+
+export interface LinkDailyStats {
+  date: string
+  totalClicks: number
+  uniqueClicks: number
+}
+
+export interface LinkReport {
+  summary: {
+    links: number
+    totalClicks: number
+    uniqueClicks: number
+    opened: number
+    clickToOpenRate: number
+  }
+  byLink: LinkStats[]
+  daily: LinkDailyStats[]
+}
+
+function calculateRate(numerator: number, denominator: number): number {
+  if (denominator === 0) return 0
+  return Math.round((numerator / denominator) * 10000) / 100
+}
+
+// Imports click events from Postmark's message clicks API into PostmarkEvent,
+// so ranges from before the webhook was set up are covered too. Events that
+// already arrived by webhook are skipped by the idempotent store.
+export async function syncClickEvents(fromDate: string, toDate: string): Promise<number> {
+  const clicks = await getPostmarkClient().getAllClicks(fromDate, toDate)
+
+  await storePostmarkEvents(clicks)
+
+  console.log(`Imported ${clicks.length} click events from ${fromDate} to ${toDate}`)
+  return clicks.length
+}
+
+export const postmarkClickSyncSource: SyncSource = {
+  name: 'postmark:clicks',
+  lookbackDays: getLookbackDays('POSTMARK_SYNC_LOOKBACK_DAYS', 2),
+  minIntervalMinutes: getLookbackDays('POSTMARK_SYNC_INTERVAL_MINUTES', 15),
+  syncRange: async (fromDate, toDate) => {
+    await syncClickEvents(fromDate, toDate)
+  }
+}
+
+// Aggregates stored click events per original URL and tag. Unique clicks count
+// distinct recipients, and click-to-open compares them with the unique opens
+// of the same tag from the primary server's StatSnapshot rows. Clicks are
+// synced from that server only, and clicks that webhooks of other servers
+// stored are left out so both sides cover the same server. Untagged links are
+// compared with the opens of every message in the filter.
+export async function getLinkReport(fromDate: string, toDate: string, filters: LinkFilters = {}): Promise<LinkReport> {
+  const server = await getPrimaryServer()
+  const [events, snapshots] = await Promise.all([
+    prisma.postmarkEvent.findMany({
+      where: {
+        ...serverEventFilter(server),
+        recordType: 'Click',
+        tag: filters.tag,
+        messageStream: filters.stream,
+        occurredAt: {
+          gte: toStoredDate(fromDate),
+          lt: new Date(toStoredDate(toDate).getTime() + 24 * 60 * 60 * 1000)
+        }
+      },
+      select: { originalLink: true, tag: true, recipient: true, occurredAt: true }
+    }),
+    getSnapshots(fromDate, toDate, [server.id])
+  ])
+
+  const opened = new Map<string, number>()
+  snapshots
+    .filter(snapshot => snapshot.stream === (filters.stream ?? ALL_STREAMS))
+    .forEach(snapshot => opened.set(snapshot.tag, (opened.get(snapshot.tag) ?? 0) + snapshot.opened))
+  const totalOpened = opened.get(filters.tag ?? ALL_TAGS) ?? 0
+
+  const links = new Map<string, { url: string; tag: string | null; clicks: number; recipients: Set<string> }>()
+  const days = new Map<string, { clicks: number; recipients: Set<string> }>()
+  const recipients = new Set<string>()
+
+  events.forEach(event => {
+    if (!event.originalLink) return
+
+    const key = `${event.tag ?? ''}|${event.originalLink}`
+    const link = links.get(key) ?? { url: event.originalLink, tag: event.tag, clicks: 0, recipients: new Set<string>() }
+    link.clicks++
+    link.recipients.add(event.recipient)
+    links.set(key, link)
+
+    const date = fromStoredDate(event.occurredAt)
+    const day = days.get(date) ?? { clicks: 0, recipients: new Set<string>() }
+    day.clicks++
+    day.recipients.add(event.recipient)
+    days.set(date, day)
+
+    recipients.add(event.recipient)
+  })
+
+  const byLink: LinkStats[] = Array.from(links.values())
+    .map(link => ({
+      url: link.url,
+      tag: link.tag,
+      totalClicks: link.clicks,
+      uniqueClicks: link.recipients.size,
+      clickToOpenRate: calculateRate(link.recipients.size, link.tag ? opened.get(link.tag) ?? 0 : totalOpened)
+    }))
+    .sort((a, b) => b.totalClicks - a.totalClicks)
+
+  const daily: LinkDailyStats[] = daysInRange(fromDate, toDate).map(date => ({
+    date,
+    totalClicks: days.get(date)?.clicks ?? 0,
+    uniqueClicks: days.get(date)?.recipients.size ?? 0
+  }))
+
+  return {
+    summary: {
+      links: byLink.length,
+      totalClicks: events.filter(event => event.originalLink).length,
+      uniqueClicks: recipients.size,
+      opened: totalOpened,
+      clickToOpenRate: calculateRate(recipients.size, totalOpened)
+    },
+    byLink,
+    daily
+  }
+}
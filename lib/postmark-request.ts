@@ -0,0 +1,63 @@
+import type { NextApiRequest } from 'next'
+import { addDays, format, parseISO, subDays } from 'date-fns'
+import { getPrimaryServer, getServerStreams } from '@/lib/postmark-servers'
+import { runSync, SyncRange, SyncSource } from '@/lib/sync'
+
+// Query handling shared by the Postmark API routes
+
+export interface StreamOption {
+  id: string
+  name: string
+}
+
+// A single, non-empty query parameter
+export function queryString(value: string | string[] | undefined): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined
+}
+
+// The from and to dates of the request, or the last `days` days (30 by default)
+export function getDateRange(query: NextApiRequest['query']): SyncRange {
+  const { days = '30', from, to } = query
+
+  let fromDate: Date
+  let toDate: Date
+
+  if (from && to) {
+    fromDate = new Date(from as string)
+    toDate = new Date(to as string)
+  } else {
+    toDate = new Date()
+    fromDate = subDays(toDate, parseInt(days as string))
+  }
+
+  return { from: format(fromDate, 'yyyy-MM-dd'), to: format(toDate, 'yyyy-MM-dd') }
+}
+
+// The range plus a day on either side, for reports that count events in a
+// time zone other than UTC and so reach into the neighbouring UTC days
+export function widenRange(range: SyncRange): SyncRange {
+  return {
+    from: format(subDays(parseISO(range.from), 1), 'yyyy-MM-dd'),
+    to: format(addDays(parseISO(range.to), 1), 'yyyy-MM-dd')
+  }
+}
+
+// Reports built from stored events import whatever the webhooks missed first.
+// `events` names what is fetched in the error message.
+export async function syncEvents(sources: SyncSource[], range: SyncRange, events: string): Promise<void> {
+  try {
+    for (const source of sources) {
+      await runSync(source, range)
+    }
+  } catch (apiError) {
+    console.error('Postmark API error:', apiError)
+    throw new Error(`Failed to fetch ${events} from Postmark: ${apiError instanceof Error ? apiError.message : 'Unknown error'}`)
+  }
+}
+
+// Outbound streams of the primary server for the stream filters; empty when
+// Postmark can't be reached
+export async function getStreamOptions(): Promise<StreamOption[]> {
+  const streams = await getServerStreams(await getPrimaryServer())
+  return streams.map(info => ({ id: info.ID, name: info.Name }))
+}
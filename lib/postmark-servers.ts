@@ -0,0 +1,121 @@
+import PostmarkAPI, { getPostmarkClient, getPrimaryServerToken, parseServerTokens, PostmarkMessageStream } from '@/lib/postmark'
+import { getStateStore } from '@/lib/state-store'
+
+// Server ID of the single server configured with POSTMARK_SERVER_TOKEN, and
+// of every StatSnapshot row synced before multiple servers were supported
+export const DEFAULT_SERVER = 'default'
+
+// Server value used for totals across every server
+export const ALL_SERVERS = '__all__'
+
+export interface PostmarkServerConfig {
+  id: string
+  name: string
+  token: string
+  // The server getPostmarkClient() talks to, which also receives the
+  // webhooks and event imports that aren't tagged with a server
+  primary: boolean
+}
+
+// Discovered servers are re-listed at most this often
+const DISCOVERY_TTL_MS = 10 * 60 * 1000
+
+// Stream names only change when a stream is added or renamed in Postmark
+const STREAMS_TTL_MS = 60 * 60 * 1000
+
+let discovered: { servers: PostmarkServerConfig[]; expiresAt: number } | null = null
+const clients = new Map<string, PostmarkAPI>()
+
+function withPrimary(servers: Omit<PostmarkServerConfig, 'primary'>[]): PostmarkServerConfig[] {
+  const primaryToken = process.env.POSTMARK_SERVER_TOKEN
+  const primaryIndex = Math.max(0, servers.findIndex(server => server.token === primaryToken))
+  return servers.map((server, index) => ({ ...server, primary: index === primaryIndex }))
+}
+
+async function discoverServers(): Promise<PostmarkServerConfig[]> {
+  if (discovered && discovered.expiresAt > Date.now()) {
+    return discovered.servers
+  }
+
+  const accountToken = process.env.POSTMARK_ACCOUNT_TOKEN
+  if (!accountToken) {
+    throw new Error('POSTMARK_ACCOUNT_TOKEN environment variable is required to discover Postmark servers')
+  }
+
+  const servers = await new PostmarkAPI('', accountToken).getServers()
+  const configs = withPrimary(servers
+    .filter(server => server.ApiTokens.length > 0)
+    .map(server => ({ id: String(server.ID), name: server.Name, token: server.ApiTokens[0] })))
+
+  discovered = { servers: configs, expiresAt: Date.now() + DISCOVERY_TTL_MS }
+  return configs
+}
+
+// The servers to report on, from the first of:
+// - POSTMARK_SERVER_TOKENS, named tokens per server
+// - every server on the account, when POSTMARK_DISCOVER_SERVERS=true
+// - POSTMARK_SERVER_TOKEN, as the single "default" server
+export async function getPostmarkServers(): Promise<PostmarkServerConfig[]> {
+  const named = parseServerTokens(process.env.POSTMARK_SERVER_TOKENS)
+  if (named.length > 0) {
+    return withPrimary(named.map(server => ({ ...server, name: server.id })))
+  }
+
+  if (process.env.POSTMARK_DISCOVER_SERVERS === 'true') {
+    return discoverServers()
+  }
+
+  const token = getPrimaryServerToken()
+  if (!token) {
+    throw new Error('POSTMARK_SERVER_TOKEN environment variable is not set')
+  }
+  return [{ id: DEFAULT_SERVER, name: 'Default', token, primary: true }]
+}
+
+export async function getPrimaryServer(): Promise<PostmarkServerConfig> {
+  const servers = await getPostmarkServers()
+  return servers.find(server => server.primary) ?? servers[0]
+}
+
+export function getServerClient(server: PostmarkServerConfig): PostmarkAPI {
+  if (server.token === getPrimaryServerToken()) {
+    return getPostmarkClient()
+  }
+
+  let client = clients.get(server.token)
+  if (!client) {
+    client = new PostmarkAPI(server.token, process.env.POSTMARK_ACCOUNT_TOKEN)
+    clients.set(server.token, client)
+  }
+  return client
+}
+
+function streamsKey(server: PostmarkServerConfig): string {
+  return `postmark:streams:${server.id}`
+}
+
+// Keeps a stream list fetched elsewhere (such as during a sync) for getServerStreams
+export async function cacheServerStreams(server: PostmarkServerConfig, streams: PostmarkMessageStream[]): Promise<void> {
+  await getStateStore().set(streamsKey(server), streams, STREAMS_TTL_MS).catch(error => {
+    console.warn(`Could not cache the message streams of server ${server.id}:`, error)
+  })
+}
+
+// The server's outbound streams, listed from Postmark at most once an hour.
+// The names are only used for display, so callers get an empty list when
+// Postmark can't be reached and fall back to the stream IDs.
+export async function getServerStreams(server: PostmarkServerConfig): Promise<PostmarkMessageStream[]> {
+  const cached = await getStateStore().get<PostmarkMessageStream[]>(streamsKey(server)).catch(() => undefined)
+  if (cached) {
+    return cached
+  }
+
+  try {
+    const streams = await getServerClient(server).getOutboundStreams()
+    await cacheServerStreams(server, streams)
+    return streams
+  } catch (error) {
+    console.warn(`Could not list Postmark message streams of server ${server.id}:`, error)
+    return []
+  }
+}
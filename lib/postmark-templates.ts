@@ -0,0 +1,200 @@
+import { prisma } from '@/lib/db'
+import { getPostmarkClient, PostmarkOutboundMessage } from '@/lib/postmark'
+import { daysInRange, toStoredDate } from '@/lib/sync'
+
+export interface TemplateFilters {
+  stream?: string
+  // Template ID, or alias for templates that no longer exist; limits the daily series
+  template?: string
+}
+
+export interface TemplateStats {
+  id: string
+  name: string
+  alias: string | null
+  sent: number
+  delivered: number
+  opened: number
+  clicked: number
+  bounced: number
+  openRate: number
+  clickRate: number
+  bounceRate: number
+}
+
+export interface TemplateDailyStats {
+  date: string
+  sent: number
+  opened: number
+  clicked: number
+  bounced: number
+}
+
+export interface TemplateReport {
+  summary: {
+    templates: number
+    sent: number
+    openRate: number
+    clickRate: number
+    bounceRate: number
+    // Messages in the range that were sent without a template
+    untemplated: number
+    // Messages Postmark matched in the range. Message search stops at 10,000
+    // results, so when this is higher the report only covers the newest ones.
+    totalMessages: number
+    truncated: boolean
+  }
+  byTemplate: TemplateStats[]
+  daily: TemplateDailyStats[]
+}
+
+function calculateRate(numerator: number, denominator: number): number {
+  if (denominator === 0) return 0
+  return Math.round((numerator / denominator) * 10000) / 100
+}
+
+function templateKey(message: PostmarkOutboundMessage, idsByAlias: Map<string, string>): string | null {
+  if (message.TemplateId !== null && message.TemplateId !== undefined) {
+    return String(message.TemplateId)
+  }
+  if (message.TemplateAlias) {
+    return idsByAlias.get(message.TemplateAlias) ?? message.TemplateAlias
+  }
+  return null
+}
+
+// Postmark's stats endpoints only break down by tag, so per-template stats are
+// built from the outbound messages sent in the range: opens and clicks from
+// stored PostmarkEvent rows (synced by the caller), bounces from the bounces
+// API. Each metric counts messages, so opens and clicks are unique per message.
+// Ranges with more messages than Postmark's search returns are flagged as
+// truncated rather than silently undercounted.
+export async function getTemplateReport(fromDate: string, toDate: string, filters: TemplateFilters = {}): Promise<TemplateReport> {
+  const postmark = getPostmarkClient()
+  const [templates, { messages, totalCount }, bounces] = await Promise.all([
+    postmark.getTemplates(),
+    postmark.getOutboundMessagesWithTotal(fromDate, toDate, { stream: filters.stream }),
+    postmark.getAllBounces(fromDate, toDate, { stream: filters.stream })
+  ])
+
+  const standard = templates.filter(template => template.TemplateType !== 'Layout')
+  const idsByAlias = new Map<string, string>()
+  standard.forEach(template => {
+    if (template.Alias) {
+      idsByAlias.set(template.Alias, String(template.TemplateId))
+    }
+  })
+
+  const templateByMessage = new Map<string, string>()
+  messages.forEach(message => {
+    const key = templateKey(message, idsByAlias)
+    if (key) {
+      templateByMessage.set(message.MessageID, key)
+    }
+  })
+
+  // Opens and clicks can come in after the range ends, so only the start is bounded
+  const events = await prisma.postmarkEvent.findMany({
+    where: {
+      recordType: { in: ['Open', 'Click'] },
+      messageStream: filters.stream,
+      occurredAt: { gte: toStoredDate(fromDate) }
+    },
+    select: { recordType: true, messageId: true }
+  })
+
+  const opened = new Set<string>()
+  const clicked = new Set<string>()
+  events.forEach(event => {
+    if (!templateByMessage.has(event.messageId)) return
+    if (event.recordType === 'Open') {
+      opened.add(event.messageId)
+    } else {
+      clicked.add(event.messageId)
+    }
+  })
+
+  // SMTP API errors never reached a mailbox, as in the daily stats
+  const bounced = new Set<string>()
+  bounces.forEach(bounce => {
+    if (bounce.MessageID && bounce.Type !== 'SMTPApiError' && templateByMessage.has(bounce.MessageID)) {
+      bounced.add(bounce.MessageID)
+    }
+  })
+
+  const stats = new Map<string, TemplateStats>()
+  standard.forEach(template => {
+    const id = String(template.TemplateId)
+    stats.set(id, {
+      id,
+      name: template.Name,
+      alias: template.Alias ?? null,
+      sent: 0, delivered: 0, opened: 0, clicked: 0, bounced: 0,
+      openRate: 0, clickRate: 0, bounceRate: 0
+    })
+  })
+
+  const days = new Map<string, TemplateDailyStats>()
+  let untemplated = 0
+
+  messages.forEach(message => {
+    const key = templateByMessage.get(message.MessageID)
+    if (!key) {
+      untemplated++
+      return
+    }
+
+    // Deleted templates are only known by the ID or alias on their messages
+    const row = stats.get(key) ?? {
+      id: key,
+      name: message.TemplateAlias || `Template ${key}`,
+      alias: message.TemplateAlias ?? null,
+      sent: 0, delivered: 0, opened: 0, clicked: 0, bounced: 0,
+      openRate: 0, clickRate: 0, bounceRate: 0
+    }
+    const id = message.MessageID
+    row.sent++
+    row.opened += opened.has(id) ? 1 : 0
+    row.clicked += clicked.has(id) ? 1 : 0
+    row.bounced += bounced.has(id) ? 1 : 0
+    stats.set(key, row)
+
+    if (filters.template && filters.template !== key) return
+
+    // ReceivedAt is in the account's timezone, like the dates of the stats endpoints
+    const date = message.ReceivedAt.slice(0, 10)
+    const day = days.get(date) ?? { date, sent: 0, opened: 0, clicked: 0, bounced: 0 }
+    day.sent++
+    day.opened += opened.has(id) ? 1 : 0
+    day.clicked += clicked.has(id) ? 1 : 0
+    day.bounced += bounced.has(id) ? 1 : 0
+    days.set(date, day)
+  })
+
+  const byTemplate = Array.from(stats.values())
+    .map(row => ({
+      ...row,
+      delivered: Math.max(0, row.sent - row.bounced),
+      openRate: calculateRate(row.opened, row.sent),
+      clickRate: calculateRate(row.clicked, row.sent),
+      bounceRate: calculateRate(row.bounced, row.sent)
+    }))
+    .sort((a, b) => b.sent - a.sent || a.name.localeCompare(b.name))
+
+  const sent = templateByMessage.size
+
+  return {
+    summary: {
+      templates: byTemplate.filter(row => row.sent > 0).length,
+      sent,
+      openRate: calculateRate(opened.size, sent),
+      clickRate: calculateRate(clicked.size, sent),
+      bounceRate: calculateRate(bounced.size, sent),
+      untemplated,
+      totalMessages: totalCount,
+      truncated: totalCount > messages.length
+    },
+    byTemplate,
+    daily: daysInRange(fromDate, toDate).map(date => days.get(date) ?? { date, sent: 0, opened: 0, clicked: 0, bounced: 0 })
+  }
+}
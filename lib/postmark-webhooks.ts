@@ -0,0 +1,153 @@
+import { timingSafeEqual } from 'crypto'
+import type { IncomingHttpHeaders } from 'http'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { PostmarkWebhook } from '@/lib/postmark'
+import type { PostmarkServerConfig } from '@/lib/postmark-servers'
+import { fromStoredDate, toStoredDate } from '@/lib/sync'
+
+export interface WebhookAuthResult {
+  authorized: boolean
+  error?: string
+}
+
+export interface UnsubscribeEventCount {
+  stream: string
+  tag: string | null
+  date: string
+  count: number
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+}
+
+// Postmark webhooks can authenticate either with basic auth credentials in
+// the webhook URL or with a custom header. The shared secret is also accepted
+// as a ?secret= query parameter for setups that can't add headers.
+export function authenticateWebhook(
+  headers: IncomingHttpHeaders,
+  query: Partial<Record<string, string | string[]>>
+): WebhookAuthResult {
+  const username = process.env.POSTMARK_WEBHOOK_USERNAME
+  const password = process.env.POSTMARK_WEBHOOK_PASSWORD
+  const secret = process.env.POSTMARK_WEBHOOK_SECRET
+
+  if (!(username && password) && !secret) {
+    return { authorized: false, error: 'Webhook authentication is not configured' }
+  }
+
+  const authorization = headers.authorization
+  if (username && password && authorization?.startsWith('Basic ')) {
+    const credentials = Buffer.from(authorization.slice('Basic '.length), 'base64').toString()
+    if (safeEqual(credentials, `${username}:${password}`)) {
+      return { authorized: true }
+    }
+  }
+
+  const providedSecret = headers['x-webhook-secret'] ?? query.secret
+  if (secret && typeof providedSecret === 'string' && safeEqual(providedSecret, secret)) {
+    return { authorized: true }
+  }
+
+  return { authorized: false, error: 'Invalid webhook credentials' }
+}
+
+function getEventDetails(event: PostmarkWebhook) {
+  switch (event.RecordType) {
+    case 'Delivery':
+      return { recipient: event.Recipient, occurredAt: event.DeliveredAt }
+    case 'Bounce':
+    case 'SpamComplaint':
+      return { recipient: event.Email, occurredAt: event.BouncedAt, bounceType: event.Type }
+    case 'Open':
+      return { recipient: event.Recipient, occurredAt: event.ReceivedAt }
+    case 'Click':
+      return { recipient: event.Recipient, occurredAt: event.ReceivedAt, originalLink: event.OriginalLink }
+    case 'SubscriptionChange':
+      return { recipient: event.Recipient, occurredAt: event.ChangedAt, suppressSending: event.SuppressSending }
+  }
+}
+
+// Postmark retries failed deliveries, so events are keyed on type, message,
+// recipient and time and stored at most once. server is the ID of the
+// Postmark server that sent the event, if it isn't the primary one.
+function upsertPostmarkEvent(event: PostmarkWebhook, payload: unknown, server?: string) {
+  const { recipient, occurredAt, ...details } = getEventDetails(event)
+  const key = {
+    recordType: event.RecordType,
+    messageId: event.MessageID,
+    recipient: recipient.toLowerCase(),
+    occurredAt: new Date(occurredAt)
+  }
+
+  return prisma.postmarkEvent.upsert({
+    where: { recordType_messageId_recipient_occurredAt: key },
+    create: {
+      ...key,
+      ...details,
+      tag: event.Tag || null,
+      messageStream: event.MessageStream ?? null,
+      server: server ?? null,
+      payload: JSON.stringify(payload)
+    },
+    update: {}
+  })
+}
+
+export async function storePostmarkEvent(event: PostmarkWebhook, payload: unknown, server?: string): Promise<void> {
+  await upsertPostmarkEvent(event, payload, server)
+}
+
+const EVENT_BATCH_SIZE = 500
+
+// Stores imported events (each its own payload) a batch per transaction
+// rather than one write at a time
+export async function storePostmarkEvents(events: PostmarkWebhook[]): Promise<void> {
+  for (let start = 0; start < events.length; start += EVENT_BATCH_SIZE) {
+    await prisma.$transaction(events.slice(start, start + EVENT_BATCH_SIZE).map(event => upsertPostmarkEvent(event, event)))
+  }
+}
+
+// Events of the server. Synced events and webhooks posted without ?server=
+// are stored without one and belong to the primary server.
+export function serverEventFilter(server: Pick<PostmarkServerConfig, 'id' | 'primary'>): Prisma.PostmarkEventWhereInput {
+  return { OR: server.primary ? [{ server: server.id }, { server: null }] : [{ server: server.id }] }
+}
+
+// Unsubscribes received as SubscriptionChange webhooks, per stream, tag and
+// UTC day. Unlike the suppressions API these carry the tag of the message
+// the recipient unsubscribed from. Pass a server to count only its events;
+// events without a server belong to the primary server.
+export async function getUnsubscribeEventCounts(
+  fromDate: string,
+  toDate: string,
+  server?: Pick<PostmarkServerConfig, 'id' | 'primary'>
+): Promise<UnsubscribeEventCount[]> {
+  const events = await prisma.postmarkEvent.findMany({
+    where: {
+      ...(server && serverEventFilter(server)),
+      recordType: 'SubscriptionChange',
+      suppressSending: true,
+      occurredAt: {
+        gte: toStoredDate(fromDate),
+        lt: new Date(toStoredDate(toDate).getTime() + 24 * 60 * 60 * 1000)
+      }
+    },
+    select: { tag: true, messageStream: true, occurredAt: true }
+  })
+
+  const counts = new Map<string, UnsubscribeEventCount>()
+  events.forEach(event => {
+    const date = fromStoredDate(event.occurredAt)
+    const stream = event.messageStream || 'outbound'
+    const key = `${stream}|${event.tag ?? ''}|${date}`
+    const entry = counts.get(key) ?? { stream, tag: event.tag, date, count: 0 }
+    entry.count++
+    counts.set(key, entry)
+  })
+
+  return Array.from(counts.values())
+}
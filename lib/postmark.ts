@@ -1,4 +1,6 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns'
 import { z } from 'zod'
+import { postmarkRateLimiter } from '@/lib/rate-limiter'
 
 // Postmark API Types
 export const PostmarkStatsSchema = z.object({
@@ -29,55 +31,501 @@ export const PostmarkErrorSchema = z.object({
   Message: z.string()
 })
 
+// Aggregate totals returned by /stats/outbound
+export const PostmarkOverviewSchema = z.object({
+  Sent: z.number().default(0),
+  Bounced: z.number().default(0),
+  SMTPApiErrors: z.number().default(0),
+  BounceRate: z.number().default(0),
+  SpamComplaints: z.number().default(0),
+  SpamComplaintsRate: z.number().default(0),
+  Opens: z.number().default(0),
+  UniqueOpens: z.number().default(0),
+  TotalClicks: z.number().default(0),
+  UniqueLinksClicked: z.number().default(0)
+})
+
+export const PostmarkServerSchema = z.object({
+  ID: z.number(),
+  Name: z.string(),
+  Color: z.string().nullish(),
+  DeliveryType: z.string().optional(),
+  ServerLink: z.string().nullish(),
+  InboundAddress: z.string().nullish(),
+  TrackOpens: z.boolean().optional(),
+  TrackLinks: z.string().optional(),
+  // Only returned by the account-level /servers endpoint
+  ApiTokens: z.array(z.string()).default([])
+})
+
+export const PostmarkServersSchema = z.object({
+  TotalCount: z.number(),
+  Servers: z.array(PostmarkServerSchema)
+})
+
+// Account-level endpoints, which need the account token
+export const PostmarkDomainSchema = z.object({
+  ID: z.number(),
+  Name: z.string(),
+  SPFVerified: z.boolean().default(false),
+  DKIMVerified: z.boolean().default(false),
+  WeakDKIM: z.boolean().default(false),
+  ReturnPathDomainVerified: z.boolean().default(false)
+})
+
+export const PostmarkDomainsSchema = z.object({
+  TotalCount: z.number(),
+  Domains: z.array(PostmarkDomainSchema)
+})
+
+// Signatures on a verified domain report that domain's DKIM, SPF and
+// Return-Path status; older responses leave them out
+export const PostmarkSenderSignatureSchema = z.object({
+  ID: z.number(),
+  Domain: z.string(),
+  EmailAddress: z.string(),
+  Name: z.string().nullish(),
+  Confirmed: z.boolean().default(false),
+  SPFVerified: z.boolean().optional(),
+  DKIMVerified: z.boolean().optional(),
+  ReturnPathDomainVerified: z.boolean().optional()
+})
+
+export const PostmarkSenderSignaturesSchema = z.object({
+  TotalCount: z.number(),
+  SenderSignatures: z.array(PostmarkSenderSignatureSchema)
+})
+
+export const PostmarkOutboundMessageSchema = z.object({
+  MessageID: z.string(),
+  Tag: z.string().nullish(),
+  MessageStream: z.string().optional(),
+  From: z.string().optional(),
+  Recipients: z.array(z.string()).default([]),
+  Subject: z.string().nullish(),
+  Status: z.string().optional(),
+  ReceivedAt: z.string(),
+  // Set on messages sent with a template
+  TemplateId: z.number().nullish(),
+  TemplateAlias: z.string().nullish()
+})
+
+export const PostmarkOutboundMessagesSchema = z.object({
+  TotalCount: z.number(),
+  Messages: z.array(PostmarkOutboundMessageSchema)
+})
+
+// Delivered, Opened, LinkClicked, Bounced, Transient, SubscriptionChanged, ...
+export const PostmarkMessageEventSchema = z.object({
+  Recipient: z.string(),
+  Type: z.string(),
+  ReceivedAt: z.string(),
+  Details: z.record(z.unknown()).nullish()
+})
+
+export const PostmarkOutboundMessageDetailsSchema = PostmarkOutboundMessageSchema.extend({
+  TextBody: z.string().nullish(),
+  HtmlBody: z.string().nullish(),
+  MessageEvents: z.array(PostmarkMessageEventSchema).default([])
+})
+
+// Processed, Blocked, Queued, Failed (delivery to the inbound webhook gave
+// up) or Scheduled (a failed delivery that Postmark will retry)
+export const PostmarkInboundMessageSchema = z.object({
+  MessageID: z.string(),
+  From: z.string(),
+  FromName: z.string().nullish(),
+  To: z.string().nullish(),
+  OriginalRecipient: z.string().nullish(),
+  Subject: z.string().nullish(),
+  // RFC 2822 date from the message headers
+  Date: z.string(),
+  MailboxHash: z.string().nullish(),
+  Tag: z.string().nullish(),
+  MessageStream: z.string().optional(),
+  Status: z.string(),
+  Attachments: z.array(z.object({ Name: z.string() }).passthrough()).default([])
+})
+
+export const PostmarkInboundMessagesSchema = z.object({
+  TotalCount: z.number(),
+  InboundMessages: z.array(PostmarkInboundMessageSchema).default([])
+})
+
+// Per-day breakdowns returned by the /stats/outbound/* endpoints, along with
+// the totals for the whole range
+const PostmarkSendCountFields = {
+  Sent: z.number().default(0)
+}
+
+const PostmarkOpenCountFields = {
+  Opens: z.number().default(0),
+  Unique: z.number().default(0)
+}
+
+const PostmarkClickCountFields = {
+  Clicks: z.number().default(0),
+  Unique: z.number().default(0)
+}
+
+const PostmarkBounceCountFields = {
+  HardBounce: z.number().default(0),
+  SoftBounce: z.number().default(0),
+  Transient: z.number().default(0),
+  SMTPApiError: z.number().default(0)
+}
+
+const PostmarkSpamCountFields = {
+  SpamComplaint: z.number().default(0)
+}
+
+export const PostmarkSendCountsSchema = z.object({
+  Days: z.array(z.object({ Date: z.string(), ...PostmarkSendCountFields })).default([]),
+  ...PostmarkSendCountFields
+})
+
+export const PostmarkOpenCountsSchema = z.object({
+  Days: z.array(z.object({ Date: z.string(), ...PostmarkOpenCountFields })).default([]),
+  ...PostmarkOpenCountFields
+})
+
+export const PostmarkClickCountsSchema = z.object({
+  Days: z.array(z.object({ Date: z.string(), ...PostmarkClickCountFields })).default([]),
+  ...PostmarkClickCountFields
+})
+
+export const PostmarkBounceCountsSchema = z.object({
+  Days: z.array(z.object({ Date: z.string(), ...PostmarkBounceCountFields })).default([]),
+  ...PostmarkBounceCountFields
+})
+
+export const PostmarkSpamCountsSchema = z.object({
+  Days: z.array(z.object({ Date: z.string(), ...PostmarkSpamCountFields })).default([]),
+  ...PostmarkSpamCountFields
+})
+
+// Standard templates and layouts; layouts are never sent on their own
+export const PostmarkTemplateSchema = z.object({
+  TemplateId: z.number(),
+  Name: z.string(),
+  Alias: z.string().nullish(),
+  TemplateType: z.string().default('Standard'),
+  Active: z.boolean().default(true)
+})
+
+export const PostmarkTemplatesSchema = z.object({
+  TotalCount: z.number(),
+  Templates: z.array(PostmarkTemplateSchema)
+})
+
+export const PostmarkBounceSchema = z.object({
+  ID: z.number(),
+  Type: z.string(),
+  TypeCode: z.number(),
+  Name: z.string().nullish(),
+  Tag: z.string().nullish(),
+  MessageID: z.string().nullish(),
+  MessageStream: z.string().optional(),
+  Description: z.string().nullish(),
+  Details: z.string().nullish(),
+  Email: z.string(),
+  From: z.string().nullish(),
+  BouncedAt: z.string(),
+  Inactive: z.boolean().default(false),
+  CanActivate: z.boolean().default(false),
+  Subject: z.string().nullish()
+})
+
+export const PostmarkBouncesSchema = z.object({
+  TotalCount: z.number().default(0),
+  Bounces: z.array(PostmarkBounceSchema).default([])
+})
+
+export const PostmarkMessageStreamSchema = z.object({
+  ID: z.string(),
+  Name: z.string(),
+  MessageStreamType: z.string(),
+  ArchivedAt: z.string().nullish()
+})
+
+export const PostmarkMessageStreamsSchema = z.object({
+  MessageStreams: z.array(PostmarkMessageStreamSchema).default([]),
+  TotalCount: z.number().default(0)
+})
+
+export const PostmarkSuppressionSchema = z.object({
+  EmailAddress: z.string(),
+  SuppressionReason: z.string(),
+  Origin: z.string(),
+  CreatedAt: z.string()
+})
+
+export const PostmarkSuppressionsSchema = z.object({
+  Suppressions: z.array(PostmarkSuppressionSchema).default([])
+})
+
+// Usage breakdowns returned by the /stats/outbound/opens/* and /clicks/*
+// endpoints. Email clients and browsers are keyed by name, so those counts
+// are open-ended; platforms and click locations have fixed keys.
+const PostmarkNamedCountsDaySchema = z.object({ Date: z.string() }).catchall(z.number())
+
+export const PostmarkEmailClientCountsSchema = z.object({
+  Days: z.array(PostmarkNamedCountsDaySchema).default([])
+}).catchall(z.number())
+
+export const PostmarkBrowserFamilyCountsSchema = PostmarkEmailClientCountsSchema
+
+export const PostmarkPlatformCountsSchema = z.object({
+  Days: z.array(z.object({
+    Date: z.string(),
+    Desktop: z.number().default(0),
+    WebMail: z.number().default(0),
+    Mobile: z.number().default(0),
+    Unknown: z.number().default(0)
+  })).default([]),
+  Desktop: z.number().default(0),
+  WebMail: z.number().default(0),
+  Mobile: z.number().default(0),
+  Unknown: z.number().default(0)
+})
+
+export const PostmarkClickLocationCountsSchema = z.object({
+  Days: z.array(z.object({
+    Date: z.string(),
+    HTML: z.number().default(0),
+    Text: z.number().default(0)
+  })).default([]),
+  HTML: z.number().default(0),
+  Text: z.number().default(0)
+})
+
+// Webhook payloads, one event per request, discriminated by RecordType
+const PostmarkWebhookClientSchema = z.object({
+  Name: z.string().nullish(),
+  Company: z.string().nullish(),
+  Family: z.string().nullish()
+})
+
+export const PostmarkDeliveryWebhookSchema = z.object({
+  RecordType: z.literal('Delivery'),
+  MessageID: z.string(),
+  MessageStream: z.string().optional(),
+  Recipient: z.string(),
+  Tag: z.string().nullish(),
+  DeliveredAt: z.string(),
+  Details: z.string().nullish()
+})
+
+export const PostmarkBounceWebhookSchema = z.object({
+  RecordType: z.enum(['Bounce', 'SpamComplaint']),
+  ID: z.number(),
+  Type: z.string(),
+  TypeCode: z.number(),
+  MessageID: z.string(),
+  MessageStream: z.string().optional(),
+  Tag: z.string().nullish(),
+  Email: z.string(),
+  Description: z.string().nullish(),
+  Details: z.string().nullish(),
+  Inactive: z.boolean().optional(),
+  BouncedAt: z.string()
+})
+
+export const PostmarkOpenWebhookSchema = z.object({
+  RecordType: z.literal('Open'),
+  MessageID: z.string(),
+  MessageStream: z.string().optional(),
+  Recipient: z.string(),
+  Tag: z.string().nullish(),
+  FirstOpen: z.boolean().optional(),
+  Client: PostmarkWebhookClientSchema.nullish(),
+  OS: PostmarkWebhookClientSchema.nullish(),
+  Platform: z.string().nullish(),
+  UserAgent: z.string().nullish(),
+  ReceivedAt: z.string()
+})
+
+export const PostmarkClickWebhookSchema = z.object({
+  RecordType: z.literal('Click'),
+  MessageID: z.string(),
+  MessageStream: z.string().optional(),
+  Recipient: z.string(),
+  Tag: z.string().nullish(),
+  OriginalLink: z.string(),
+  ClickLocation: z.string().nullish(),
+  Client: PostmarkWebhookClientSchema.nullish(),
+  OS: PostmarkWebhookClientSchema.nullish(),
+  Platform: z.string().nullish(),
+  UserAgent: z.string().nullish(),
+  ReceivedAt: z.string()
+})
+
+export const PostmarkSubscriptionChangeWebhookSchema = z.object({
+  RecordType: z.literal('SubscriptionChange'),
+  MessageID: z.string(),
+  MessageStream: z.string().optional(),
+  Recipient: z.string(),
+  Tag: z.string().nullish(),
+  Origin: z.string().nullish(),
+  SuppressSending: z.boolean(),
+  SuppressionReason: z.string().nullish(),
+  ChangedAt: z.string()
+})
+
+// Open and click events from the message opens and clicks APIs share the
+// webhook payload shape
+export const PostmarkOpensSchema = z.object({
+  TotalCount: z.number(),
+  Opens: z.array(PostmarkOpenWebhookSchema).default([])
+})
+
+export const PostmarkClicksSchema = z.object({
+  TotalCount: z.number().default(0),
+  Clicks: z.array(PostmarkClickWebhookSchema).default([])
+})
+
+export const PostmarkWebhookSchema = z.discriminatedUnion('RecordType', [
+  PostmarkDeliveryWebhookSchema,
+  PostmarkBounceWebhookSchema,
+  PostmarkOpenWebhookSchema,
+  PostmarkClickWebhookSchema,
+  PostmarkSubscriptionChangeWebhookSchema
+])
+
 export type PostmarkStats = z.infer<typeof PostmarkStatsSchema>
 export type PostmarkStatsResponse = z.infer<typeof PostmarkStatsResponseSchema>
 export type PostmarkError = z.infer<typeof PostmarkErrorSchema>
+export type PostmarkOverview = z.infer<typeof PostmarkOverviewSchema>
+export type PostmarkServer = z.infer<typeof PostmarkServerSchema>
+export type PostmarkDomain = z.infer<typeof PostmarkDomainSchema>
+export type PostmarkSenderSignature = z.infer<typeof PostmarkSenderSignatureSchema>
+export type PostmarkSendCounts = z.infer<typeof PostmarkSendCountsSchema>
+export type PostmarkOpenCounts = z.infer<typeof PostmarkOpenCountsSchema>
+export type PostmarkClickCounts = z.infer<typeof PostmarkClickCountsSchema>
+export type PostmarkSpamCounts = z.infer<typeof PostmarkSpamCountsSchema>
+export type PostmarkOutboundMessage = z.infer<typeof PostmarkOutboundMessageSchema>
+export type PostmarkOutboundMessages = z.infer<typeof PostmarkOutboundMessagesSchema>
+export type PostmarkMessageEvent = z.infer<typeof PostmarkMessageEventSchema>
+export type PostmarkOutboundMessageDetails = z.infer<typeof PostmarkOutboundMessageDetailsSchema>
+export type PostmarkInboundMessage = z.infer<typeof PostmarkInboundMessageSchema>
+export type PostmarkInboundMessages = z.infer<typeof PostmarkInboundMessagesSchema>
+export type PostmarkTemplate = z.infer<typeof PostmarkTemplateSchema>
+export type PostmarkBounceCounts = z.infer<typeof PostmarkBounceCountsSchema>
+export type PostmarkBounce = z.infer<typeof PostmarkBounceSchema>
+export type PostmarkBounces = z.infer<typeof PostmarkBouncesSchema>
+export type PostmarkEmailClientCounts = z.infer<typeof PostmarkEmailClientCountsSchema>
+export type PostmarkPlatformCounts = z.infer<typeof PostmarkPlatformCountsSchema>
+export type PostmarkClickLocationCounts = z.infer<typeof PostmarkClickLocationCountsSchema>
+export type PostmarkMessageStream = z.infer<typeof PostmarkMessageStreamSchema>
+export type PostmarkSuppression = z.infer<typeof PostmarkSuppressionSchema>
+export type PostmarkWebhook = z.infer<typeof PostmarkWebhookSchema>
+export type PostmarkOpens = z.infer<typeof PostmarkOpensSchema>
+export type PostmarkClicks = z.infer<typeof PostmarkClicksSchema>
 
 export interface TaggedStats extends PostmarkStats {
   tag: string
   date: string
 }
 
-// Rate limiting state
-interface RateLimitState {
-  requests: number
-  windowStart: number
-  backoffUntil?: number
+export interface PostmarkBounceSearch {
+  tag?: string
+  stream?: string
+  type?: string
+  inactive?: boolean
+  count?: number
+  offset?: number
+}
+
+export interface PostmarkMessageSearch {
+  recipient?: string
+  tag?: string
+  // queued, sent or processed
+  status?: string
+  subject?: string
+  stream?: string
+  count?: number
+  offset?: number
+}
+
+export interface PostmarkInboundSearch {
+  recipient?: string
+  fromEmail?: string
+  tag?: string
+  // blocked, processed, queued, failed or scheduled
+  status?: string
+  subject?: string
+  mailboxHash?: string
+  count?: number
+  offset?: number
+}
+
+export interface PostmarkUsageShare {
+  name: string
+  count: number
+}
+
+export interface PostmarkDailyStats {
+  date: string
+  sent: number
+  delivered: number
+  opened: number
+  clicked: number
+  bounced: number
+  spam: number
+  unsubscribed: number
+}
+
+export class PostmarkApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly errorCode?: number) {
+    super(message)
+    this.name = 'PostmarkApiError'
+  }
 }
 
 class PostmarkAPI {
   private baseUrl = 'https://api.postmarkapp.com'
   private serverToken: string
-  private rateLimitState: RateLimitState = {
-    requests: 0,
-    windowStart: Date.now()
-  }
+  // Only needed for account-level endpoints such as domains and sender signatures
+  private accountToken?: string
 
-  // Rate limiting configuration
-  private readonly maxRequestsPerWindow = parseInt(process.env.POSTMARK_RATE_LIMIT_REQUESTS || '500')
-  private readonly windowMs = parseInt(process.env.POSTMARK_RATE_LIMIT_WINDOW_MS || '60000')
-  private readonly maxRetries = 3
-  private readonly baseBackoffMs = 1000
+  // Postmark caps message and bounce search at 500 per page and offset + count at 10,000
+  private readonly messagePageSize = 500
+  private readonly maxMessageSearchResults = 10000
+  // Domain and sender signature listings are capped at 500 per page
+  private readonly accountPageSize = 500
 
-  constructor(serverToken: string) {
-    if (!serverToken) {
+  // An account token alone is enough for account-level requests, e.g. to
+  // discover the servers on the account
+  constructor(serverToken: string, accountToken?: string) {
+    if (!serverToken && !accountToken) {
       throw new Error('Postmark server token is required')
     }
     this.serverToken = serverToken
+    this.accountToken = accountToken || undefined
   }
 
-  private async makeRequest<T>(endpoint: string, schema: z.ZodSchema<T>): Promise<T> {
-    await this.checkRateLimit()
+  hasAccountToken(): boolean {
+    return this.accountToken !== undefined
+  }
 
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+  // Requests are queued and retried by the shared Postmark rate limiter; an
+  // error response left after retries, or a schema mismatch, is thrown
+  private async makeRequest<T>(
+    endpoint: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    auth: 'server' | 'account' = 'server'
+  ): Promise<T> {
+    const tokenHeader: Record<string, string> = auth === 'account'
+      ? { 'X-Postmark-Account-Token': this.requireAccountToken() }
+      : { 'X-Postmark-Server-Token': this.requireServerToken() }
+
+    const response = await postmarkRateLimiter.fetch(`${this.baseUrl}${endpoint}`, {
       headers: {
         'Accept': 'application/json',
-        'X-Postmark-Server-Token': this.serverToken
+        ...tokenHeader
       }
     })
 
-    this.updateRateLimitState()
-
     if (!response.ok) {
       const errorText = await response.text()
       let error: PostmarkError
@@ -89,143 +537,584 @@ class PostmarkAPI {
       }
 
       if (response.status === 429) {
-        await this.handleRateLimit()
-        throw new Error(`Rate limited: ${error.Message}`)
+        throw new PostmarkApiError(`Rate limited: ${error.Message}`, response.status, error.ErrorCode)
       }
 
-      throw new Error(`Postmark API error: ${error.Message} (${error.ErrorCode})`)
+      throw new PostmarkApiError(`Postmark API error: ${error.Message} (${error.ErrorCode})`, response.status, error.ErrorCode)
     }
 
     const data = await response.json()
     return schema.parse(data)
   }
 
-  private async checkRateLimit(): Promise<void> {
-    const now = Date.now()
-
-    // Check if we're in a backoff period
-    if (this.rateLimitState.backoffUntil && now < this.rateLimitState.backoffUntil) {
-      const waitTime = this.rateLimitState.backoffUntil - now
-      throw new Error(`Rate limited, wait ${Math.ceil(waitTime / 1000)} seconds`)
+  private requireServerToken(): string {
+    if (!this.serverToken) {
+      throw new Error('Postmark server token is required for server-level requests')
     }
+    return this.serverToken
+  }
 
-    // Reset window if needed
-    if (now - this.rateLimitState.windowStart >= this.windowMs) {
-      this.rateLimitState.requests = 0
-      this.rateLimitState.windowStart = now
+  private requireAccountToken(): string {
+    if (!this.accountToken) {
+      throw new Error('Postmark account token is required for account-level requests')
     }
+    return this.accountToken
+  }
 
-    // Check if we've hit the limit
-    if (this.rateLimitState.requests >= this.maxRequestsPerWindow) {
-      const waitTime = this.windowMs - (now - this.rateLimitState.windowStart)
-      throw new Error(`Rate limit exceeded, wait ${Math.ceil(waitTime / 1000)} seconds`)
+  private statsParams(fromDate: string, toDate: string, tag?: string, stream?: string): string {
+    let params = `?fromdate=${fromDate}&todate=${toDate}`
+    if (tag) {
+      params += `&tag=${encodeURIComponent(tag)}`
     }
+    if (stream) {
+      params += `&messagestream=${encodeURIComponent(stream)}`
+    }
+    return params
   }
 
-  private updateRateLimitState(): void {
-    this.rateLimitState.requests++
+  // Range totals in the original single-day format. The overview endpoint
+  // returns aggregates, which are reported as one day ending on toDate.
+  async getStats(fromDate: string, toDate: string, tag?: string): Promise<PostmarkStatsResponse> {
+    const schema = PostmarkStatsResponseSchema.or(PostmarkOverviewSchema.transform(overview => ({
+      Days: [{
+        Date: toDate,
+        Sent: overview.Sent,
+        Delivered: Math.max(0, overview.Sent - overview.Bounced),
+        Opened: overview.UniqueOpens,
+        Clicked: overview.UniqueLinksClicked,
+        Bounced: overview.Bounced,
+        SpamComplaints: overview.SpamComplaints,
+        Unsubscribed: 0
+      }]
+    })))
+
+    return this.makeRequest(`/stats/outbound${this.statsParams(fromDate, toDate, tag)}`, schema)
   }
 
-  private async handleRateLimit(): Promise<void> {
-    const backoffTime = this.baseBackoffMs * Math.pow(2, Math.min(this.rateLimitState.requests, 5))
-    this.rateLimitState.backoffUntil = Date.now() + backoffTime
+  async getServer(): Promise<PostmarkServer> {
+    return this.makeRequest('/server', PostmarkServerSchema)
   }
 
-  async getStats(fromDate: string, toDate: string, tag?: string): Promise<PostmarkStatsResponse> {
-    await this.checkRateLimit()
+  // Every sending domain on the account, with its DKIM, SPF and Return-Path status
+  async getDomains(): Promise<PostmarkDomain[]> {
+    const domains: PostmarkDomain[] = []
+    let offset = 0
 
-    // Use the correct Postmark stats endpoint - "Get outbound overview"
-    let endpoint = `/stats/outbound/overview?fromdate=${fromDate}&todate=${toDate}`
-    if (tag) {
-      endpoint += `&tag=${encodeURIComponent(tag)}`
+    for (;;) {
+      const page = await this.makeRequest(`/domains?count=${this.accountPageSize}&offset=${offset}`, PostmarkDomainsSchema, 'account')
+      domains.push(...page.Domains)
+
+      offset += page.Domains.length
+      if (page.Domains.length < this.accountPageSize || offset >= page.TotalCount) {
+        break
+      }
     }
 
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      headers: {
-        'Accept': 'application/json',
-        'X-Postmark-Server-Token': this.serverToken
+    return domains
+  }
+
+  // Every server on the account, with its API tokens
+  async getServers(): Promise<PostmarkServer[]> {
+    const servers: PostmarkServer[] = []
+    let offset = 0
+
+    for (;;) {
+      const page = await this.makeRequest(`/servers?count=${this.accountPageSize}&offset=${offset}`, PostmarkServersSchema, 'account')
+      servers.push(...page.Servers)
+
+      offset += page.Servers.length
+      if (page.Servers.length < this.accountPageSize || offset >= page.TotalCount) {
+        break
+      }
+    }
+
+    return servers
+  }
+
+  async getSenderSignatures(): Promise<PostmarkSenderSignature[]> {
+    const signatures: PostmarkSenderSignature[] = []
+    let offset = 0
+
+    for (;;) {
+      const page = await this.makeRequest(`/senders?count=${this.accountPageSize}&offset=${offset}`, PostmarkSenderSignaturesSchema, 'account')
+      signatures.push(...page.SenderSignatures)
+
+      offset += page.SenderSignatures.length
+      if (page.SenderSignatures.length < this.accountPageSize || offset >= page.TotalCount) {
+        break
       }
+    }
+
+    return signatures
+  }
+
+  async getOverview(fromDate: string, toDate: string, tag?: string, stream?: string): Promise<PostmarkOverview> {
+    return this.makeRequest(`/stats/outbound${this.statsParams(fromDate, toDate, tag, stream)}`, PostmarkOverviewSchema)
+  }
+
+  async getSendCounts(fromDate: string, toDate: string, tag?: string, stream?: string): Promise<PostmarkSendCounts> {
+    return this.makeRequest(`/stats/outbound/sends${this.statsParams(fromDate, toDate, tag, stream)}`, PostmarkSendCountsSchema)
+  }
+
+  async getOpenCounts(fromDate: string, toDate: string, tag?: string, stream?: string): Promise<PostmarkOpenCounts> {
+    return this.makeRequest(`/stats/outbound/opens${this.statsParams(fromDate, toDate, tag, stream)}`, PostmarkOpenCountsSchema)
+  }
+
+  async getClickCounts(fromDate: string, toDate: string, tag?: string, stream?: string): Promise<PostmarkClickCounts> {
+    return this.makeRequest(`/stats/outbound/clicks${this.statsParams(fromDate, toDate, tag, stream)}`, PostmarkClickCountsSchema)
+  }
+
+  // Bounce counts split by type
+  async getBounceCounts(fromDate: string, toDate: string, tag?: string, stream?: string): Promise<PostmarkBounceCounts> {
+    return this.makeRequest(`/stats/outbound/bounces${this.statsParams(fromDate, toDate, tag, stream)}`, PostmarkBounceCountsSchema)
+  }
+
+  async getSpamCounts(fromDate: string, toDate: string, tag?: string, stream?: string): Promise<PostmarkSpamCounts> {
+    return this.makeRequest(`/stats/outbound/spam${this.statsParams(fromDate, toDate, tag, stream)}`, PostmarkSpamCountsSchema)
+  }
+
+  // Combines the per-day send, open, click, bounce and spam endpoints into one
+  // row per day. Opens and clicks are unique counts; bounces exclude SMTP API
+  // errors, which never reached a mailbox. Fails if any endpoint fails, so a
+  // sync never stores (and marks as covered) days with missing counts.
+  async getDailyStats(fromDate: string, toDate: string, tag?: string, stream?: string): Promise<PostmarkDailyStats[]> {
+    const [sends, opens, clicks, bounces, spam] = await Promise.all([
+      this.getSendCounts(fromDate, toDate, tag, stream),
+      this.getOpenCounts(fromDate, toDate, tag, stream),
+      this.getClickCounts(fromDate, toDate, tag, stream),
+      this.getBounceCounts(fromDate, toDate, tag, stream),
+      this.getSpamCounts(fromDate, toDate, tag, stream)
+    ])
+
+    const dailyMap = new Map<string, PostmarkDailyStats>()
+    const getDay = (date: string) => {
+      let day = dailyMap.get(date)
+      if (!day) {
+        day = { date, sent: 0, delivered: 0, opened: 0, clicked: 0, bounced: 0, spam: 0, unsubscribed: 0 }
+        dailyMap.set(date, day)
+      }
+      return day
+    }
+
+    sends.Days.forEach(day => { getDay(day.Date).sent = day.Sent })
+    opens.Days.forEach(day => { getDay(day.Date).opened = day.Unique || day.Opens })
+    clicks.Days.forEach(day => { getDay(day.Date).clicked = day.Unique || day.Clicks })
+    bounces.Days.forEach(day => { getDay(day.Date).bounced = day.HardBounce + day.SoftBounce + day.Transient })
+    spam.Days.forEach(day => { getDay(day.Date).spam = day.SpamComplaint })
+
+    dailyMap.forEach(day => {
+      day.delivered = Math.max(0, day.sent - day.bounced)
     })
 
-    this.updateRateLimitState()
+    return Array.from(dailyMap.values()).sort((a, b) => a.date.localeCompare(b.date))
+  }
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        await this.handleRateLimit()
-        throw new Error(`Rate limited: ${response.statusText}`)
+  // One page of individual bounces, newest first
+  async getBounces(fromDate: string, toDate: string, search: PostmarkBounceSearch = {}): Promise<PostmarkBounces> {
+    const count = Math.min(search.count ?? 50, this.messagePageSize)
+    let endpoint = `/bounces?count=${count}&offset=${search.offset ?? 0}&fromdate=${fromDate}&todate=${toDate}`
+    if (search.tag) {
+      endpoint += `&tag=${encodeURIComponent(search.tag)}`
+    }
+    if (search.stream) {
+      endpoint += `&messagestream=${encodeURIComponent(search.stream)}`
+    }
+    if (search.type) {
+      endpoint += `&type=${encodeURIComponent(search.type)}`
+    }
+    if (search.inactive !== undefined) {
+      endpoint += `&inactive=${search.inactive}`
+    }
+
+    return this.makeRequest(endpoint, PostmarkBouncesSchema)
+  }
+
+  async getAllBounces(fromDate: string, toDate: string, search: Omit<PostmarkBounceSearch, 'count' | 'offset'> = {}): Promise<PostmarkBounce[]> {
+    const bounces: PostmarkBounce[] = []
+    let offset = 0
+
+    while (offset + this.messagePageSize <= this.maxMessageSearchResults) {
+      const page = await this.getBounces(fromDate, toDate, { ...search, count: this.messagePageSize, offset })
+      bounces.push(...page.Bounces)
+
+      offset += page.Bounces.length
+      if (page.Bounces.length < this.messagePageSize || offset >= page.TotalCount) {
+        break
       }
-      throw new Error(`Postmark API error: ${response.status} ${response.statusText}`)
     }
 
-    const rawData = await response.json()
-    console.log('Raw Postmark response:', JSON.stringify(rawData, null, 2))
+    return bounces
+  }
 
-    // Try to parse with schema, but handle the case where it might be different
-    try {
-      return PostmarkStatsResponseSchema.parse(rawData)
-    } catch (parseError) {
-      console.error('Schema parse error:', parseError)
-      
-      // Handle different Postmark response formats
-      if (!rawData.Days) {
-        // Postmark overview endpoint returns aggregate data, convert to daily format
-        const singleDay = {
-          Date: toDate,
-          Sent: rawData.Sent || 0,
-          Delivered: rawData.Delivered || rawData.TotalDelivered || 0,
-          Opened: rawData.Opened || rawData.TotalOpened || 0,
-          Clicked: rawData.Clicked || rawData.TotalClicked || 0,
-          Bounced: rawData.Bounced || rawData.TotalBounced || 0,
-          SpamComplaints: rawData.SpamComplaints || rawData.TotalSpamComplaints || 0,
-          Unsubscribed: rawData.Unsubscribed || rawData.TotalUnsubscribed || 0
-        }
-        
-        return { Days: [singleDay] }
+  // One page of outbound messages, newest first
+  async searchOutboundMessages(fromDate: string, toDate: string, search: PostmarkMessageSearch = {}): Promise<PostmarkOutboundMessages> {
+    const count = Math.min(search.count ?? 50, this.messagePageSize)
+    let endpoint = `/messages/outbound?count=${count}&offset=${search.offset ?? 0}&fromdate=${fromDate}&todate=${toDate}`
+    if (search.recipient) {
+      endpoint += `&recipient=${encodeURIComponent(search.recipient)}`
+    }
+    if (search.tag) {
+      endpoint += `&tag=${encodeURIComponent(search.tag)}`
+    }
+    if (search.status) {
+      endpoint += `&status=${encodeURIComponent(search.status)}`
+    }
+    if (search.subject) {
+      endpoint += `&subject=${encodeURIComponent(search.subject)}`
+    }
+    if (search.stream) {
+      endpoint += `&messagestream=${encodeURIComponent(search.stream)}`
+    }
+
+    return this.makeRequest(endpoint, PostmarkOutboundMessagesSchema)
+  }
+
+  // Every outbound message matching the search, up to Postmark's 10,000 result cap
+  async getAllOutboundMessages(
+    fromDate: string,
+    toDate: string,
+    search: Omit<PostmarkMessageSearch, 'count' | 'offset'> = {}
+  ): Promise<PostmarkOutboundMessage[]> {
+    const { messages } = await this.getOutboundMessagesWithTotal(fromDate, toDate, search)
+    return messages
+  }
+
+  // Like getAllOutboundMessages, plus how many messages matched in total. A
+  // total above the number of messages means the search hit the result cap.
+  async getOutboundMessagesWithTotal(
+    fromDate: string,
+    toDate: string,
+    search: Omit<PostmarkMessageSearch, 'count' | 'offset'> = {}
+  ): Promise<{ messages: PostmarkOutboundMessage[]; totalCount: number }> {
+    const messages: PostmarkOutboundMessage[] = []
+    let totalCount = 0
+    let offset = 0
+
+    while (offset + this.messagePageSize <= this.maxMessageSearchResults) {
+      const page = await this.searchOutboundMessages(fromDate, toDate, { ...search, count: this.messagePageSize, offset })
+      messages.push(...page.Messages)
+      totalCount = page.TotalCount
+
+      offset += page.Messages.length
+      if (page.Messages.length < this.messagePageSize || offset >= page.TotalCount) {
+        break
       }
-      
-      throw parseError
     }
+
+    return { messages, totalCount: Math.max(totalCount, messages.length) }
   }
 
-  async getStatsWithRetry(fromDate: string, toDate: string, tag?: string, retries = 0): Promise<PostmarkStatsResponse> {
-    try {
-      return await this.getStats(fromDate, toDate, tag)
-    } catch (error) {
-      if (retries < this.maxRetries && error instanceof Error) {
-        const isRateLimit = error.message.includes('Rate limit')
-        const isServerError = error.message.includes('5')
-        
-        if (isRateLimit || isServerError) {
-          const backoffTime = this.baseBackoffMs * Math.pow(2, retries)
-          await new Promise(resolve => setTimeout(resolve, backoffTime))
-          return this.getStatsWithRetry(fromDate, toDate, tag, retries + 1)
-        }
+  // One page of inbound messages, newest first
+  async searchInboundMessages(fromDate: string, toDate: string, search: PostmarkInboundSearch = {}): Promise<PostmarkInboundMessages> {
+    const count = Math.min(search.count ?? 50, this.messagePageSize)
+    let endpoint = `/messages/inbound?count=${count}&offset=${search.offset ?? 0}&fromdate=${fromDate}&todate=${toDate}`
+    if (search.recipient) {
+      endpoint += `&recipient=${encodeURIComponent(search.recipient)}`
+    }
+    if (search.fromEmail) {
+      endpoint += `&fromemail=${encodeURIComponent(search.fromEmail)}`
+    }
+    if (search.tag) {
+      endpoint += `&tag=${encodeURIComponent(search.tag)}`
+    }
+    if (search.status) {
+      endpoint += `&status=${encodeURIComponent(search.status)}`
+    }
+    if (search.subject) {
+      endpoint += `&subject=${encodeURIComponent(search.subject)}`
+    }
+    if (search.mailboxHash) {
+      endpoint += `&mailboxhash=${encodeURIComponent(search.mailboxHash)}`
+    }
+
+    return this.makeRequest(endpoint, PostmarkInboundMessagesSchema)
+  }
+
+  // Every inbound message matching the search, up to Postmark's 10,000 result cap
+  async getAllInboundMessages(
+    fromDate: string,
+    toDate: string,
+    search: Omit<PostmarkInboundSearch, 'count' | 'offset'> = {}
+  ): Promise<PostmarkInboundMessage[]> {
+    const messages: PostmarkInboundMessage[] = []
+    let offset = 0
+
+    while (offset + this.messagePageSize <= this.maxMessageSearchResults) {
+      const page = await this.searchInboundMessages(fromDate, toDate, { ...search, count: this.messagePageSize, offset })
+      messages.push(...page.InboundMessages)
+
+      offset += page.InboundMessages.length
+      if (page.InboundMessages.length < this.messagePageSize || offset >= page.TotalCount) {
+        break
       }
-      throw error
     }
+
+    return messages
+  }
+
+  // Message content and the delivery, open, click and bounce events recorded for it
+  async getOutboundMessageDetails(messageId: string): Promise<PostmarkOutboundMessageDetails> {
+    return this.makeRequest(`/messages/outbound/${encodeURIComponent(messageId)}/details`, PostmarkOutboundMessageDetailsSchema)
+  }
+
+  private async getUsageShares(
+    endpoint: string,
+    schema: z.ZodType<{ Days: unknown[] } & Record<string, unknown>, z.ZodTypeDef, unknown>,
+    fromDate: string,
+    toDate: string,
+    tag?: string
+  ): Promise<PostmarkUsageShare[]> {
+    const { Days, ...totals } = await this.makeRequest(`${endpoint}${this.statsParams(fromDate, toDate, tag)}`, schema)
+    return Object.entries(totals)
+      .filter((entry): entry is [string, number] => typeof entry[1] === 'number' && entry[1] > 0)
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count)
+  }
+
+  // Opens per email client, e.g. "Apple Mail" or "Gmail"
+  async getEmailClientUsage(fromDate: string, toDate: string, tag?: string): Promise<PostmarkUsageShare[]> {
+    return this.getUsageShares('/stats/outbound/opens/emailclients', PostmarkEmailClientCountsSchema, fromDate, toDate, tag)
+  }
+
+  // Opens per platform: Desktop, WebMail, Mobile or Unknown
+  async getOpenPlatformUsage(fromDate: string, toDate: string, tag?: string): Promise<PostmarkUsageShare[]> {
+    return this.getUsageShares('/stats/outbound/opens/platforms', PostmarkPlatformCountsSchema, fromDate, toDate, tag)
+  }
+
+  // Clicks per browser family, e.g. "Google Chrome"
+  async getBrowserFamilyUsage(fromDate: string, toDate: string, tag?: string): Promise<PostmarkUsageShare[]> {
+    return this.getUsageShares('/stats/outbound/clicks/browserfamilies', PostmarkBrowserFamilyCountsSchema, fromDate, toDate, tag)
   }
 
-  // Helper method to get all available tags (requires iterating through messages or maintaining a tag list)
-  async getAllTags(): Promise<string[]> {
-    // In a real implementation, you might need to maintain a list of tags
-    // or iterate through message events to discover tags
-    // For now, return empty array - this can be enhanced later
-    return []
+  // Clicks per platform: Desktop, Mobile or Unknown
+  async getClickPlatformUsage(fromDate: string, toDate: string, tag?: string): Promise<PostmarkUsageShare[]> {
+    return this.getUsageShares('/stats/outbound/clicks/platforms', PostmarkPlatformCountsSchema, fromDate, toDate, tag)
   }
+
+  // Clicks in the HTML versus the plain text part of the message
+  async getClickLocationUsage(fromDate: string, toDate: string, tag?: string): Promise<PostmarkUsageShare[]> {
+    return this.getUsageShares('/stats/outbound/clicks/location', PostmarkClickLocationCountsSchema, fromDate, toDate, tag)
+  }
+
+  async getMessageStreams(): Promise<PostmarkMessageStream[]> {
+    const response = await this.makeRequest(
+      '/message-streams?MessageStreamType=All&IncludeArchivedStreams=false',
+      PostmarkMessageStreamsSchema
+    )
+    return response.MessageStreams
+  }
+
+  async getSuppressions(
+    streamId: string,
+    fromDate: string,
+    toDate: string,
+    filters: { reason?: string; origin?: string } = {}
+  ): Promise<PostmarkSuppression[]> {
+    let endpoint = `/message-streams/${encodeURIComponent(streamId)}/suppressions/dump?fromdate=${fromDate}&todate=${toDate}`
+    if (filters.reason) {
+      endpoint += `&SuppressionReason=${filters.reason}`
+    }
+    if (filters.origin) {
+      endpoint += `&Origin=${filters.origin}`
+    }
+
+    const response = await this.makeRequest(endpoint, PostmarkSuppressionsSchema)
+    return response.Suppressions
+  }
+
+  async getOutboundStreams(): Promise<PostmarkMessageStream[]> {
+    const streams = await this.getMessageStreams()
+    return streams.filter(stream => stream.MessageStreamType !== 'Inbound')
+  }
+
+  // Unsubscribes per day across all outbound streams, or a single stream.
+  // Postmark records an unsubscribe link click as a manual suppression
+  // originating from the recipient; suppressions added by us or by admins are
+  // not counted.
+  async getDailyUnsubscribes(fromDate: string, toDate: string, streamId?: string): Promise<Map<string, number>> {
+    const streamIds = streamId ? [streamId] : (await this.getOutboundStreams()).map(stream => stream.ID)
+    const counts = new Map<string, number>()
+
+    for (const id of streamIds) {
+      const suppressions = await this.getSuppressions(id, fromDate, toDate, {
+        reason: 'ManualSuppression',
+        origin: 'Recipient'
+      })
+
+      suppressions.forEach(suppression => {
+        // CreatedAt is in the account's timezone, like the dates of the stats endpoints
+        const date = suppression.CreatedAt.slice(0, 10)
+        counts.set(date, (counts.get(date) ?? 0) + 1)
+      })
+    }
+
+    return counts
+  }
+
+  // One page of open events
+  async getOpens(fromDate: string, toDate: string, offset = 0): Promise<PostmarkOpens> {
+    return this.makeRequest(
+      `/messages/outbound/opens?count=${this.messagePageSize}&offset=${offset}&fromdate=${fromDate}&todate=${toDate}`,
+      PostmarkOpensSchema
+    )
+  }
+
+  async getAllOpens(fromDate: string, toDate: string): Promise<PostmarkOpens['Opens']> {
+    const opens: PostmarkOpens['Opens'] = []
+    let offset = 0
+
+    while (offset + this.messagePageSize <= this.maxMessageSearchResults) {
+      const page = await this.getOpens(fromDate, toDate, offset)
+      opens.push(...page.Opens)
+
+      offset += page.Opens.length
+      if (page.Opens.length < this.messagePageSize || offset >= page.TotalCount) {
+        break
+      }
+    }
+
+    return opens
+  }
+
+  // One page of link click events
+  async getClicks(fromDate: string, toDate: string, offset = 0): Promise<PostmarkClicks> {
+    return this.makeRequest(
+      `/messages/outbound/clicks?count=${this.messagePageSize}&offset=${offset}&fromdate=${fromDate}&todate=${toDate}`,
+      PostmarkClicksSchema
+    )
+  }
+
+  async getAllClicks(fromDate: string, toDate: string): Promise<PostmarkClicks['Clicks']> {
+    const clicks: PostmarkClicks['Clicks'] = []
+    let offset = 0
+
+    while (offset + this.messagePageSize <= this.maxMessageSearchResults) {
+      const page = await this.getClicks(fromDate, toDate, offset)
+      clicks.push(...page.Clicks)
+
+      offset += page.Clicks.length
+      if (page.Clicks.length < this.messagePageSize || offset >= page.TotalCount) {
+        break
+      }
+    }
+
+    return clicks
+  }
+
+  // Postmark has no tag listing endpoint, so tags are discovered from the
+  // outbound messages sent in the given range, keyed by the message stream
+  // they were sent through. Message search stops at 10,000 results, so a
+  // range with more messages is searched in halves, down to single days.
+  async getTagsByStream(fromDate: string, toDate: string): Promise<Map<string, string[]>> {
+    const tagsByStream = new Map<string, Set<string>>()
+    await this.collectTags(fromDate, toDate, tagsByStream)
+    return new Map(Array.from(tagsByStream.entries()).map(([stream, tags]) => [stream, Array.from(tags).sort()]))
+  }
+
+  private async collectTags(fromDate: string, toDate: string, tagsByStream: Map<string, Set<string>>): Promise<void> {
+    const first = await this.searchOutboundMessages(fromDate, toDate, { count: this.messagePageSize, offset: 0 })
+    const days = differenceInCalendarDays(parseISO(toDate), parseISO(fromDate))
+
+    if (first.TotalCount > this.maxMessageSearchResults && days > 0) {
+      const middle = addDays(parseISO(fromDate), Math.floor(days / 2))
+      await this.collectTags(fromDate, format(middle, 'yyyy-MM-dd'), tagsByStream)
+      await this.collectTags(format(addDays(middle, 1), 'yyyy-MM-dd'), toDate, tagsByStream)
+      return
+    }
+
+    if (first.TotalCount > this.maxMessageSearchResults) {
+      console.warn(`Postmark has ${first.TotalCount} messages on ${fromDate}; tags only used past the first ${this.maxMessageSearchResults} are missed`)
+    }
+
+    const messages = [...first.Messages]
+    let offset = first.Messages.length
+    while (first.Messages.length === this.messagePageSize && offset < first.TotalCount && offset + this.messagePageSize <= this.maxMessageSearchResults) {
+      const page = await this.searchOutboundMessages(fromDate, toDate, { count: this.messagePageSize, offset })
+      messages.push(...page.Messages)
+      offset += page.Messages.length
+      if (page.Messages.length < this.messagePageSize) {
+        break
+      }
+    }
+
+    messages.forEach(message => {
+      if (message.Tag) {
+        const stream = message.MessageStream || 'outbound'
+        const tags = tagsByStream.get(stream) ?? new Set<string>()
+        tags.add(message.Tag)
+        tagsByStream.set(stream, tags)
+      }
+    })
+  }
+
+  // Every template on the server, layouts included
+  async getTemplates(): Promise<PostmarkTemplate[]> {
+    const templates: PostmarkTemplate[] = []
+    let offset = 0
+
+    for (;;) {
+      const page = await this.makeRequest(
+        `/templates?count=${this.messagePageSize}&offset=${offset}&TemplateType=All`,
+        PostmarkTemplatesSchema
+      )
+      templates.push(...page.Templates)
+
+      offset += page.Templates.length
+      if (page.Templates.length < this.messagePageSize || offset >= page.TotalCount) {
+        break
+      }
+    }
+
+    return templates
+  }
+
+  async getAllTags(fromDate: string, toDate: string): Promise<string[]> {
+    const tagsByStream = await this.getTagsByStream(fromDate, toDate)
+    const tags = new Set(Array.from(tagsByStream.values()).flat())
+    return Array.from(tags).sort()
+  }
+}
+
+export interface NamedServerToken {
+  id: string
+  token: string
+}
+
+// POSTMARK_SERVER_TOKENS lists one server per brand as comma-separated
+// name:token pairs, e.g. "brand-a:token-a,brand-b:token-b"
+export function parseServerTokens(value: string | undefined): NamedServerToken[] {
+  return (value ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '')
+    .map(entry => {
+      const separator = entry.lastIndexOf(':')
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error(`Invalid POSTMARK_SERVER_TOKENS entry "${entry}", expected name:token`)
+      }
+      return { id: entry.slice(0, separator).trim(), token: entry.slice(separator + 1).trim() }
+    })
+}
+
+// Token of the server used by everything that isn't server-aware yet:
+// POSTMARK_SERVER_TOKEN, or the first of POSTMARK_SERVER_TOKENS
+export function getPrimaryServerToken(): string | undefined {
+  return process.env.POSTMARK_SERVER_TOKEN || parseServerTokens(process.env.POSTMARK_SERVER_TOKENS)[0]?.token
 }
 
 // Singleton instance
 let postmarkInstance: PostmarkAPI | null = null
 
+// POSTMARK_ACCOUNT_TOKEN is optional; without it, account-level requests throw
 export function getPostmarkClient(): PostmarkAPI {
-  const serverToken = process.env.POSTMARK_SERVER_TOKEN
+  const serverToken = getPrimaryServerToken()
   
   if (!serverToken) {
     throw new Error('POSTMARK_SERVER_TOKEN environment variable is not set')
   }
 
   if (!postmarkInstance) {
-    postmarkInstance = new PostmarkAPI(serverToken)
+    postmarkInstance = new PostmarkAPI(serverToken, process.env.POSTMARK_ACCOUNT_TOKEN)
   }
 
   return postmarkInstance
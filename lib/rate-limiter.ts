@@ -0,0 +1,281 @@
+import { getStateStore, StateStore } from '@/lib/state-store'
+
+// Token bucket scheduler shared by every outbound integration. Requests queue
+// until a token is available instead of failing, retryable responses are
+// retried with exponential backoff, and upstream rate limit headers pause the
+// whole queue until the upstream window resets.
+
+export interface RateLimiterOptions {
+  // Burst size; the bucket refills to this many requests over intervalMs
+  capacity: number
+  intervalMs: number
+  maxRetries?: number
+  baseBackoffMs?: number
+  maxBackoffMs?: number
+  // Shares the bucket and pause across processes and cold starts
+  store?: StateStore
+}
+
+export interface RateLimiterState {
+  name: string
+  capacity: number
+  available: number
+  queued: number
+  // Set while requests are held back by a rate limit response or header
+  waitingUntil: string | null
+}
+
+interface StoredBucket {
+  tokens: number
+  updatedAt: number
+  pausedUntil: number
+}
+
+const DEFAULT_MAX_RETRIES = 3
+const DEFAULT_BASE_BACKOFF_MS = 1000
+const DEFAULT_MAX_BACKOFF_MS = 60000
+
+// Timeouts, rate limiting and server errors; other 4xx responses fail the same way every time
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+// How long upstream asked us to wait, from Retry-After, X-RateLimit-* or
+// Facebook's business use case usage header
+export function getRetryAfterMs(headers: Headers | undefined, now = Date.now()): number | undefined {
+  if (!headers) {
+    return undefined
+  }
+
+  const retryAfter = headers.get('Retry-After')
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000)
+    }
+    const date = Date.parse(retryAfter)
+    if (!isNaN(date)) {
+      return Math.max(0, date - now)
+    }
+  }
+
+  const reset = headers.get('X-RateLimit-Reset')
+  if (headers.get('X-RateLimit-Remaining') === '0' && reset) {
+    const value = Number(reset)
+    if (!isNaN(value)) {
+      // Either an epoch timestamp in seconds or a number of seconds to wait
+      return Math.max(0, value > 1e9 ? value * 1000 - now : value * 1000)
+    }
+  }
+
+  const usage = headers.get('X-Business-Use-Case-Usage')
+  if (usage) {
+    try {
+      const accounts = JSON.parse(usage) as Record<string, Array<{ estimated_time_to_regain_access?: number }>>
+      const minutes = Math.max(0, ...Object.values(accounts).flat().map(entry => entry.estimated_time_to_regain_access ?? 0))
+      if (minutes > 0) {
+        return minutes * 60000
+      }
+    } catch {
+      // Malformed usage headers are ignored
+    }
+  }
+
+  return undefined
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+export class RateLimiter {
+  private tokens: number
+  private lastRefill = Date.now()
+  private pausedUntil = 0
+  private queue: Array<() => void> = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(readonly name: string, private readonly options: RateLimiterOptions) {
+    this.tokens = options.capacity
+  }
+
+  // Resolves once a request may be sent, in the order requests were queued
+  acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.queue.push(resolve)
+      this.drain()
+    })
+  }
+
+  // Holds back every queued request for at least ms
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.drain()
+  }
+
+  // Sends a request through the queue. Retryable responses are retried; once
+  // retries run out, the last response is returned for the caller to report.
+  async fetch(url: string, init?: RequestInit): Promise<Response> {
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES
+
+    for (let attempt = 0; ; attempt++) {
+      await this.restore()
+      await this.acquire()
+
+      let response: Response
+      try {
+        response = await fetch(url, init)
+      } catch (error) {
+        await this.persist()
+        if (attempt >= maxRetries) {
+          throw error
+        }
+        await sleep(this.backoffMs(attempt))
+        continue
+      }
+
+      const retryAfterMs = getRetryAfterMs(response.headers)
+      if (retryAfterMs !== undefined) {
+        this.pause(retryAfterMs)
+      }
+
+      const retry = !response.ok && isRetryableStatus(response.status) && attempt < maxRetries
+      const waitMs = Math.max(this.backoffMs(attempt), retryAfterMs ?? 0)
+      if (retry && response.status === 429) {
+        this.pause(waitMs)
+      }
+      await this.persist()
+
+      if (!retry) {
+        return response
+      }
+      await sleep(waitMs)
+    }
+  }
+
+  async getState(): Promise<RateLimiterState> {
+    await this.restore()
+    const now = Date.now()
+    this.refill(now)
+    return {
+      name: this.name,
+      capacity: this.options.capacity,
+      available: Math.floor(this.tokens),
+      queued: this.queue.length,
+      waitingUntil: this.pausedUntil > now ? new Date(this.pausedUntil).toISOString() : null
+    }
+  }
+
+  private get storeKey(): string {
+    return `rate-limit:${this.name}`
+  }
+
+  // Takes the stricter of the local and stored bucket, so requests made by
+  // other invocations count against this one too
+  private async restore(): Promise<void> {
+    if (!this.options.store) {
+      return
+    }
+
+    try {
+      const saved = await this.options.store.get<StoredBucket>(this.storeKey)
+      if (!saved) {
+        return
+      }
+
+      const now = Date.now()
+      this.refill(now)
+      const savedTokens = Math.min(
+        this.options.capacity,
+        saved.tokens + Math.max(0, now - saved.updatedAt) * this.options.capacity / this.options.intervalMs
+      )
+      this.tokens = Math.min(this.tokens, savedTokens)
+      if (saved.pausedUntil > this.pausedUntil) {
+        this.pause(saved.pausedUntil - now)
+      }
+    } catch (error) {
+      console.warn(`Could not load ${this.name} rate limit state:`, error)
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.options.store) {
+      return
+    }
+
+    const now = Date.now()
+    this.refill(now)
+    const bucket: StoredBucket = { tokens: this.tokens, updatedAt: now, pausedUntil: this.pausedUntil }
+
+    try {
+      // Once the window has passed the bucket is full again, so the row can expire
+      await this.options.store.set(this.storeKey, bucket, this.options.intervalMs + Math.max(0, this.pausedUntil - now))
+    } catch (error) {
+      console.warn(`Could not save ${this.name} rate limit state:`, error)
+    }
+  }
+
+  private backoffMs(attempt: number): number {
+    const base = this.options.baseBackoffMs ?? DEFAULT_BASE_BACKOFF_MS
+    return Math.min(base * Math.pow(2, attempt), this.options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS)
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.lastRefill)
+    this.tokens = Math.min(this.options.capacity, this.tokens + elapsed * this.options.capacity / this.options.intervalMs)
+    this.lastRefill = now
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      return
+    }
+
+    const now = Date.now()
+    this.refill(now)
+
+    while (this.queue.length > 0 && now >= this.pausedUntil && this.tokens >= 1) {
+      this.tokens -= 1
+      this.queue.shift()!()
+    }
+
+    if (this.queue.length === 0) {
+      return
+    }
+
+    const waitMs = now < this.pausedUntil
+      ? this.pausedUntil - now
+      : Math.ceil((1 - this.tokens) * this.options.intervalMs / this.options.capacity)
+
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.drain()
+    }, waitMs)
+  }
+}
+
+export const postmarkRateLimiter = new RateLimiter('postmark', {
+  capacity: parseInt(process.env.POSTMARK_RATE_LIMIT_REQUESTS || '500'),
+  intervalMs: parseInt(process.env.POSTMARK_RATE_LIMIT_WINDOW_MS || '60000'),
+  store: getStateStore()
+})
+
+export const facebookRateLimiter = new RateLimiter('facebook', {
+  capacity: parseInt(process.env.FACEBOOK_RATE_LIMIT_REQUESTS || '200'),
+  intervalMs: parseInt(process.env.FACEBOOK_RATE_LIMIT_WINDOW_MS || '3600000'),
+  store: getStateStore()
+})
+
+export const thrivecartRateLimiter = new RateLimiter('thrivecart', {
+  capacity: parseInt(process.env.THRIVECART_RATE_LIMIT_REQUESTS || '60'),
+  intervalMs: parseInt(process.env.THRIVECART_RATE_LIMIT_WINDOW_MS || '60000'),
+  store: getStateStore()
+})
+
+export function getRateLimiterStates(): Promise<RateLimiterState[]> {
+  return Promise.all([postmarkRateLimiter, facebookRateLimiter, thrivecartRateLimiter].map(limiter => limiter.getState()))
+}
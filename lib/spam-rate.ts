@@ -0,0 +1,83 @@
+import { format, parseISO, subDays } from 'date-fns'
+
+// Spam complaint rates are percentages of delivered messages, like the 0.3%
+// limit Gmail and Yahoo set for bulk senders
+export interface SpamThresholds {
+  warning: number
+  critical: number
+}
+
+export type SpamLevel = 'ok' | 'warning' | 'critical'
+
+export interface SpamRates {
+  spamRate: number
+  // Over the 7 and 30 days ending on the last day of the range, or on the
+  // day itself for daily rows
+  spamRate7d: number
+  spamRate30d: number
+}
+
+interface SpamCounts {
+  date: string
+  delivered: number
+  spam: number
+}
+
+// Longest rolling window, so callers know how much history to load before a range
+export const SPAM_RATE_HISTORY_DAYS = 30
+
+function getPercent(envVar: string, fallback: number): number {
+  const value = parseFloat(process.env[envVar] || '')
+  return isNaN(value) || value < 0 ? fallback : value
+}
+
+// Gmail asks senders to stay below 0.1% and never reach 0.3%
+export function getSpamThresholds(): SpamThresholds {
+  const critical = getPercent('SPAM_RATE_CRITICAL_PERCENT', 0.3)
+  const warning = Math.min(getPercent('SPAM_RATE_WARNING_PERCENT', 0.1), critical)
+  return { warning, critical }
+}
+
+export function getSpamLevel(rate: number, thresholds: SpamThresholds): SpamLevel {
+  if (rate >= thresholds.critical) return 'critical'
+  if (rate >= thresholds.warning) return 'warning'
+  return 'ok'
+}
+
+// Rounded to 3 decimal places, since the thresholds are fractions of a percent
+export function calculateSpamRate(spam: number, delivered: number): number {
+  if (delivered === 0) return 0
+  return Math.round((spam / delivered) * 100000) / 1000
+}
+
+export function getHistoryStart(fromDate: string): string {
+  return format(subDays(parseISO(fromDate), SPAM_RATE_HISTORY_DAYS - 1), 'yyyy-MM-dd')
+}
+
+// Rate over the window of days ending on endDate. Days missing from the
+// series count as nothing sent.
+export function getRollingSpamRate(days: SpamCounts[], endDate: string, windowDays: number): number {
+  const startDate = format(subDays(parseISO(endDate), windowDays - 1), 'yyyy-MM-dd')
+  let spam = 0
+  let delivered = 0
+  days.forEach(day => {
+    if (day.date >= startDate && day.date <= endDate) {
+      spam += day.spam
+      delivered += day.delivered
+    }
+  })
+  return calculateSpamRate(spam, delivered)
+}
+
+// Adds the day's own and rolling spam rates to each day from fromDate on.
+// Earlier days in the series only feed the rolling windows.
+export function withDailySpamRates<T extends SpamCounts>(days: T[], fromDate: string): Array<T & SpamRates> {
+  return days
+    .filter(day => day.date >= fromDate)
+    .map(day => ({
+      ...day,
+      spamRate: calculateSpamRate(day.spam, day.delivered),
+      spamRate7d: getRollingSpamRate(days, day.date, 7),
+      spamRate30d: getRollingSpamRate(days, day.date, 30)
+    }))
+}
@@ -0,0 +1,262 @@
+import { prisma } from '@/lib/db'
+import { PostmarkDailyStats } from '@/lib/postmark'
+import { cacheServerStreams, DEFAULT_SERVER, getServerClient, PostmarkServerConfig } from '@/lib/postmark-servers'
+import { getUnsubscribeEventCounts, UnsubscribeEventCount } from '@/lib/postmark-webhooks'
+import { getStateStore } from '@/lib/state-store'
+import { daysInRange, fromStoredDate, getLookbackDays, runSync, SyncRange, SyncResult, SyncSource, toStoredDate } from '@/lib/sync'
+
+// Tag value used for the server-wide totals, which are stored alongside the
+// per-tag rows in StatSnapshot
+export const ALL_TAGS = '__all__'
+
+// Stream value used for totals across every message stream
+export const ALL_STREAMS = '__all__'
+
+export interface SnapshotSyncResult {
+  days: number
+  tags: string[]
+  streams: string[]
+}
+
+export interface StoredSnapshot extends PostmarkDailyStats {
+  server: string
+  stream: string
+  tag: string
+}
+
+export interface UniqueEngagement {
+  opened: number
+  clicked: number
+}
+
+// Opens and clicks keep arriving, so range totals are only reused this long
+const ENGAGEMENT_CACHE_MS = 5 * 60 * 1000
+
+function emptyDay(date: string): PostmarkDailyStats {
+  return { date, sent: 0, delivered: 0, opened: 0, clicked: 0, bounced: 0, spam: 0, unsubscribed: 0 }
+}
+
+export async function saveSnapshots(server: string, stream: string, tag: string, days: PostmarkDailyStats[]): Promise<void> {
+  await prisma.$transaction(days.map(day => {
+    const date = toStoredDate(day.date)
+    const counts = {
+      sent: day.sent,
+      delivered: day.delivered,
+      opened: day.opened,
+      clicked: day.clicked,
+      bounced: day.bounced,
+      spam: day.spam,
+      unsubscribed: day.unsubscribed
+    }
+
+    return prisma.statSnapshot.upsert({
+      where: { server_stream_tag_date: { server, stream, tag, date } },
+      create: { server, stream, tag, date, ...counts },
+      update: counts
+    })
+  }))
+}
+
+// Rows of the given servers. Rows of servers that are no longer configured,
+// such as 'default' after switching to POSTMARK_SERVER_TOKENS and re-syncing,
+// stay in the table and would otherwise be counted again.
+export async function getSnapshots(fromDate: string, toDate: string, servers: string[]): Promise<StoredSnapshot[]> {
+  const rows = await prisma.statSnapshot.findMany({
+    where: {
+      server: { in: servers },
+      date: {
+        gte: toStoredDate(fromDate),
+        lte: toStoredDate(toDate)
+      }
+    },
+    orderBy: { date: 'asc' }
+  })
+
+  return rows.map(row => ({
+    server: row.server,
+    stream: row.stream,
+    tag: row.tag,
+    date: fromStoredDate(row.date),
+    sent: row.sent,
+    delivered: row.delivered,
+    opened: row.opened,
+    clicked: row.clicked,
+    bounced: row.bounced,
+    spam: row.spam,
+    unsubscribed: row.unsubscribed
+  }))
+}
+
+// Recipients who opened or clicked anywhere in the range, counted once each,
+// optionally only for a stream or tag. Summing the stored daily unique counts
+// would count a recipient again on every day they opened; Postmark's overview
+// counts them like its dashboard.
+export async function getUniqueEngagement(
+  servers: PostmarkServerConfig[],
+  fromDate: string,
+  toDate: string,
+  stream?: string,
+  tag?: string
+): Promise<UniqueEngagement> {
+  const totals = await Promise.all(servers.map(async server => {
+    const cacheKey = `postmark:engagement:${server.id}:${stream ?? ALL_STREAMS}:${tag ?? ALL_TAGS}:${fromDate}:${toDate}`
+    const cached = await getStateStore().get<UniqueEngagement>(cacheKey).catch(() => undefined)
+    if (cached) return cached
+
+    const overview = await getServerClient(server).getOverview(fromDate, toDate, tag, stream)
+    const engagement = { opened: overview.UniqueOpens, clicked: overview.UniqueLinksClicked }
+    await getStateStore().set(cacheKey, engagement, ENGAGEMENT_CACHE_MS).catch(() => undefined)
+    return engagement
+  }))
+
+  return totals.reduce((sum, engagement) => ({
+    opened: sum.opened + engagement.opened,
+    clicked: sum.clicked + engagement.clicked
+  }), { opened: 0, clicked: 0 })
+}
+
+// Adds up several series of daily stats into one row per date
+export function sumByDay(series: PostmarkDailyStats[][]): PostmarkDailyStats[] {
+  const totals = new Map<string, PostmarkDailyStats>()
+
+  series.flat().forEach(day => {
+    const total = totals.get(day.date) ?? emptyDay(day.date)
+    totals.set(day.date, {
+      date: day.date,
+      sent: total.sent + day.sent,
+      delivered: total.delivered + day.delivered,
+      opened: total.opened + day.opened,
+      clicked: total.clicked + day.clicked,
+      bounced: total.bounced + day.bounced,
+      spam: total.spam + day.spam,
+      unsubscribed: total.unsubscribed + day.unsubscribed
+    })
+  })
+
+  return Array.from(totals.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function fillRange(days: PostmarkDailyStats[], range: string[]): PostmarkDailyStats[] {
+  const dailyMap = new Map(days.map(day => [day.date, day]))
+  return range.map(day => dailyMap.get(day) ?? emptyDay(day))
+}
+
+// Sets the unsubscribe count of every day, adding days that only had unsubscribes
+function withUnsubscribes(days: PostmarkDailyStats[], counts: Map<string, number>): PostmarkDailyStats[] {
+  const dailyMap = new Map(days.map(day => [day.date, { ...day, unsubscribed: 0 }]))
+  counts.forEach((count, date) => {
+    dailyMap.set(date, { ...(dailyMap.get(date) ?? emptyDay(date)), unsubscribed: count })
+  })
+  return Array.from(dailyMap.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function countByDay(events: UnsubscribeEventCount[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  events.forEach(event => counts.set(event.date, (counts.get(event.date) ?? 0) + event.count))
+  return counts
+}
+
+// Fetches daily stats from Postmark for the range and upserts them into
+// StatSnapshot: server-wide, per message stream, and per tag within each
+// stream. The per-tag totals across streams are summed from the per-stream
+// rows rather than fetched again. Days without activity are stored as zero
+// rows for the server and stream totals so the table holds every synced day.
+//
+// Unsubscribes come from each stream's suppression list, falling back to
+// SubscriptionChange webhook events when the suppressions API isn't
+// available. Per-tag unsubscribes can only come from webhook events, since
+// suppressions don't record which message triggered them.
+export async function syncSnapshots(server: PostmarkServerConfig, fromDate: string, toDate: string): Promise<SnapshotSyncResult> {
+  const postmark = getServerClient(server)
+  const range = daysInRange(fromDate, toDate)
+
+  const [daily, outboundStreams, tagsByStream, unsubscribeEvents] = await Promise.all([
+    postmark.getDailyStats(fromDate, toDate),
+    postmark.getOutboundStreams().catch(error => {
+      console.warn('Could not list Postmark message streams:', error)
+      return null
+    }),
+    postmark.getTagsByStream(fromDate, toDate),
+    getUnsubscribeEventCounts(fromDate, toDate, server)
+  ])
+
+  // Recipients can unsubscribe days after a send, so tags seen only in
+  // unsubscribe events are synced too
+  unsubscribeEvents.forEach(event => {
+    if (event.tag) {
+      const tags = tagsByStream.get(event.stream) ?? []
+      if (!tags.includes(event.tag)) tagsByStream.set(event.stream, [...tags, event.tag].sort())
+    }
+  })
+
+  if (outboundStreams) {
+    await cacheServerStreams(server, outboundStreams)
+  }
+
+  const streams = Array.from(new Set([
+    ...(outboundStreams ?? []).map(stream => stream.ID),
+    ...Array.from(tagsByStream.keys()),
+    ...unsubscribeEvents.map(event => event.stream)
+  ])).sort()
+  const streamTotals: PostmarkDailyStats[][] = []
+  const tagTotals = new Map<string, PostmarkDailyStats[][]>()
+
+  for (const stream of streams) {
+    const streamEvents = unsubscribeEvents.filter(event => event.stream === stream)
+    const suppressionCounts = await postmark.getDailyUnsubscribes(fromDate, toDate, stream).catch(error => {
+      console.warn(`Could not fetch suppressions for stream ${stream}, using webhook events for unsubscribes:`, error)
+      return null
+    })
+
+    const streamDaily = await postmark.getDailyStats(fromDate, toDate, undefined, stream)
+    const streamDays = withUnsubscribes(fillRange(streamDaily, range), suppressionCounts ?? countByDay(streamEvents))
+    await saveSnapshots(server.id, stream, ALL_TAGS, streamDays)
+    streamTotals.push(streamDays)
+
+    for (const tag of tagsByStream.get(stream) ?? []) {
+      const tagDaily = await postmark.getDailyStats(fromDate, toDate, tag, stream)
+      const tagDays = withUnsubscribes(tagDaily, countByDay(streamEvents.filter(event => event.tag === tag)))
+      await saveSnapshots(server.id, stream, tag, tagDays)
+      tagTotals.set(tag, [...(tagTotals.get(tag) ?? []), tagDays])
+    }
+  }
+
+  const serverUnsubscribes = new Map(sumByDay(streamTotals).map(day => [day.date, day.unsubscribed]))
+  await saveSnapshots(server.id, ALL_STREAMS, ALL_TAGS, withUnsubscribes(fillRange(daily, range), serverUnsubscribes))
+
+  for (const [tag, series] of Array.from(tagTotals.entries())) {
+    await saveSnapshots(server.id, ALL_STREAMS, tag, sumByDay(series))
+  }
+
+  const tags = Array.from(tagTotals.keys()).sort()
+  console.log(`Synced ${range.length} days, ${streams.length} streams and ${tags.length} tags of server ${server.id} from ${fromDate} to ${toDate}`)
+
+  return { days: range.length, tags, streams }
+}
+
+// Opens and clicks keep arriving for a few days after a send, so the most
+// recent days are re-fetched, at most every POSTMARK_SYNC_INTERVAL_MINUTES. The default server keeps the
+// original source name so its existing coverage still counts.
+export function getPostmarkSyncSource(server: PostmarkServerConfig): SyncSource {
+  return {
+    name: server.id === DEFAULT_SERVER ? 'postmark' : `postmark:server:${server.id}`,
+    lookbackDays: getLookbackDays('POSTMARK_SYNC_LOOKBACK_DAYS', 2),
+    minIntervalMinutes: getLookbackDays('POSTMARK_SYNC_INTERVAL_MINUTES', 15),
+    syncRange: async (fromDate, toDate) => {
+      await syncSnapshots(server, fromDate, toDate)
+    }
+  }
+}
+
+// One server at a time, like the streams and tags within a server's sync
+export async function syncPostmarkServers(
+  servers: PostmarkServerConfig[],
+  range: SyncRange,
+  options: { force?: boolean } = {}
+): Promise<SyncResult[]> {
+  const results: SyncResult[] = []
+  for (const server of servers) {
+    results.push(await runSync(getPostmarkSyncSource(server), range, options))
+  }
+  return results
+}
@@ -0,0 +1,85 @@
+import { prisma } from '@/lib/db'
+
+// Small JSON values that have to outlive a single serverless invocation, such
+// as rate limiter buckets and API response caches. Netlify functions start
+// with empty process memory on every cold start, so deployments keep this
+// state in SQLite; tests use the in-memory store.
+export interface StateStore {
+  get<T>(key: string): Promise<T | undefined>
+  // ttlMs of undefined keeps the value until it is overwritten or deleted
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+export class MemoryStateStore implements StateStore {
+  private entries = new Map<string, { value: string; expiresAt: number | null }>()
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+    // Round-trip through JSON so callers see the same values as with SQLite
+    return JSON.parse(entry.value) as T
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    this.entries.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: ttlMs === undefined ? null : Date.now() + ttlMs
+    })
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+}
+
+export class PrismaStateStore implements StateStore {
+  async get<T>(key: string): Promise<T | undefined> {
+    const row = await prisma.keyValue.findUnique({ where: { key } })
+    if (!row) {
+      return undefined
+    }
+    if (row.expiresAt && row.expiresAt.getTime() <= Date.now()) {
+      await prisma.keyValue.deleteMany({ where: { key, expiresAt: row.expiresAt } })
+      return undefined
+    }
+    return JSON.parse(row.value) as T
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const data = {
+      value: JSON.stringify(value),
+      expiresAt: ttlMs === undefined ? null : new Date(Date.now() + ttlMs)
+    }
+    await prisma.keyValue.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: data
+    })
+  }
+
+  async delete(key: string): Promise<void> {
+    await prisma.keyValue.deleteMany({ where: { key } })
+  }
+}
+
+let stateStore: StateStore | undefined
+
+// STATE_STORE=memory or STATE_STORE=database; tests default to memory
+export function getStateStore(): StateStore {
+  if (!stateStore) {
+    const kind = process.env.STATE_STORE || (process.env.NODE_ENV === 'test' ? 'memory' : 'database')
+    stateStore = kind === 'memory' ? new MemoryStateStore() : new PrismaStateStore()
+  }
+  return stateStore
+}
+
+export function setStateStore(store: StateStore): void {
+  stateStore = store
+}
@@ -0,0 +1,159 @@
+import { addDays, eachDayOfInterval, format, parseISO, subDays } from 'date-fns'
+import { prisma } from '@/lib/db'
+
+export interface SyncRange {
+  from: string
+  to: string
+}
+
+export interface SyncSource {
+  // Key in SyncState, e.g. "postmark" or "facebook:act_123"
+  name: string
+  // Days before the last synced day that are fetched again on every sync,
+  // for upstreams that keep revising recent data (late opens, ad attribution)
+  lookbackDays: number
+  // Minutes after a sync during which the look-back window isn't fetched
+  // again, so page loads don't repeat it; days outside the stored range still are
+  minIntervalMinutes?: number
+  // Fetches the inclusive range from upstream and merges it into storage
+  syncRange(from: string, to: string): Promise<void>
+}
+
+export interface SyncCoverage extends SyncRange {
+  // When the coverage was last recorded
+  updatedAt: Date
+}
+
+export interface SyncResult {
+  source: string
+  fetched: SyncRange[]
+}
+
+// Stored days are midnight UTC so they compare equal regardless of server timezone
+export function toStoredDate(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`)
+}
+
+export function fromStoredDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+export function daysInRange(from: string, to: string): string[] {
+  return eachDayOfInterval({ start: parseISO(from), end: parseISO(to) })
+    .map(day => format(day, 'yyyy-MM-dd'))
+}
+
+export function getLookbackDays(envVar: string, fallback: number): number {
+  const value = parseInt(process.env[envVar] || '')
+  return isNaN(value) || value < 0 ? fallback : value
+}
+
+function shiftDay(day: string, amount: number): string {
+  return format(addDays(parseISO(day), amount), 'yyyy-MM-dd')
+}
+
+function minDay(a: string, b: string): string {
+  return a < b ? a : b
+}
+
+function maxDay(a: string, b: string): string {
+  return a > b ? a : b
+}
+
+// Works out which ranges have to be fetched so that stored coverage stays one
+// contiguous block: days before the first synced day, and everything from the
+// look-back window onwards.
+export function planSync(
+  requested: SyncRange,
+  coverage: SyncRange | null,
+  lookbackDays: number,
+  force = false
+): SyncRange[] {
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const to = minDay(requested.to, today)
+  const from = requested.from
+
+  if (from > to) {
+    return []
+  }
+
+  if (!coverage) {
+    return [{ from, to }]
+  }
+
+  const ranges: SyncRange[] = []
+
+  if (from < coverage.from) {
+    ranges.push({ from, to: shiftDay(coverage.from, -1) })
+  }
+
+  const lookbackStart = shiftDay(coverage.to, 1 - lookbackDays)
+  const tailStart = minDay(maxDay(lookbackStart, from), shiftDay(coverage.to, 1))
+  if (to >= tailStart) {
+    // Don't overlap the head range when the look-back reaches past the first synced day
+    ranges.push({ from: ranges.length > 0 ? maxDay(tailStart, coverage.from) : tailStart, to })
+  }
+
+  if (force) {
+    const starts = [from, ...ranges.map(range => range.from)]
+    const ends = [to, ...ranges.map(range => range.to)]
+    return [{ from: starts.reduce(minDay), to: ends.reduce(maxDay) }]
+  }
+
+  return ranges
+}
+
+export async function getCoverage(source: string): Promise<SyncCoverage | null> {
+  const state = await prisma.syncState.findUnique({ where: { source } })
+  if (!state) return null
+
+  return {
+    from: fromStoredDate(state.firstSyncedDate),
+    to: fromStoredDate(state.lastSyncedDate),
+    updatedAt: state.updatedAt
+  }
+}
+
+export async function recordSync(source: string, range: SyncRange): Promise<void> {
+  const coverage = await getCoverage(source)
+  const from = coverage ? minDay(coverage.from, range.from) : range.from
+  const to = coverage ? maxDay(coverage.to, range.to) : range.to
+
+  await prisma.syncState.upsert({
+    where: { source },
+    create: { source, firstSyncedDate: toStoredDate(from), lastSyncedDate: toStoredDate(to) },
+    update: { firstSyncedDate: toStoredDate(from), lastSyncedDate: toStoredDate(to) }
+  })
+}
+
+// Forgets what was synced, so the next request fetches the whole range again
+export async function clearCoverage(source: string): Promise<void> {
+  await prisma.syncState.deleteMany({ where: { source } })
+}
+
+export async function runSync(
+  source: SyncSource,
+  requested: SyncRange,
+  options: { force?: boolean } = {}
+): Promise<SyncResult> {
+  const coverage = await getCoverage(source.name)
+  const recentlySynced = !options.force && coverage !== null && source.minIntervalMinutes !== undefined &&
+    Date.now() - coverage.updatedAt.getTime() < source.minIntervalMinutes * 60 * 1000
+  const ranges = planSync(requested, coverage, recentlySynced ? 0 : source.lookbackDays, options.force)
+
+  for (const range of ranges) {
+    console.log(`Syncing ${source.name} from ${range.from} to ${range.to}`)
+    await source.syncRange(range.from, range.to)
+    await recordSync(source.name, range)
+  }
+
+  return { source: source.name, fetched: ranges }
+}
+
+export function defaultRange(days: number): SyncRange {
+  const to = new Date()
+  return {
+    from: format(subDays(to, days), 'yyyy-MM-dd'),
+    to: format(to, 'yyyy-MM-dd')
+  }
+}
@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import type { ThriveCartTransaction } from '@/lib/thrivecart';
+import { getStateStore } from '@/lib/state-store';
+
+export const THRIVECART_EVENTS = ['purchase', 'upsellaccept', 'abandon', 'refund', 'rebill', 'cancel'] as const;
+// Events that bring in revenue; rebills are subscription and payment plan charges
+export const SALE_EVENTS: ThriveCartTransaction['event'][] = ['purchase', 'upsellaccept', 'rebill'];
+export const THRIVECART_FIELDS = ['event', 'item_name', 'item_plan_name', 'date', 'checkbox_confirmation', 'price'] as const;
+export type ThriveCartField = typeof THRIVECART_FIELDS[number];
+
+// Without these a row can't be counted, so a sheet missing one is rejected
+export const REQUIRED_FIELDS: ThriveCartField[] = ['event', 'item_name', 'date', 'price'];
+
+export type ColumnAliases = Record<ThriveCartField, string[]>;
+
+// Header names (after normalizeHeader) accepted for each field
+export const DEFAULT_COLUMN_ALIASES: ColumnAliases = {
+  event: ['event', 'event_type', 'type'],
+  item_name: ['item_name', 'item', 'product', 'product_name'],
+  item_plan_name: ['item_plan_name', 'plan', 'plan_name', 'pricing_option'],
+  date: ['date', 'order_date', 'created_at', 'timestamp'],
+  checkbox_confirmation: ['checkbox_confirmation', 'checkbox', 'confirmed'],
+  price: ['price', 'amount', 'total', 'order_total']
+};
+
+// Only the first rejections are kept in the report
+const MAX_REJECTIONS = 100;
+const REPORT_KEY = 'thrivecart:import-report';
+
+export interface ImportRejection {
+  source: string;
+  // Row number in the sheet, the header being row 1
+  row: number;
+  reason: string;
+}
+
+export interface ImportSourceSummary {
+  name: string;
+  accepted: number;
+  rejected: number;
+  // Header each field was read from, or null when the sheet doesn't have it
+  columns: Record<ThriveCartField, string | null>;
+  missingColumns: ThriveCartField[];
+}
+
+export interface ThriveCartImportReport {
+  importedAt: string;
+  accepted: number;
+  rejected: number;
+  rejections: ImportRejection[];
+  unknownEvents: { event: string; count: number }[];
+  sources: ImportSourceSummary[];
+}
+
+export interface SourceRows {
+  name: string;
+  // Header first
+  rows: string[][];
+}
+
+// Cells past the end of a short row are undefined
+const cell = () => z.string({ required_error: 'is missing' });
+
+// Dates start with YYYY-MM-DD. A time, separated by a space or by T as in ISO
+// 8601 exports, is stored as HH:MM:SS; fractions and offsets are dropped, so
+// the day is the one written in the source. Returns null without a day.
+export function normalizeTransactionDate(value: string): string | null {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?$)?/);
+  if (!match) return null;
+  return match[2] ? `${match[1]} ${match[2]}:${match[3]}:${match[4] ?? '00'}` : trimmed;
+}
+
+// The YYYY-MM-DD day of a transaction date, or null if it doesn't have one
+export function getTransactionDay(date: string): string | null {
+  const normalized = normalizeTransactionDate(date);
+  return normalized ? normalized.slice(0, 10) : null;
+}
+
+const ThriveCartRowSchema = z.object({
+  event: cell().trim().toLowerCase().pipe(z.enum(THRIVECART_EVENTS, {
+    errorMap: () => ({ message: 'is not a known event type' })
+  })),
+  item_name: cell().trim().min(1, 'is empty'),
+  item_plan_name: z.string().trim().default(''),
+  date: cell().transform((value, ctx) => {
+    const normalized = normalizeTransactionDate(value);
+    if (!normalized) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'must start with YYYY-MM-DD' });
+      return z.NEVER;
+    }
+    return normalized;
+  }),
+  checkbox_confirmation: z.string().optional().transform(value => value?.trim().toLowerCase() === 'true'),
+  // Currency symbols and thousands separators are dropped; an empty price is 0
+  price: z.preprocess(
+    value => {
+      if (typeof value !== 'string') return value;
+      const cleaned = value.replace(/[$,\s]/g, '');
+      return cleaned === '' ? 0 : Number(cleaned);
+    },
+    z.number({ required_error: 'is missing', invalid_type_error: 'must be a number' }).finite('must be a number')
+  )
+});
+
+export function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+// THRIVECART_COLUMN_ALIASES is a JSON object of extra header names per field,
+// e.g. {"price":["Order Amount"]}. They are tried before the defaults.
+export function getColumnAliases(value = process.env.THRIVECART_COLUMN_ALIASES): ColumnAliases {
+  if (!value || value.trim() === '') {
+    return DEFAULT_COLUMN_ALIASES;
+  }
+
+  let configured: unknown;
+  try {
+    configured = JSON.parse(value);
+  } catch {
+    throw new Error('Invalid THRIVECART_COLUMN_ALIASES: not valid JSON');
+  }
+
+  const parsed = z.record(z.array(z.string())).safeParse(configured);
+  if (!parsed.success) {
+    throw new Error('Invalid THRIVECART_COLUMN_ALIASES: expected an object of header name arrays');
+  }
+
+  const aliases = { ...DEFAULT_COLUMN_ALIASES };
+  Object.keys(parsed.data).forEach(field => {
+    if ((THRIVECART_FIELDS as readonly string[]).indexOf(field) === -1) {
+      throw new Error(`Invalid THRIVECART_COLUMN_ALIASES: unknown field "${field}"`);
+    }
+    const key = field as ThriveCartField;
+    aliases[key] = parsed.data[field].map(normalizeHeader).concat(DEFAULT_COLUMN_ALIASES[key]);
+  });
+  return aliases;
+}
+
+// Finds the column of every field by its header, whatever the column order
+export function mapColumns(header: string[], aliases: ColumnAliases = DEFAULT_COLUMN_ALIASES) {
+  const normalized = header.map(normalizeHeader);
+  const indexes = {} as Record<ThriveCartField, number>;
+  const columns = {} as Record<ThriveCartField, string | null>;
+
+  THRIVECART_FIELDS.forEach(field => {
+    const alias = aliases[field].find(name => normalized.indexOf(name) !== -1);
+    indexes[field] = alias ? normalized.indexOf(alias) : -1;
+    columns[field] = alias ? header[indexes[field]].trim() : null;
+  });
+
+  return {
+    indexes,
+    columns,
+    missing: REQUIRED_FIELDS.filter(field => indexes[field] === -1)
+  };
+}
+
+function formatIssues(issues: z.ZodIssue[]): string {
+  return issues.map(issue => `${issue.path.join('.')} ${issue.message}`.trim()).join('; ');
+}
+
+// Validates the rows of every source and merges the accepted ones. A source
+// without the required columns contributes no rows.
+export function importTransactions(sources: SourceRows[], aliases: ColumnAliases = DEFAULT_COLUMN_ALIASES): {
+  transactions: ThriveCartTransaction[];
+  report: ThriveCartImportReport;
+} {
+  const transactions: ThriveCartTransaction[] = [];
+  const rejections: ImportRejection[] = [];
+  const unknownEvents = new Map<string, number>();
+  const summaries: ImportSourceSummary[] = [];
+  let rejected = 0;
+
+  const reject = (rejection: ImportRejection) => {
+    rejected++;
+    if (rejections.length < MAX_REJECTIONS) {
+      rejections.push(rejection);
+    }
+  };
+
+  for (const source of sources) {
+    const [header = [], ...data] = source.rows;
+    const { indexes, columns, missing } = mapColumns(header, aliases);
+    const summary: ImportSourceSummary = { name: source.name, accepted: 0, rejected: 0, columns, missingColumns: missing };
+    summaries.push(summary);
+
+    if (missing.length > 0) {
+      summary.rejected = data.length;
+      rejected += data.length;
+      continue;
+    }
+
+    data.forEach((row, index) => {
+      const input = {} as Record<ThriveCartField, string | undefined>;
+      THRIVECART_FIELDS.forEach(field => {
+        input[field] = indexes[field] === -1 ? undefined : row[indexes[field]];
+      });
+
+      const parsed = ThriveCartRowSchema.safeParse(input);
+      if (parsed.success) {
+        transactions.push(parsed.data);
+        summary.accepted++;
+        return;
+      }
+
+      const event = (input.event ?? '').trim().toLowerCase();
+      if (event !== '' && (THRIVECART_EVENTS as readonly string[]).indexOf(event) === -1) {
+        unknownEvents.set(event, (unknownEvents.get(event) ?? 0) + 1);
+      }
+      summary.rejected++;
+      reject({ source: source.name, row: index + 2, reason: formatIssues(parsed.error.issues) });
+    });
+  }
+
+  return {
+    transactions,
+    report: {
+      importedAt: new Date().toISOString(),
+      accepted: transactions.length,
+      rejected,
+      rejections,
+      unknownEvents: Array.from(unknownEvents.entries())
+        .map(([event, count]) => ({ event, count }))
+        .sort((a, b) => b.count - a.count),
+      sources: summaries
+    }
+  };
+}
+
+export async function getImportReport(): Promise<ThriveCartImportReport | null> {
+  return (await getStateStore().get<ThriveCartImportReport>(REPORT_KEY)) ?? null;
+}
+
+// Kept until the next import replaces it
+export async function saveImportReport(report: ThriveCartImportReport): Promise<void> {
+  await getStateStore().set(REPORT_KEY, report);
+}
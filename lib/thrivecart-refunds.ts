@@ -0,0 +1,59 @@
+import type { ThriveCartTransaction } from '@/lib/thrivecart';
+import { SALE_EVENTS } from '@/lib/thrivecart-import';
+
+export interface RefundMatch {
+  refund: ThriveCartTransaction;
+  // Positive amount returned to the customer
+  amount: number;
+  // Product the revenue is taken back from
+  product: string;
+  // The sale it was matched to, or null when none was found
+  purchase: ThriveCartTransaction | null;
+}
+
+export const UNMATCHED_PRODUCT = 'Unmatched refunds';
+
+const isSale = (transaction: ThriveCartTransaction) => SALE_EVENTS.indexOf(transaction.event) !== -1;
+
+// Sheets record refunds either as negative or as positive amounts
+export function refundAmount(refund: ThriveCartTransaction): number {
+  return Math.abs(refund.price);
+}
+
+// The export has no order or customer IDs, so every refund is matched to the
+// latest earlier sale it could belong to that isn't matched yet: the same
+// product (or plan) for at least the refunded amount, or failing that a sale
+// of exactly that amount. `sales` may include sales before the range, for
+// refunds of older orders.
+export function matchRefunds(transactions: ThriveCartTransaction[], sales: ThriveCartTransaction[] = transactions): RefundMatch[] {
+  const candidates = sales
+    .filter(isSale)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const used = new Set<ThriveCartTransaction>();
+
+  return transactions
+    .filter(transaction => transaction.event === 'refund')
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(refund => {
+      const amount = refundAmount(refund);
+      const open = candidates.filter(sale => !used.has(sale) && sale.date <= refund.date);
+
+      const purchase =
+        open.find(sale => refund.item_name !== '' && sale.item_name === refund.item_name && sale.price >= amount) ??
+        open.find(sale => refund.item_plan_name !== '' && sale.item_plan_name === refund.item_plan_name && sale.price >= amount) ??
+        open.find(sale => amount > 0 && sale.price === amount) ??
+        null;
+
+      if (purchase) {
+        used.add(purchase);
+      }
+
+      return {
+        refund,
+        // A refund without an amount gives back the whole sale
+        amount: amount || purchase?.price || 0,
+        product: purchase?.item_name || refund.item_name || UNMATCHED_PRODUCT,
+        purchase
+      };
+    });
+}
@@ -0,0 +1,273 @@
+import { timingSafeEqual } from 'crypto';
+import { lookup } from 'dns/promises';
+import type { IncomingHttpHeaders } from 'http';
+import { isIP } from 'net';
+import Papa from 'papaparse';
+import { z } from 'zod';
+import { thrivecartRateLimiter } from '@/lib/rate-limiter';
+import { getStateStore } from '@/lib/state-store';
+import { getColumnAliases, importTransactions, ImportSourceSummary } from '@/lib/thrivecart-import';
+
+export interface ThriveCartSource {
+  name: string;
+  url: string;
+}
+
+export const ThriveCartSourcesSchema = z.object({
+  sources: z.array(z.object({
+    name: z.string().trim().min(1),
+    url: z.string().trim().url()
+  })).min(1)
+});
+
+export interface ThriveCartSourceSettings {
+  sources: ThriveCartSource[];
+  // Saved through /api/thrivecart/sources, read from THRIVECART_CSV_URLS, or
+  // the sheet the dashboard read before sources were configurable
+  origin: 'settings' | 'env' | 'default';
+}
+
+export interface SourceProblem {
+  // Errors stop a source from being saved; warnings only lose some rows
+  level: 'error' | 'warning';
+  message: string;
+}
+
+export interface SourceValidation {
+  url: string;
+  ok: boolean;
+  columns: string[];
+  // Header each field would be read from
+  mapping: ImportSourceSummary['columns'] | null;
+  // Data rows, not counting the header
+  rowCount: number;
+  problems: SourceProblem[];
+}
+
+const SETTINGS_KEY = 'thrivecart:sources';
+
+// Read when neither saved sources nor THRIVECART_CSV_URLS are set, so
+// deployments that predate them keep working
+const DEFAULT_SOURCE: ThriveCartSource = {
+  name: 'Sheet 1',
+  url: 'https://docs.google.com/spreadsheets/d/e/2PACX-1vSTi7NRqAnk8OxsPdaUURzmpO63lufSWoufd5PNfUBE18xLHwdKqSDZU9l_EIgBmN5CSv3r0U_YAlk6/pub?gid=0&single=true&output=csv'
+};
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+// Validating and changing sources makes the server fetch any URL, so those
+// requests carry THRIVECART_ADMIN_SECRET in an X-Admin-Secret header
+export function authenticateSourceAdmin(headers: IncomingHttpHeaders): { authorized: boolean; error?: string } {
+  const secret = process.env.THRIVECART_ADMIN_SECRET;
+  if (!secret) {
+    return { authorized: false, error: 'Source management is not configured; set THRIVECART_ADMIN_SECRET' };
+  }
+
+  const provided = headers['x-admin-secret'];
+  if (typeof provided === 'string' && safeEqual(provided, secret)) {
+    return { authorized: true };
+  }
+  return { authorized: false, error: 'Invalid admin secret' };
+}
+
+// Loopback, private, link-local and unspecified addresses, which a source
+// must not point at
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(part => parseInt(part, 10));
+    return a === 0
+      || a === 10
+      || a === 127
+      || (a === 100 && b >= 64 && b < 128)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b < 32)
+      || (a === 192 && b === 168);
+  }
+
+  const lower = address.toLowerCase();
+  return lower === '::'
+    || lower === '::1'
+    || /^f[cd][0-9a-f]{0,2}:/.test(lower)
+    || /^fe[89ab][0-9a-f]?:/.test(lower);
+}
+
+// Why the server shouldn't fetch the URL, or null if it may. Host names are
+// resolved so that names pointing at internal addresses are caught as well.
+export async function checkSourceUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'URL is not valid';
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'URL must start with http:// or https://';
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return 'URL must not point at a private or local address';
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    return `Could not resolve ${host}`;
+  }
+
+  return addresses.some(isPrivateAddress) ? 'URL must not point at a private or local address' : null;
+}
+
+// Where the dashboard reads transactions from: the CSV sources, the
+// transactions received by /api/webhooks/thrivecart, or both merged
+export type ThriveCartDataSource = 'csv' | 'webhook' | 'both';
+
+export function getThriveCartDataSource(): ThriveCartDataSource {
+  const value = process.env.THRIVECART_DATA_SOURCE;
+  return value === 'webhook' || value === 'both' ? value : 'csv';
+}
+
+// Comma or newline separated URLs, each optionally named as name=url
+export function parseSourceList(value: string | undefined): ThriveCartSource[] {
+  return (value ?? '')
+    .split(/[\n,]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '')
+    .map((entry, index) => {
+      const named = entry.match(/^([^=\s]+)=(https?:\/\/.+)$/);
+      return named
+        ? { name: named[1], url: named[2] }
+        : { name: `Sheet ${index + 1}`, url: entry };
+    });
+}
+
+export async function getThriveCartSources(): Promise<ThriveCartSourceSettings> {
+  const saved = await getStateStore().get<ThriveCartSource[]>(SETTINGS_KEY);
+  if (saved && saved.length > 0) {
+    return { sources: saved, origin: 'settings' };
+  }
+  const configured = parseSourceList(process.env.THRIVECART_CSV_URLS);
+  if (configured.length > 0) {
+    return { sources: configured, origin: 'env' };
+  }
+  return { sources: [DEFAULT_SOURCE], origin: 'default' };
+}
+
+export async function saveThriveCartSources(sources: ThriveCartSource[]): Promise<void> {
+  await getStateStore().set(SETTINGS_KEY, sources);
+}
+
+// Falls back to THRIVECART_CSV_URLS
+export async function clearThriveCartSources(): Promise<void> {
+  await getStateStore().delete(SETTINGS_KEY);
+}
+
+const MAX_REDIRECTS = 5;
+
+// Published sheets redirect to googleusercontent.com. Redirects are followed
+// by hand so that every URL is checked like the source itself, right before
+// it is requested, and a public URL can't redirect to an internal one.
+async function fetchSource(url: string): Promise<Response> {
+  let target = url;
+  for (let redirects = 0; ; redirects++) {
+    const problem = await checkSourceUrl(target);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const response = await thrivecartRateLimiter.fetch(target, { redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+    }
+    target = new URL(location, target).toString();
+  }
+}
+
+// Rows of the CSV, header included. A sheet that isn't published to the web
+// answers with a Google sign-in page instead of CSV.
+export async function fetchSourceRows(url: string): Promise<{ rows: string[][]; errors: Papa.ParseError[] }> {
+  const response = await fetchSource(url);
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const csvText = await response.text();
+  if (/^\s*<(!doctype|html)/i.test(csvText)) {
+    throw new Error('Received an HTML page instead of CSV; publish the sheet to the web as CSV');
+  }
+
+  const parsed = Papa.parse<string[]>(csvText, {
+    header: false,
+    skipEmptyLines: true
+  });
+  return { rows: parsed.data, errors: parsed.errors };
+}
+
+// Fetches a source and reports what the import would make of it
+export async function validateThriveCartSource(url: string): Promise<SourceValidation> {
+  const result: SourceValidation = { url, ok: false, columns: [], mapping: null, rowCount: 0, problems: [] };
+
+  // Unsafe URLs are refused by the fetch
+  let rows: string[][];
+  try {
+    const fetched = await fetchSourceRows(url);
+    rows = fetched.rows;
+    fetched.errors.slice(0, 5).forEach(error => {
+      result.problems.push({ level: 'warning', message: `CSV row ${(error.row ?? 0) + 1}: ${error.message}` });
+    });
+  } catch (error) {
+    result.problems.push({ level: 'error', message: error instanceof Error ? error.message : 'Could not fetch the source' });
+    return result;
+  }
+
+  const [header = []] = rows;
+  result.columns = header.map(column => column.trim());
+  result.rowCount = Math.max(rows.length - 1, 0);
+
+  if (header.length === 0) {
+    result.problems.push({ level: 'error', message: 'The source is empty' });
+    return result;
+  }
+
+  // The same import the sync runs, so the warnings match what will be rejected
+  const { report } = importTransactions([{ name: url, rows }], getColumnAliases());
+  const [summary] = report.sources;
+  result.mapping = summary.columns;
+
+  if (summary.missingColumns.length > 0) {
+    result.problems.push({
+      level: 'error',
+      message: `Missing columns: ${summary.missingColumns.join(', ')}. Rename the headers or add them to THRIVECART_COLUMN_ALIASES`
+    });
+  } else if (result.rowCount === 0) {
+    result.problems.push({ level: 'warning', message: 'The source has no data rows' });
+  } else if (report.rejected > 0) {
+    const examples = report.rejections.slice(0, 3).map(rejection => `row ${rejection.row}: ${rejection.reason}`);
+    result.problems.push({ level: 'warning', message: `${report.rejected} of ${result.rowCount} rows will be rejected (${examples.join('; ')})` });
+  }
+
+  if (report.unknownEvents.length > 0) {
+    result.problems.push({
+      level: 'warning',
+      message: `Unknown event types: ${report.unknownEvents.map(unknown => `${unknown.event} (${unknown.count})`).join(', ')}`
+    });
+  }
+
+  result.ok = result.problems.every(problem => problem.level !== 'error');
+  return result;
+}
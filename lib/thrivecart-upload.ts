@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import type { ThriveCartTransaction } from '@/lib/thrivecart';
+import {
+  ColumnAliases,
+  getColumnAliases,
+  ImportRejection,
+  importTransactions,
+  normalizeHeader,
+  normalizeTransactionDate,
+  THRIVECART_FIELDS,
+  ThriveCartField,
+  ThriveCartImportReport
+} from '@/lib/thrivecart-import';
+import { toStoredDate } from '@/lib/sync';
+
+export const ThriveCartUploadSchema = z.object({
+  fileName: z.string().trim().min(1),
+  // Parsed in the browser, header first
+  rows: z.array(z.array(z.string())).min(1),
+  // Header to read a field from, overriding the aliases; '' leaves it unmapped
+  columns: z.record(z.enum(THRIVECART_FIELDS), z.string()).optional(),
+  // Only report what would be imported
+  dryRun: z.boolean().optional()
+});
+
+export type ThriveCartUpload = z.infer<typeof ThriveCartUploadSchema>;
+
+export interface ThriveCartUploadResult {
+  fileName: string;
+  headers: string[];
+  rowCount: number;
+  columns: ThriveCartImportReport['sources'][number]['columns'];
+  missingColumns: ThriveCartField[];
+  accepted: number;
+  rejected: number;
+  rejections: ImportRejection[];
+  unknownEvents: ThriveCartImportReport['unknownEvents'];
+  // Accepted rows earlier uploads already stored; a row the file repeats only
+  // counts as a duplicate as often as they stored it
+  duplicates: number;
+  // New rows the sheet has as well. They are stored, but only counted while
+  // the sheet doesn't have them (as often).
+  inSheet: number;
+  // Rows stored by this upload; always 0 for a dry run
+  imported: number;
+  // First new rows, for the preview
+  preview: ThriveCartTransaction[];
+}
+
+const PREVIEW_ROWS = 10;
+
+// Identifies a row across exports, the sheet and earlier uploads. Dates are
+// compared in their stored form and prices to the cent, so "99" and "99.00"
+// or a T separated date match.
+export function transactionFingerprint(transaction: ThriveCartTransaction): string {
+  const price = Math.round(transaction.price * 100) / 100;
+  return [
+    transaction.event,
+    transaction.item_name.trim().toLowerCase(),
+    transaction.item_plan_name.trim().toLowerCase(),
+    normalizeTransactionDate(transaction.date) ?? transaction.date.trim(),
+    (price === 0 ? 0 : price).toFixed(2)
+  ].join('|');
+}
+
+// Uploaded rows store their fingerprint with the occurrence they are, e.g. the
+// second of two identical rows ends in #2. Rows stored without one are the first.
+export function getOccurrence(storedFingerprint: string | null): number {
+  const match = storedFingerprint?.match(/#(\d+)$/);
+  return match ? parseInt(match[1], 10) : 1;
+}
+
+function getUploadAliases(columns: ThriveCartUpload['columns']): ColumnAliases {
+  const aliases = { ...getColumnAliases() };
+  if (columns) {
+    (Object.keys(columns) as ThriveCartField[]).forEach(field => {
+      const header = columns[field] ?? '';
+      aliases[field] = header === '' ? [] : [normalizeHeader(header)];
+    });
+  }
+  return aliases;
+}
+
+interface StoredCounts {
+  // The highest occurrence of each row earlier uploads stored
+  uploaded: Map<string, number>;
+  // How often the sheet has each row
+  sheet: Map<string, number>;
+}
+
+// The rows already stored on the days the upload covers
+async function getStoredCounts(transactions: ThriveCartTransaction[]): Promise<StoredCounts> {
+  const days = transactions.map(transaction => transaction.date.slice(0, 10)).sort();
+  const counts: StoredCounts = { uploaded: new Map(), sheet: new Map() };
+  if (days.length === 0) {
+    return counts;
+  }
+
+  const rows = await prisma.thriveCartTransaction.findMany({
+    where: { day: { gte: toStoredDate(days[0]), lte: toStoredDate(days[days.length - 1]) } }
+  });
+
+  rows.forEach(row => {
+    const fingerprint = transactionFingerprint({
+      event: row.event as ThriveCartTransaction['event'],
+      item_name: row.itemName,
+      item_plan_name: row.itemPlanName,
+      date: row.date,
+      checkbox_confirmation: row.checkboxConfirmation,
+      price: row.price
+    });
+    if (row.source === 'upload') {
+      counts.uploaded.set(fingerprint, Math.max(counts.uploaded.get(fingerprint) ?? 0, getOccurrence(row.fingerprint)));
+    } else {
+      counts.sheet.set(fingerprint, (counts.sheet.get(fingerprint) ?? 0) + 1);
+    }
+  });
+
+  return counts;
+}
+
+// Validates an uploaded export like a sheet import and stores the rows earlier
+// uploads haven't stored yet. Uploaded rows stay when the sheet sources change,
+// so rows the sheet has as well are stored too; the stats count them once.
+export async function importUpload(upload: ThriveCartUpload): Promise<ThriveCartUploadResult> {
+  const { transactions, report } = importTransactions(
+    [{ name: upload.fileName, rows: upload.rows }],
+    getUploadAliases(upload.columns)
+  );
+  const [summary] = report.sources;
+
+  // The nth copy of a row in the file is new unless earlier uploads stored
+  // it at least n times
+  const stored = await getStoredCounts(transactions);
+  const occurrences = new Map<string, number>();
+  const fresh: { transaction: ThriveCartTransaction; fingerprint: string }[] = [];
+  let inSheet = 0;
+  transactions.forEach(transaction => {
+    const fingerprint = transactionFingerprint(transaction);
+    const occurrence = (occurrences.get(fingerprint) ?? 0) + 1;
+    occurrences.set(fingerprint, occurrence);
+    if (occurrence > (stored.uploaded.get(fingerprint) ?? 0)) {
+      fresh.push({ transaction, fingerprint: `${fingerprint}#${occurrence}` });
+      if (occurrence <= (stored.sheet.get(fingerprint) ?? 0)) {
+        inSheet++;
+      }
+    }
+  });
+
+  if (!upload.dryRun && fresh.length > 0) {
+    await prisma.thriveCartTransaction.createMany({
+      data: fresh.map(({ transaction, fingerprint }) => ({
+        event: transaction.event,
+        itemName: transaction.item_name,
+        itemPlanName: transaction.item_plan_name,
+        date: transaction.date,
+        day: toStoredDate(transaction.date.slice(0, 10)),
+        checkboxConfirmation: transaction.checkbox_confirmation,
+        price: transaction.price,
+        source: 'upload',
+        fingerprint
+      }))
+    });
+  }
+
+  return {
+    fileName: upload.fileName,
+    headers: (upload.rows[0] ?? []).map(header => header.trim()),
+    rowCount: upload.rows.length - 1,
+    columns: summary.columns,
+    missingColumns: summary.missingColumns,
+    accepted: report.accepted,
+    rejected: report.rejected,
+    rejections: report.rejections,
+    unknownEvents: report.unknownEvents,
+    duplicates: transactions.length - fresh.length,
+    inSheet,
+    imported: upload.dryRun ? 0 : fresh.length,
+    preview: fresh.slice(0, PREVIEW_ROWS).map(({ transaction }) => transaction)
+  };
+}
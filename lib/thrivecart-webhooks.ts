@@ -0,0 +1,276 @@
+import { timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import type { DateRange, ThriveCartTransaction } from '@/lib/thrivecart';
+import { normalizeTransactionDate } from '@/lib/thrivecart-import';
+import { toStoredDate } from '@/lib/sync';
+
+// ThriveCart sends amounts in cents; ids arrive as strings or numbers
+const id = z.union([z.string(), z.number()]).transform(String);
+const cents = z.coerce.number().transform(amount => amount / 100);
+
+const ThriveCartChargeSchema = z.object({
+  name: z.string().optional(),
+  reference: id.optional(),
+  // product, bump, upsell or downsell
+  item_type: z.string().optional(),
+  amount: cents.optional(),
+  payment_plan_name: z.string().optional()
+}).passthrough();
+
+export const ThriveCartWebhookSchema = z.object({
+  event: z.string(),
+  mode: z.string().optional(),
+  thrivecart_secret: z.string().optional(),
+  order_id: id.optional(),
+  invoice_id: id.optional(),
+  base_product_name: z.string().optional(),
+  order_date: z.string().optional(),
+  order_timestamp: z.coerce.number().optional(),
+  order: z.object({
+    id: id.optional(),
+    invoice_id: id.optional(),
+    date: z.string().optional(),
+    total: cents.optional(),
+    charges: z.array(ThriveCartChargeSchema).optional()
+  }).passthrough().optional(),
+  refund: z.object({
+    id: id.optional(),
+    invoice_id: id.optional(),
+    amount: cents.optional(),
+    reference: id.optional(),
+    name: z.string().optional(),
+    date: z.string().optional()
+  }).passthrough().optional(),
+  subscription: z.object({
+    id: id.optional(),
+    name: z.string().optional()
+  }).passthrough().optional()
+}).passthrough();
+
+export type ThriveCartWebhook = z.infer<typeof ThriveCartWebhookSchema>;
+
+export const THRIVECART_WEBHOOK_EVENTS = [
+  'order.success',
+  'order.refund',
+  'order.subscription_payment',
+  'order.subscription_cancelled'
+];
+
+export interface WebhookTransaction extends ThriveCartTransaction {
+  // Identifies the charge across retried notifications
+  eventKey: string;
+  orderId: string;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+// ThriveCart puts the account's secret word into every notification
+export function authenticateThriveCartWebhook(body: { thrivecart_secret?: unknown }): { authorized: boolean; error?: string } {
+  const secret = process.env.THRIVECART_WEBHOOK_SECRET;
+  if (!secret) {
+    return { authorized: false, error: 'Webhook authentication is not configured' };
+  }
+
+  const provided = body.thrivecart_secret;
+  if (typeof provided === 'string' && safeEqual(provided, secret)) {
+    return { authorized: true };
+  }
+  return { authorized: false, error: 'Invalid webhook secret' };
+}
+
+// Notifications are form encoded with PHP style keys (order[charges][0][name]),
+// which the body parser leaves flat. Numbered keys become arrays.
+export function expandFormFields(body: Record<string, unknown>): Record<string, unknown> {
+  const expanded: Record<string, unknown> = {};
+
+  Object.keys(body).forEach(key => {
+    const path = key.replace(/\]/g, '').split('[');
+    let target = expanded;
+    path.forEach((part, index) => {
+      if (index === path.length - 1) {
+        target[part] = body[key];
+        return;
+      }
+      if (typeof target[part] !== 'object' || target[part] === null) {
+        target[part] = {};
+      }
+      target = target[part] as Record<string, unknown>;
+    });
+  });
+
+  const toArrays = (value: unknown): unknown => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return value;
+    }
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record);
+    Object.keys(record).forEach(key => {
+      record[key] = toArrays(record[key]);
+    });
+    return keys.length > 0 && keys.every(key => /^\d+$/.test(key))
+      ? keys.sort((a, b) => parseInt(a) - parseInt(b)).map(key => record[key])
+      : record;
+  };
+
+  return toArrays(expanded) as Record<string, unknown>;
+}
+
+// Days are derived from the date text, so instants are written in UTC rather
+// than the server's time zone
+function formatUtc(instant: Date): string {
+  return instant.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// The time the event happened according to ThriveCart, or null if the
+// notification doesn't say. The order dates of a refund are those of the
+// refunded sale, so only the refund's own date counts.
+function getEventDate(webhook: ThriveCartWebhook): string | null {
+  if (webhook.event === 'order.refund') {
+    return webhook.refund?.date ?? null;
+  }
+  if (webhook.order_timestamp) {
+    return formatUtc(new Date(webhook.order_timestamp * 1000));
+  }
+  return webhook.order?.date ?? webhook.order_date ?? null;
+}
+
+// Turns a notification into the transactions it stands for. Keys are built
+// from ThriveCart's own IDs and dates only, so a retried notification maps
+// onto the same rows.
+export function toWebhookTransactions(webhook: ThriveCartWebhook, receivedAt = new Date()): WebhookTransaction[] {
+  const orderId = webhook.order_id ?? webhook.order?.id;
+  if (!orderId) {
+    throw new Error('Notification has no order_id');
+  }
+
+  const invoiceId = webhook.invoice_id ?? webhook.order?.invoice_id ?? '';
+  const eventDate = getEventDate(webhook);
+  // Stored like sheet dates, so ISO 8601 dates group into the same days
+  const date = (eventDate ? normalizeTransactionDate(eventDate) : null) ?? formatUtc(receivedAt);
+  const productName = webhook.base_product_name ?? '';
+  const base = { orderId, date, checkbox_confirmation: false };
+  const key = (...parts: (string | number | undefined)[]) =>
+    [webhook.event, orderId, invoiceId, ...parts].map(part => part ?? '').join(':');
+
+  switch (webhook.event) {
+    case 'order.success':
+    case 'order.subscription_payment': {
+      const charges = webhook.order?.charges ?? [];
+      const rebill = webhook.event === 'order.subscription_payment';
+
+      if (charges.length === 0) {
+        return [{
+          ...base,
+          eventKey: key(eventDate ?? ''),
+          event: rebill ? 'rebill' : 'purchase',
+          item_name: productName,
+          item_plan_name: '',
+          price: webhook.order?.total ?? 0
+        }];
+      }
+
+      return charges.map((charge, index) => ({
+        ...base,
+        eventKey: key(charge.reference ?? index, rebill ? eventDate ?? '' : undefined),
+        event: rebill
+          ? 'rebill'
+          : charge.item_type === 'upsell' || charge.item_type === 'downsell' ? 'upsellaccept' : 'purchase',
+        item_name: charge.name ?? productName,
+        item_plan_name: charge.payment_plan_name ?? '',
+        price: charge.amount ?? 0
+      }));
+    }
+
+    case 'order.refund':
+      return [{
+        ...base,
+        // Partial refunds of one order share its IDs, so the refund's own
+        // ID, reference or invoice tells them apart
+        eventKey: key(
+          webhook.refund?.id ?? webhook.refund?.reference,
+          webhook.refund?.invoice_id,
+          webhook.refund?.amount,
+          eventDate ?? ''
+        ),
+        event: 'refund',
+        item_name: webhook.refund?.name ?? productName,
+        item_plan_name: '',
+        price: webhook.refund?.amount ?? 0
+      }];
+
+    case 'order.subscription_cancelled':
+      return [{
+        ...base,
+        eventKey: key(webhook.subscription?.id),
+        event: 'cancel',
+        item_name: webhook.subscription?.name ?? productName,
+        item_plan_name: '',
+        price: 0
+      }];
+
+    default:
+      return [];
+  }
+}
+
+// Stores each transaction at most once; returns how many were new
+export async function storeThriveCartWebhook(webhook: ThriveCartWebhook, payload: unknown): Promise<number> {
+  const transactions = toWebhookTransactions(webhook);
+  const existing = await prisma.thriveCartWebhookEvent.findMany({
+    where: { eventKey: { in: transactions.map(transaction => transaction.eventKey) } },
+    select: { eventKey: true }
+  });
+  const known = new Set(existing.map(row => row.eventKey));
+
+  // The secret is not kept with the payload
+  const stored = JSON.stringify({ ...(payload as Record<string, unknown>), thrivecart_secret: undefined });
+
+  for (const transaction of transactions) {
+    await prisma.thriveCartWebhookEvent.upsert({
+      where: { eventKey: transaction.eventKey },
+      create: {
+        eventKey: transaction.eventKey,
+        webhookEvent: webhook.event,
+        event: transaction.event,
+        orderId: transaction.orderId,
+        itemName: transaction.item_name,
+        itemPlanName: transaction.item_plan_name,
+        date: transaction.date,
+        day: toStoredDate(transaction.date.slice(0, 10)),
+        price: transaction.price,
+        payload: stored
+      },
+      update: {}
+    });
+  }
+
+  return transactions.filter(transaction => !known.has(transaction.eventKey)).length;
+}
+
+// Webhook transactions in the range (or all of them), optionally only some events
+export async function getWebhookTransactions(
+  dateRange?: DateRange,
+  events?: ThriveCartTransaction['event'][]
+): Promise<ThriveCartTransaction[]> {
+  const rows = await prisma.thriveCartWebhookEvent.findMany({
+    where: {
+      ...(dateRange && { day: { gte: toStoredDate(dateRange.from), lte: toStoredDate(dateRange.to) } }),
+      ...(events && { event: { in: events } })
+    },
+    orderBy: { date: 'asc' }
+  });
+
+  return rows.map(row => ({
+    event: row.event as ThriveCartTransaction['event'],
+    item_name: row.itemName,
+    item_plan_name: row.itemPlanName,
+    date: row.date,
+    checkbox_confirmation: false,
+    price: row.price
+  }));
+}
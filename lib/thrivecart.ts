@@ -1,8 +1,16 @@
-import Papa from 'papaparse';
-import { format, subDays, isAfter, isBefore, parseISO } from 'date-fns';
+import { format, isAfter, isBefore, parseISO, subDays } from 'date-fns';
+import type { Prisma, ThriveCartTransaction as ThriveCartTransactionRow } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { clearCoverage, getLookbackDays, recordSync, runSync, SyncSource, toStoredDate } from '@/lib/sync';
+import { getStateStore } from '@/lib/state-store';
+import { fetchSourceRows, getThriveCartDataSource, getThriveCartSources, ThriveCartDataSource } from '@/lib/thrivecart-sources';
+import { getColumnAliases, getImportReport, getTransactionDay, importTransactions, SALE_EVENTS, saveImportReport, ThriveCartImportReport } from '@/lib/thrivecart-import';
+import { matchRefunds, RefundMatch } from '@/lib/thrivecart-refunds';
+import { getWebhookTransactions } from '@/lib/thrivecart-webhooks';
+import { getOccurrence, transactionFingerprint } from '@/lib/thrivecart-upload';
 
 export interface ThriveCartTransaction {
-  event: 'purchase' | 'upsellaccept' | 'abandon' | 'refund';
+  event: 'purchase' | 'upsellaccept' | 'abandon' | 'refund' | 'rebill' | 'cancel';
   item_name: string;
   item_plan_name: string;
   date: string;
@@ -11,10 +19,19 @@ export interface ThriveCartTransaction {
 }
 
 export interface ThriveCartStats {
+  // Gross revenue of purchases, upsells and rebills
   totalRevenue: number;
+  // Gross revenue less the amounts refunded in the range
+  netRevenue: number;
+  totalRefunds: number;
+  refundedAmount: number;
+  // Refunds per sale, in percent
+  refundRate: number;
   totalTransactions: number;
   totalPurchases: number;
   totalUpsells: number;
+  totalRebills: number;
+  totalCancellations: number;
   totalAbandoned: number;
   conversionRate: number;
   upsellConversionRate: number;
@@ -24,11 +41,17 @@ export interface ThriveCartStats {
   recentTransactions: ThriveCartTransaction[];
   timeRange: string;
   lastUpdated: string;
+  // Outcome of the latest sheet import, which may be newer than the stats
+  importReport?: ThriveCartImportReport | null;
 }
 
 export interface DailyStats {
   date: string;
   revenue: number;
+  // Refunds count on the day they were issued
+  refunds: number;
+  refundedAmount: number;
+  netRevenue: number;
   transactions: number;
   purchases: number;
   upsells: number;
@@ -37,6 +60,10 @@ export interface DailyStats {
 export interface ProductStats {
   name: string;
   revenue: number;
+  // Refunds are attributed to the product of the sale they were matched to
+  refunds: number;
+  refundedAmount: number;
+  netRevenue: number;
   quantity: number;
   averagePrice: number;
 }
@@ -46,12 +73,22 @@ export interface DateRange {
   to: string;
 }
 
-const CSV_URL = 'https://docs.google.com/spreadsheets/d/e/2PACX-1vSTi7NRqAnk8OxsPdaUURzmpO63lufSWoufd5PNfUBE18xLHwdKqSDZU9l_EIgBmN5CSv3r0U_YAlk6/pub?gid=0&single=true&output=csv';
-
 export class ThriveCartService {
   private static instance: ThriveCartService;
-  private cache: Map<string, { data: ThriveCartStats; timestamp: number }> = new Map();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  // Expired entries are still served when the upstream fetch fails
+  private readonly CACHE_RETENTION = 24 * 60 * 60 * 1000; // 1 day
+
+  // The sheet is kept in sync by hand, so rows for the last couple of days
+  // can still show up late
+  private readonly syncSource: SyncSource = {
+    name: 'thrivecart',
+    lookbackDays: getLookbackDays('THRIVECART_SYNC_LOOKBACK_DAYS', 2),
+    syncRange: async (from, to) => {
+      const transactions = await this.fetchTransactions();
+      await this.storeTransactions(this.filterTransactionsByDate(transactions, { from, to }), { from, to });
+    }
+  };
 
   static getInstance(): ThriveCartService {
     if (!ThriveCartService.instance) {
@@ -61,39 +98,52 @@ export class ThriveCartService {
   }
 
   async fetchData(forceRefresh = false, dateRange?: DateRange): Promise<ThriveCartStats> {
+    const stats = await this.loadStats(forceRefresh, dateRange);
+    const importReport = await getImportReport().catch(error => {
+      console.warn('Could not read the ThriveCart import report:', error);
+      return null;
+    });
+    return { ...stats, importReport };
+  }
+
+  private async loadStats(forceRefresh: boolean, dateRange?: DateRange): Promise<ThriveCartStats> {
     const now = Date.now();
     
     // Create cache key based on date range
-    const cacheKey = dateRange ? `${dateRange.from}-${dateRange.to}` : 'all';
-    const cached = this.cache.get(cacheKey);
+    const cacheKey = `thrivecart:stats:${dateRange ? `${dateRange.from}-${dateRange.to}` : 'all'}`;
+    // A cache that can't be read is treated as empty rather than failing the request
+    const cached = await getStateStore().get<{ data: ThriveCartStats; timestamp: number }>(cacheKey).catch(error => {
+      console.warn('Could not read the ThriveCart cache:', error);
+      return undefined;
+    });
     
     if (!forceRefresh && cached && (now - cached.timestamp) < this.CACHE_DURATION) {
       return cached.data;
     }
 
     try {
-      const response = await fetch(CSV_URL);
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const csvText = await response.text();
-      const parsed = Papa.parse<string[]>(csvText, {
-        header: false,
-        skipEmptyLines: true
-      });
+      const dataSource = getThriveCartDataSource();
 
-      if (parsed.errors.length > 0) {
-        console.warn('CSV parsing warnings:', parsed.errors);
+      // Webhook transactions are stored as they arrive; only the CSV is synced
+      if (dataSource !== 'webhook') {
+        if (dateRange) {
+          // Only merge the days missing from storage (plus the look-back window)
+          await runSync(this.syncSource, dateRange);
+        } else {
+          // "All time" has no range to diff against, so take the whole sheet
+          await this.syncAll();
+        }
       }
 
-      const allTransactions = this.parseTransactions(parsed.data);
-      const filteredTransactions = this.filterTransactionsByDate(allTransactions, dateRange);
-      const stats = this.calculateStats(filteredTransactions, dateRange);
+      const transactions = await this.getTransactions(dataSource, dateRange);
+      const refunds = matchRefunds(transactions, transactions.concat(await this.getEarlierSales(dataSource, dateRange)));
+      const stats = this.calculateStats(transactions, refunds, dateRange);
       
-      this.cache.set(cacheKey, {
+      await getStateStore().set(cacheKey, {
         data: stats,
         timestamp: now
+      }, this.CACHE_RETENTION).catch(error => {
+        console.warn('Could not cache the ThriveCart stats:', error);
       });
 
       return stats;
@@ -109,6 +159,165 @@ export class ThriveCartService {
     }
   }
 
+  // Drops everything imported from the sheets so far, so the next request
+  // pulls the (changed) sources from scratch. Uploaded exports are kept.
+  async resetTransactions(): Promise<void> {
+    await prisma.thriveCartTransaction.deleteMany({ where: { source: 'sheet' } });
+    await clearCoverage(this.syncSource.name);
+  }
+
+  // Every configured sheet or tab is read and merged into one list. Rows are
+  // matched to fields by their header, and the import report is kept for the
+  // dashboard even when the import fails.
+  private async fetchTransactions(): Promise<ThriveCartTransaction[]> {
+    const { sources } = await getThriveCartSources();
+
+    const sourceRows = [];
+    for (const source of sources) {
+      const { rows, errors } = await fetchSourceRows(source.url);
+      if (errors.length > 0) {
+        console.warn(`CSV parsing warnings for ${source.name}:`, errors);
+      }
+      sourceRows.push({ name: source.name, rows });
+    }
+
+    const { transactions, report } = importTransactions(sourceRows, getColumnAliases());
+    await saveImportReport(report);
+
+    // Storing the other sources alone would replace the days they share
+    const incomplete = report.sources.find(source => source.missingColumns.length > 0);
+    if (incomplete) {
+      throw new Error(`ThriveCart source "${incomplete.name}" is missing columns: ${incomplete.missingColumns.join(', ')}`);
+    }
+    if (report.rejected > 0) {
+      console.warn(`Rejected ${report.rejected} ThriveCart rows`, report.rejections.slice(0, 5));
+    }
+
+    return transactions;
+  }
+
+  private async syncAll(): Promise<void> {
+    const transactions = await this.fetchTransactions();
+    await this.storeTransactions(transactions);
+
+    const days = transactions
+      .map(transaction => getTransactionDay(transaction.date))
+      .filter((day): day is string => day !== null)
+      .sort();
+
+    if (days.length > 0) {
+      await recordSync(this.syncSource.name, { from: days[0], to: format(new Date(), 'yyyy-MM-dd') });
+    }
+  }
+
+  // Replaces the stored sheet transactions for the days in the range (or all
+  // of them) with the given ones
+  private async storeTransactions(transactions: ThriveCartTransaction[], dateRange?: DateRange): Promise<void> {
+    const rows = transactions.flatMap(transaction => {
+      const day = getTransactionDay(transaction.date);
+      if (!day) return [];
+
+      return [{
+        event: transaction.event,
+        itemName: transaction.item_name,
+        itemPlanName: transaction.item_plan_name,
+        date: transaction.date,
+        day: toStoredDate(day),
+        checkboxConfirmation: transaction.checkbox_confirmation,
+        price: transaction.price
+      }];
+    });
+
+    await prisma.$transaction([
+      prisma.thriveCartTransaction.deleteMany({
+        where: { source: 'sheet', ...this.dayFilter(dateRange) }
+      }),
+      prisma.thriveCartTransaction.createMany({ data: rows })
+    ]);
+  }
+
+  private dayFilter(dateRange?: DateRange): Prisma.ThriveCartTransactionWhereInput {
+    return dateRange
+      ? { day: { gte: toStoredDate(dateRange.from), lte: toStoredDate(dateRange.to) } }
+      : {};
+  }
+
+  // Sheet rows (unless only webhooks are read) and uploaded exports. An
+  // uploaded row the sheet has as well only counts once.
+  private async getStoredTransactions(dataSource: ThriveCartDataSource, where: Prisma.ThriveCartTransactionWhereInput): Promise<ThriveCartTransaction[]> {
+    const rows = await prisma.thriveCartTransaction.findMany({
+      where: dataSource === 'webhook' ? { ...where, source: 'upload' } : where,
+      orderBy: { date: 'asc' }
+    });
+
+    // The nth uploaded copy of a row is dropped when the sheet has it at least n times
+    const sheet = new Map<string, number>();
+    rows.filter(row => row.source === 'sheet').forEach(row => {
+      const fingerprint = transactionFingerprint(this.toTransaction(row));
+      sheet.set(fingerprint, (sheet.get(fingerprint) ?? 0) + 1);
+    });
+
+    return rows
+      .filter(row => row.source !== 'upload'
+        || getOccurrence(row.fingerprint) > (sheet.get(transactionFingerprint(this.toTransaction(row))) ?? 0))
+      .map(row => this.toTransaction(row));
+  }
+
+  // A sheet or uploaded row a webhook reported as well only counts once, as
+  // the webhook transaction: the nth stored copy of a row is dropped when the
+  // webhooks have it at least n times.
+  private mergeWebhookTransactions(stored: ThriveCartTransaction[], webhook: ThriveCartTransaction[]): ThriveCartTransaction[] {
+    const reported = new Map<string, number>();
+    webhook.forEach(transaction => {
+      const fingerprint = transactionFingerprint(transaction);
+      reported.set(fingerprint, (reported.get(fingerprint) ?? 0) + 1);
+    });
+
+    const seen = new Map<string, number>();
+    return stored
+      .filter(transaction => {
+        const fingerprint = transactionFingerprint(transaction);
+        const occurrence = (seen.get(fingerprint) ?? 0) + 1;
+        seen.set(fingerprint, occurrence);
+        return occurrence > (reported.get(fingerprint) ?? 0);
+      })
+      .concat(webhook);
+  }
+
+  private async getTransactions(dataSource: ThriveCartDataSource, dateRange?: DateRange): Promise<ThriveCartTransaction[]> {
+    const stored = await this.getStoredTransactions(dataSource, this.dayFilter(dateRange));
+    const webhook = dataSource === 'csv' ? [] : await getWebhookTransactions(dateRange);
+    return this.mergeWebhookTransactions(stored, webhook);
+  }
+
+  // Sales before the range, for refunds in the range of older orders
+  private async getEarlierSales(dataSource: ThriveCartDataSource, dateRange?: DateRange): Promise<ThriveCartTransaction[]> {
+    if (!dateRange) return [];
+
+    const stored = await this.getStoredTransactions(dataSource, {
+      event: { in: SALE_EVENTS },
+      day: { lt: toStoredDate(dateRange.from) }
+    });
+    const before = { from: '1970-01-01', to: format(subDays(parseISO(dateRange.from), 1), 'yyyy-MM-dd') };
+    const webhook = dataSource === 'csv' ? [] : await getWebhookTransactions(before, SALE_EVENTS);
+    return this.mergeWebhookTransactions(stored, webhook);
+  }
+
+  private toTransaction(row: ThriveCartTransactionRow): ThriveCartTransaction {
+    return {
+      event: row.event as ThriveCartTransaction['event'],
+      item_name: row.itemName,
+      item_plan_name: row.itemPlanName,
+      date: row.date,
+      checkbox_confirmation: row.checkboxConfirmation,
+      price: row.price
+    };
+  }
+
+  private isSale(transaction: ThriveCartTransaction): boolean {
+    return SALE_EVENTS.indexOf(transaction.event) !== -1;
+  }
+
   private filterTransactionsByDate(transactions: ThriveCartTransaction[], dateRange?: DateRange): ThriveCartTransaction[] {
     if (!dateRange) {
       return transactions;
@@ -121,15 +330,10 @@ export class ThriveCartService {
       if (!transaction.date) return false;
       
       try {
-        // Handle different date formats
-        let transactionDate: Date;
-        if (transaction.date.includes(' ')) {
-          // Format: "2025-06-13 14:46:08"
-          transactionDate = parseISO(transaction.date.split(' ')[0]);
-        } else {
-          // Format: "2025-06-13"
-          transactionDate = parseISO(transaction.date);
-        }
+        // "2025-06-13", "2025-06-13 14:46:08" or "2025-06-13T14:46:08Z"
+        const day = getTransactionDay(transaction.date);
+        if (!day) return false;
+        const transactionDate = parseISO(day);
 
         return (isAfter(transactionDate, fromDate) || transactionDate.getTime() === fromDate.getTime()) &&
                (isBefore(transactionDate, toDate) || transactionDate.getTime() === toDate.getTime());
@@ -140,71 +344,17 @@ export class ThriveCartService {
     });
   }
 
-  private parseTransactions(data: string[][]): ThriveCartTransaction[] {
-    if (data.length < 2) return [];
-    
-    // Skip header row
-    const rows = data.slice(1);
-    const transactions: ThriveCartTransaction[] = [];
-
-    for (const row of rows) {
-      if (row.length < 6) continue;
-
-      try {
-        const transaction: ThriveCartTransaction = {
-          event: this.parseEvent(row[0]),
-          item_name: row[1] || '',
-          item_plan_name: row[2] || '',
-          date: row[3] || '',
-          checkbox_confirmation: row[4]?.toLowerCase() === 'true',
-          price: this.parsePrice(row[5])
-        };
-
-        transactions.push(transaction);
-      } catch (error) {
-        console.warn('Error parsing transaction row:', row, error);
-      }
-    }
-
-    return transactions;
-  }
-
-  private parseEvent(event: string): ThriveCartTransaction['event'] {
-    const normalized = event?.toLowerCase().trim();
-    switch (normalized) {
-      case 'purchase':
-        return 'purchase';
-      case 'upsellaccept':
-        return 'upsellaccept';
-      case 'abandon':
-        return 'abandon';
-      case 'refund':
-        return 'refund';
-      default:
-        return 'purchase'; // Default fallback
-    }
-  }
-
-  private parsePrice(price: string | number): number {
-    if (typeof price === 'number') return price;
-    if (!price) return 0;
-    
-    // Remove currency symbols and parse
-    const cleaned = price.toString().replace(/[$,]/g, '');
-    const parsed = parseFloat(cleaned);
-    return isNaN(parsed) ? 0 : parsed;
-  }
-
-  private calculateStats(transactions: ThriveCartTransaction[], dateRange?: DateRange): ThriveCartStats {
+  private calculateStats(transactions: ThriveCartTransaction[], refunds: RefundMatch[], dateRange?: DateRange): ThriveCartStats {
     const purchases = transactions.filter(t => t.event === 'purchase');
     const upsells = transactions.filter(t => t.event === 'upsellaccept');
+    const rebills = transactions.filter(t => t.event === 'rebill');
     const abandoned = transactions.filter(t => t.event === 'abandon');
     
     const totalRevenue = transactions
-      .filter(t => t.event === 'purchase' || t.event === 'upsellaccept')
+      .filter(t => this.isSale(t))
       .reduce((sum, t) => sum + t.price, 0);
     
-    const totalTransactions = purchases.length + upsells.length;
+    const totalTransactions = purchases.length + upsells.length + rebills.length;
     const totalPurchases = purchases.length;
     const totalUpsells = upsells.length;
     const totalAbandoned = abandoned.length;
@@ -221,6 +371,11 @@ export class ThriveCartService {
       ? totalRevenue / totalTransactions 
       : 0;
 
+    const refundedAmount = refunds.reduce((sum, match) => sum + match.amount, 0);
+    const refundRate = totalTransactions > 0
+      ? (refunds.length / totalTransactions) * 100
+      : 0;
+
     // Generate time range string
     let timeRange = 'All time';
     if (dateRange) {
@@ -229,15 +384,21 @@ export class ThriveCartService {
 
     return {
       totalRevenue,
+      netRevenue: totalRevenue - refundedAmount,
+      totalRefunds: refunds.length,
+      refundedAmount,
+      refundRate,
       totalTransactions,
       totalPurchases,
       totalUpsells,
+      totalRebills: rebills.length,
+      totalCancellations: transactions.filter(t => t.event === 'cancel').length,
       totalAbandoned,
       conversionRate,
       upsellConversionRate,
       averageOrderValue,
-      dailyStats: this.calculateDailyStats(transactions),
-      productStats: this.calculateProductStats(transactions),
+      dailyStats: this.calculateDailyStats(transactions, refunds),
+      productStats: this.calculateProductStats(transactions, refunds),
       recentTransactions: transactions
         .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
         .slice(0, 10),
@@ -246,18 +407,20 @@ export class ThriveCartService {
     };
   }
 
-  private calculateDailyStats(transactions: ThriveCartTransaction[]): DailyStats[] {
+  private calculateDailyStats(transactions: ThriveCartTransaction[], refunds: RefundMatch[]): DailyStats[] {
     const dailyMap = new Map<string, DailyStats>();
 
     for (const transaction of transactions) {
-      if (!transaction.date) continue;
-      
-      const date = transaction.date.split(' ')[0]; // Get date part only
-      
+      const date = getTransactionDay(transaction.date);
+      if (!date) continue;
+
       if (!dailyMap.has(date)) {
         dailyMap.set(date, {
           date,
           revenue: 0,
+          refunds: 0,
+          refundedAmount: 0,
+          netRevenue: 0,
           transactions: 0,
           purchases: 0,
           upsells: 0
@@ -266,7 +429,7 @@ export class ThriveCartService {
 
       const dayStats = dailyMap.get(date)!;
       
-      if (transaction.event === 'purchase' || transaction.event === 'upsellaccept') {
+      if (this.isSale(transaction)) {
         dayStats.revenue += transaction.price;
         dayStats.transactions += 1;
       }
@@ -278,35 +441,61 @@ export class ThriveCartService {
       }
     }
 
+    for (const match of refunds) {
+      const day = getTransactionDay(match.refund.date);
+      const dayStats = day ? dailyMap.get(day) : undefined;
+      if (!dayStats) continue;
+
+      dayStats.refunds += 1;
+      dayStats.refundedAmount += match.amount;
+    }
+
+    dailyMap.forEach(dayStats => {
+      dayStats.netRevenue = dayStats.revenue - dayStats.refundedAmount;
+    });
+
     return Array.from(dailyMap.values())
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
   }
 
-  private calculateProductStats(transactions: ThriveCartTransaction[]): ProductStats[] {
+  private calculateProductStats(transactions: ThriveCartTransaction[], refunds: RefundMatch[]): ProductStats[] {
     const productMap = new Map<string, ProductStats>();
-
-    for (const transaction of transactions) {
-      if (transaction.event !== 'purchase' && transaction.event !== 'upsellaccept') continue;
-      
-      const name = transaction.item_name;
-      
+    const getProduct = (name: string) => {
       if (!productMap.has(name)) {
         productMap.set(name, {
           name,
           revenue: 0,
+          refunds: 0,
+          refundedAmount: 0,
+          netRevenue: 0,
           quantity: 0,
           averagePrice: 0
         });
       }
+      return productMap.get(name)!;
+    };
 
-      const productStats = productMap.get(name)!;
+    for (const transaction of transactions) {
+      if (!this.isSale(transaction)) continue;
+      
+      const productStats = getProduct(transaction.item_name);
       productStats.revenue += transaction.price;
       productStats.quantity += 1;
       productStats.averagePrice = productStats.revenue / productStats.quantity;
     }
 
+    for (const match of refunds) {
+      const productStats = getProduct(match.product);
+      productStats.refunds += 1;
+      productStats.refundedAmount += match.amount;
+    }
+
+    productMap.forEach(productStats => {
+      productStats.netRevenue = productStats.revenue - productStats.refundedAmount;
+    });
+
     return Array.from(productMap.values())
-      .sort((a, b) => b.revenue - a.revenue);
+      .sort((a, b) => b.netRevenue - a.netRevenue);
   }
 
   private getEmptyStats(dateRange?: DateRange): ThriveCartStats {
@@ -317,9 +506,15 @@ export class ThriveCartService {
 
     return {
       totalRevenue: 0,
+      netRevenue: 0,
+      totalRefunds: 0,
+      refundedAmount: 0,
+      refundRate: 0,
       totalTransactions: 0,
       totalPurchases: 0,
       totalUpsells: 0,
+      totalRebills: 0,
+      totalCancellations: 0,
       totalAbandoned: 0,
       conversionRate: 0,
       upsellConversionRate: 0,
@@ -0,0 +1,134 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getPostmarkClient } from '@/lib/postmark'
+import { getDateRange, getStreamOptions, queryString, StreamOption } from '@/lib/postmark-request'
+import { daysInRange } from '@/lib/sync'
+
+export interface BounceDailyStats {
+  date: string
+  hardBounce: number
+  softBounce: number
+  transient: number
+  smtpApiError: number
+}
+
+export interface BouncedAddress {
+  id: number
+  email: string
+  type: string
+  typeName: string
+  description: string | null
+  details: string | null
+  tag: string | null
+  stream: string | null
+  subject: string | null
+  bouncedAt: string
+  inactive: boolean
+  canActivate: boolean
+}
+
+export interface BouncesResponse {
+  success: boolean
+  data?: {
+    summary: Omit<BounceDailyStats, 'date'> & { total: number }
+    daily: BounceDailyStats[]
+    bounces: BouncedAddress[]
+    totalCount: number
+    page: number
+    pageSize: number
+    streams: StreamOption[]
+    timeRange: string
+  }
+  error?: string
+}
+
+const PAGE_SIZE = 50
+// Postmark only returns the first 10,000 results of a bounce search
+const MAX_PAGE = Math.floor(10000 / PAGE_SIZE)
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<BouncesResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  try {
+    const tag = queryString(req.query.tag)
+    const stream = queryString(req.query.stream)
+    const type = queryString(req.query.type)
+    const inactive = queryString(req.query.inactive)
+    const page = Math.min(Math.max(parseInt(queryString(req.query.page) || '1') || 1, 1), MAX_PAGE)
+
+    const { from: fromDateStr, to: toDateStr } = getDateRange(req.query)
+
+    const postmark = getPostmarkClient()
+
+    const [bounceCounts, bounces, streams] = await Promise.all([
+      postmark.getBounceCounts(fromDateStr, toDateStr, tag, stream),
+      postmark.getBounces(fromDateStr, toDateStr, {
+        tag,
+        stream,
+        type,
+        inactive: inactive === undefined ? undefined : inactive === 'true',
+        count: PAGE_SIZE,
+        offset: (page - 1) * PAGE_SIZE
+      }),
+      getStreamOptions()
+    ])
+
+    const dailyMap = new Map(bounceCounts.Days.map(day => [day.Date, day]))
+    const daily: BounceDailyStats[] = daysInRange(fromDateStr, toDateStr).map(date => {
+      const day = dailyMap.get(date)
+      return {
+        date,
+        hardBounce: day?.HardBounce ?? 0,
+        softBounce: day?.SoftBounce ?? 0,
+        transient: day?.Transient ?? 0,
+        smtpApiError: day?.SMTPApiError ?? 0
+      }
+    })
+
+    const summary = daily.reduce((totals, day) => ({
+      hardBounce: totals.hardBounce + day.hardBounce,
+      softBounce: totals.softBounce + day.softBounce,
+      transient: totals.transient + day.transient,
+      smtpApiError: totals.smtpApiError + day.smtpApiError,
+      total: totals.total + day.hardBounce + day.softBounce + day.transient + day.smtpApiError
+    }), { hardBounce: 0, softBounce: 0, transient: 0, smtpApiError: 0, total: 0 })
+
+    res.status(200).json({
+      success: true,
+      data: {
+        summary,
+        daily,
+        bounces: bounces.Bounces.map(bounce => ({
+          id: bounce.ID,
+          email: bounce.Email,
+          type: bounce.Type,
+          typeName: bounce.Name || bounce.Type,
+          description: bounce.Description ?? null,
+          details: bounce.Details ?? null,
+          tag: bounce.Tag || null,
+          stream: bounce.MessageStream ?? null,
+          subject: bounce.Subject ?? null,
+          bouncedAt: bounce.BouncedAt,
+          inactive: bounce.Inactive,
+          canActivate: bounce.CanActivate
+        })),
+        totalCount: bounces.TotalCount,
+        page,
+        pageSize: PAGE_SIZE,
+        streams,
+        timeRange: `${fromDateStr} to ${toDateStr}`
+      }
+    })
+
+  } catch (error) {
+    console.error('Bounces API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
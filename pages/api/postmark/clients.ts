@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getPostmarkClient, PostmarkUsageShare } from '@/lib/postmark'
+import { getDateRange, queryString } from '@/lib/postmark-request'
+
+export interface UsageShare extends PostmarkUsageShare {
+  // Percentage of all opens or clicks in the breakdown
+  share: number
+}
+
+export interface ClientsResponse {
+  success: boolean
+  data?: {
+    emailClients: UsageShare[]
+    openPlatforms: UsageShare[]
+    browserFamilies: UsageShare[]
+    clickPlatforms: UsageShare[]
+    clickLocations: UsageShare[]
+    tag: string | null
+    timeRange: string
+  }
+  error?: string
+}
+
+function withShares(usage: PostmarkUsageShare[]): UsageShare[] {
+  const total = usage.reduce((sum, entry) => sum + entry.count, 0)
+  return usage.map(entry => ({
+    ...entry,
+    share: total === 0 ? 0 : Math.round((entry.count / total) * 10000) / 100
+  }))
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ClientsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  try {
+    const tagFilter = queryString(req.query.tag)
+
+    const { from: fromDateStr, to: toDateStr } = getDateRange(req.query)
+
+    const postmark = getPostmarkClient()
+
+    const [emailClients, openPlatforms, browserFamilies, clickPlatforms, clickLocations] = await Promise.all([
+      postmark.getEmailClientUsage(fromDateStr, toDateStr, tagFilter),
+      postmark.getOpenPlatformUsage(fromDateStr, toDateStr, tagFilter),
+      postmark.getBrowserFamilyUsage(fromDateStr, toDateStr, tagFilter),
+      postmark.getClickPlatformUsage(fromDateStr, toDateStr, tagFilter),
+      postmark.getClickLocationUsage(fromDateStr, toDateStr, tagFilter)
+    ])
+
+    res.status(200).json({
+      success: true,
+      data: {
+        emailClients: withShares(emailClients),
+        openPlatforms: withShares(openPlatforms),
+        browserFamilies: withShares(browserFamilies),
+        clickPlatforms: withShares(clickPlatforms),
+        clickLocations: withShares(clickLocations),
+        tag: tagFilter ?? null,
+        timeRange: `${fromDateStr} to ${toDateStr}`
+      }
+    })
+
+  } catch (error) {
+    console.error('Clients API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getPostmarkClient } from '@/lib/postmark'
+import { DeliverabilityHealth, getDeliverabilityHealth } from '@/lib/postmark-health'
+
+export interface HealthResponse {
+  success: boolean
+  data?: DeliverabilityHealth
+  // False when POSTMARK_ACCOUNT_TOKEN is missing, so the dashboard can say so instead of erroring
+  configured?: boolean
+  error?: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<HealthResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  try {
+    if (!getPostmarkClient().hasAccountToken()) {
+      return res.status(200).json({
+        success: false,
+        configured: false,
+        error: 'POSTMARK_ACCOUNT_TOKEN environment variable is not set'
+      })
+    }
+
+    res.status(200).json({ success: true, configured: true, data: await getDeliverabilityHealth() })
+
+  } catch (error) {
+    console.error('Health API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
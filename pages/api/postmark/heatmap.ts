@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { postmarkOpenSyncSource } from '@/lib/engagement'
+import { EngagementHeatmap, getEngagementHeatmap, isValidTimeZone } from '@/lib/postmark-heatmap'
+import { postmarkClickSyncSource } from '@/lib/postmark-links'
+import { getDateRange, getStreamOptions, queryString, StreamOption, syncEvents, widenRange } from '@/lib/postmark-request'
+
+export interface HeatmapResponse {
+  success: boolean
+  data?: EngagementHeatmap & {
+    streams: StreamOption[]
+    timeRange: string
+  }
+  error?: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<HeatmapResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  try {
+    const tag = queryString(req.query.tag)
+    const stream = queryString(req.query.stream)
+    const timeZone = queryString(req.query.timezone) ?? 'UTC'
+
+    if (!isValidTimeZone(timeZone)) {
+      return res.status(400).json({ success: false, error: `Unknown time zone: ${timeZone}` })
+    }
+
+    const range = getDateRange(req.query)
+    const { from: fromDateStr, to: toDateStr } = range
+
+    // The heatmap is built from stored events, so import any the webhooks missed
+    // first. Local days in other time zones reach into the neighbouring UTC days.
+    await syncEvents([postmarkClickSyncSource, postmarkOpenSyncSource], timeZone === 'UTC' ? range : widenRange(range), 'opens and clicks')
+
+    const [heatmap, streams] = await Promise.all([
+      getEngagementHeatmap(fromDateStr, toDateStr, { tag, stream, timeZone }),
+      getStreamOptions()
+    ])
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...heatmap,
+        streams,
+        timeRange: `${fromDateStr} to ${toDateStr}`
+      }
+    })
+
+  } catch (error) {
+    console.error('Heatmap API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getInboundReport, InboundReport } from '@/lib/postmark-inbound'
+import { getDateRange, queryString } from '@/lib/postmark-request'
+import { getPostmarkServers, getPrimaryServer } from '@/lib/postmark-servers'
+
+export interface InboundResponse {
+  success: boolean
+  data?: InboundReport & {
+    // Server the report covers
+    server: string
+    timeRange: string
+  }
+  error?: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<InboundResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  try {
+    const serverId = queryString(req.query.server)
+
+    const { from: fromDateStr, to: toDateStr } = getDateRange(req.query)
+
+    // Inbound mail usually lives on its own server, so any configured server can be picked
+    const server = serverId
+      ? (await getPostmarkServers()).find(info => info.id === serverId)
+      : await getPrimaryServer()
+    if (!server) {
+      return res.status(400).json({ success: false, error: `Unknown Postmark server: ${serverId}` })
+    }
+
+    const report = await getInboundReport(fromDateStr, toDateStr, server)
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...report,
+        server: server.id,
+        timeRange: `${fromDateStr} to ${toDateStr}`
+      }
+    })
+
+  } catch (error) {
+    console.error('Inbound API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
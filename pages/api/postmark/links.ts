@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getLinkReport, LinkReport, postmarkClickSyncSource } from '@/lib/postmark-links'
+import { getDateRange, getStreamOptions, queryString, StreamOption, syncEvents } from '@/lib/postmark-request'
+
+export interface LinksResponse {
+  success: boolean
+  data?: LinkReport & {
+    streams: StreamOption[]
+    timeRange: string
+  }
+  error?: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<LinksResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  try {
+    const tag = queryString(req.query.tag)
+    const stream = queryString(req.query.stream)
+
+    const { from: fromDateStr, to: toDateStr } = getDateRange(req.query)
+
+    // Click webhooks arrive continuously; the clicks API only fills days we haven't imported yet
+    await syncEvents([postmarkClickSyncSource], { from: fromDateStr, to: toDateStr }, 'clicks')
+
+    const [report, streams] = await Promise.all([
+      getLinkReport(fromDateStr, toDateStr, { tag, stream }),
+      getStreamOptions()
+    ])
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...report,
+        streams,
+        timeRange: `${fromDateStr} to ${toDateStr}`
+      }
+    })
+
+  } catch (error) {
+    console.error('Links API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
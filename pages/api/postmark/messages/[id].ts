@@ -0,0 +1,81 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getPostmarkClient, PostmarkApiError } from '@/lib/postmark'
+import type { MessageSummary } from '@/pages/api/postmark/messages'
+
+export interface MessageEvent {
+  type: string
+  recipient: string
+  occurredAt: string
+  // Event specific fields, e.g. the clicked link or the bounce summary
+  details: Record<string, string>
+}
+
+export interface MessageDetails extends MessageSummary {
+  textBody: string | null
+  htmlBody: string | null
+  // Oldest first
+  events: MessageEvent[]
+}
+
+export interface MessageDetailsResponse {
+  success: boolean
+  data?: MessageDetails
+  error?: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<MessageDetailsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  const { id } = req.query
+  if (typeof id !== 'string' || id === '') {
+    return res.status(400).json({ success: false, error: 'Message ID is required' })
+  }
+
+  try {
+    const message = await getPostmarkClient().getOutboundMessageDetails(id)
+
+    res.status(200).json({
+      success: true,
+      data: {
+        id: message.MessageID,
+        from: message.From ?? null,
+        recipients: message.Recipients,
+        subject: message.Subject ?? null,
+        tag: message.Tag || null,
+        stream: message.MessageStream ?? null,
+        status: message.Status ?? null,
+        receivedAt: message.ReceivedAt,
+        textBody: message.TextBody ?? null,
+        htmlBody: message.HtmlBody ?? null,
+        events: message.MessageEvents
+          .map(event => ({
+            type: event.Type,
+            recipient: event.Recipient,
+            occurredAt: event.ReceivedAt,
+            details: Object.fromEntries(
+              Object.entries(event.Details ?? {})
+                .filter(([, value]) => value !== null && value !== undefined && value !== '')
+                .map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])
+            )
+          }))
+          .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt))
+      }
+    })
+
+  } catch (error) {
+    console.error('Message details API error:', error)
+    // Postmark error code 701: message not found
+    if (error instanceof PostmarkApiError && error.errorCode === 701) {
+      return res.status(404).json({ success: false, error: 'Message not found' })
+    }
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
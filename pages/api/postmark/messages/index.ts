@@ -0,0 +1,89 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getPostmarkClient } from '@/lib/postmark'
+import { getDateRange, getStreamOptions, queryString, StreamOption } from '@/lib/postmark-request'
+
+export interface MessageSummary {
+  id: string
+  from: string | null
+  recipients: string[]
+  subject: string | null
+  tag: string | null
+  stream: string | null
+  status: string | null
+  receivedAt: string
+}
+
+export interface MessagesResponse {
+  success: boolean
+  data?: {
+    messages: MessageSummary[]
+    totalCount: number
+    page: number
+    pageSize: number
+    streams: StreamOption[]
+    timeRange: string
+  }
+  error?: string
+}
+
+const PAGE_SIZE = 50
+// Postmark only returns the first 10,000 results of a message search
+const MAX_PAGE = Math.floor(10000 / PAGE_SIZE)
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<MessagesResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  try {
+    const page = Math.min(Math.max(parseInt(queryString(req.query.page) || '1') || 1, 1), MAX_PAGE)
+
+    const { from: fromDateStr, to: toDateStr } = getDateRange(req.query)
+
+    const postmark = getPostmarkClient()
+
+    const [messages, streams] = await Promise.all([
+      postmark.searchOutboundMessages(fromDateStr, toDateStr, {
+        recipient: queryString(req.query.recipient),
+        tag: queryString(req.query.tag),
+        status: queryString(req.query.status),
+        subject: queryString(req.query.subject),
+        stream: queryString(req.query.stream),
+        count: PAGE_SIZE,
+        offset: (page - 1) * PAGE_SIZE
+      }),
+      getStreamOptions()
+    ])
+
+    res.status(200).json({
+      success: true,
+      data: {
+        messages: messages.Messages.map(message => ({
+          id: message.MessageID,
+          from: message.From ?? null,
+          recipients: message.Recipients,
+          subject: message.Subject ?? null,
+          tag: message.Tag || null,
+          stream: message.MessageStream ?? null,
+          status: message.Status ?? null,
+          receivedAt: message.ReceivedAt
+        })),
+        totalCount: messages.TotalCount,
+        page,
+        pageSize: PAGE_SIZE,
+        streams,
+        timeRange: `${fromDateStr} to ${toDateStr}`
+      }
+    })
+
+  } catch (error) {
+    console.error('Messages API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
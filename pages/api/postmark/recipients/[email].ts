@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getRecipientTimeline, RecipientTimeline } from '@/lib/engagement'
+import { getDateRange } from '@/lib/postmark-request'
+
+export interface RecipientTimelineResponse {
+  success: boolean
+  data?: RecipientTimeline & {
+    timeRange: string
+  }
+  error?: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RecipientTimelineResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  const { email } = req.query
+  if (typeof email !== 'string' || email.trim() === '') {
+    return res.status(400).json({ success: false, error: 'Recipient email is required' })
+  }
+
+  try {
+    const { from: fromDateStr, to: toDateStr } = getDateRange(req.query)
+
+    const timeline = await getRecipientTimeline(email, fromDateStr, toDateStr)
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...timeline,
+        timeRange: `${fromDateStr} to ${toDateStr}`
+      }
+    })
+
+  } catch (error) {
+    console.error('Recipient timeline API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
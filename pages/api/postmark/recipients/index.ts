@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { EngagementRanking, getEngagementRanking, postmarkOpenSyncSource } from '@/lib/engagement'
+import { postmarkClickSyncSource } from '@/lib/postmark-links'
+import { getDateRange, getStreamOptions, queryString, StreamOption, syncEvents } from '@/lib/postmark-request'
+
+export interface RecipientsResponse {
+  success: boolean
+  data?: EngagementRanking & {
+    streams: StreamOption[]
+    timeRange: string
+  }
+  error?: string
+}
+
+const MAX_LIMIT = 500
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RecipientsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  try {
+    const tag = queryString(req.query.tag)
+    const stream = queryString(req.query.stream)
+    const order = queryString(req.query.order) === 'least' ? 'least' : 'most'
+    const limit = Math.min(Math.max(parseInt(queryString(req.query.limit) || '50') || 50, 1), MAX_LIMIT)
+    const minMessages = Math.max(parseInt(queryString(req.query.minMessages) || '1') || 1, 1)
+
+    const { from: fromDateStr, to: toDateStr } = getDateRange(req.query)
+
+    // Scores are built from stored events, so import any opens and clicks the webhooks missed first
+    await syncEvents([postmarkClickSyncSource, postmarkOpenSyncSource], { from: fromDateStr, to: toDateStr }, 'opens and clicks')
+
+    const [ranking, streams] = await Promise.all([
+      getEngagementRanking(fromDateStr, toDateStr, { tag, stream, order, limit, minMessages }),
+      getStreamOptions()
+    ])
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...ranking,
+        streams,
+        timeRange: `${fromDateStr} to ${toDateStr}`
+      }
+    })
+
+  } catch (error) {
+    console.error('Recipients API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { postmarkOpenSyncSource } from '@/lib/engagement'
+import { postmarkClickSyncSource } from '@/lib/postmark-links'
+import { getDateRange, getStreamOptions, queryString, StreamOption, syncEvents } from '@/lib/postmark-request'
+import { getTemplateReport, TemplateReport } from '@/lib/postmark-templates'
+
+export interface TemplatesResponse {
+  success: boolean
+  data?: TemplateReport & {
+    streams: StreamOption[]
+    timeRange: string
+  }
+  error?: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<TemplatesResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  try {
+    const stream = queryString(req.query.stream)
+    const template = queryString(req.query.template)
+
+    const { from: fromDateStr, to: toDateStr } = getDateRange(req.query)
+
+    // Open and click rates are built from stored events, so import any the webhooks missed first
+    await syncEvents([postmarkClickSyncSource, postmarkOpenSyncSource], { from: fromDateStr, to: toDateStr }, 'opens and clicks')
+
+    const [report, streams] = await Promise.all([
+      getTemplateReport(fromDateStr, toDateStr, { stream, template }),
+      getStreamOptions()
+    ])
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...report,
+        streams,
+        timeRange: `${fromDateStr} to ${toDateStr}`
+      }
+    })
+
+  } catch (error) {
+    console.error('Templates API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { getRateLimiterStates, RateLimiterState } from '@/lib/rate-limiter'
+
+export interface RateLimitsResponse {
+  success: boolean
+  data?: RateLimiterState[]
+  error?: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RateLimitsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  res.status(200).json({ success: true, data: await getRateLimiterStates() })
+}
@@ -1,14 +1,26 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { getPostmarkClient } from '@/lib/postmark'
+import { postmarkOpenSyncSource } from '@/lib/engagement'
+import { PostmarkApiError } from '@/lib/postmark'
+import { postmarkClickSyncSource } from '@/lib/postmark-links'
+import { getPostmarkServers } from '@/lib/postmark-servers'
+import { syncPostmarkServers } from '@/lib/stat-snapshots'
+import { daysInRange, runSync } from '@/lib/sync'
 import { format, subDays } from 'date-fns'
 
 export interface RefreshResponse {
   success: boolean
   message?: string
+  // Days re-fetched per Postmark server
+  servers?: Array<{ server: string; days: number }>
   error?: string
   rateLimited?: boolean
 }
 
+// Postmark still answered 429 once the rate limiter ran out of retries
+function isRateLimited(error: unknown): boolean {
+  return error instanceof PostmarkApiError && error.status === 429
+}
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<RefreshResponse>
@@ -27,22 +39,27 @@ export default async function handler(
     const fromDateStr = format(fromDate, 'yyyy-MM-dd')
     const toDateStr = format(toDate, 'yyyy-MM-dd')
 
-    const postmark = getPostmarkClient()
-    
     try {
-      // Test the connection by fetching overall stats
-      const stats = await postmark.getStatsWithRetry(fromDateStr, toDateStr)
-      
+      // Re-fetch the whole range from every Postmark server into StatSnapshot and PostmarkEvent
+      const servers = await getPostmarkServers()
+      const results = await syncPostmarkServers(servers, { from: fromDateStr, to: toDateStr }, { force: true })
+      await runSync(postmarkClickSyncSource, { from: fromDateStr, to: toDateStr }, { force: true })
+      await runSync(postmarkOpenSyncSource, { from: fromDateStr, to: toDateStr }, { force: true })
+      const serverDays = results.map(result =>
+        result.fetched.reduce((total, range) => total + daysInRange(range.from, range.to).length, 0)
+      )
+
       res.status(200).json({
         success: true,
-        message: `Successfully refreshed data for ${stats.Days.length} days`
+        message: `Successfully refreshed data for ${Math.max(0, ...serverDays)} days from ${servers.length} server${servers.length === 1 ? '' : 's'}`,
+        servers: servers.map((server, index) => ({ server: server.id, days: serverDays[index] }))
       })
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       
       // If it's a rate limit error, return appropriate response
-      if (errorMessage.includes('Rate limit')) {
+      if (isRateLimited(error)) {
         return res.status(429).json({
           success: false,
           error: 'Rate limited while refreshing data',
@@ -60,7 +77,7 @@ export default async function handler(
     console.error('Refresh API error:', error)
     const errorMessage = error instanceof Error ? error.message : 'Internal server error'
     
-    if (errorMessage.includes('Rate limit')) {
+    if (isRateLimited(error)) {
       return res.status(429).json({
         success: false,
         error: errorMessage,
@@ -1,5 +1,9 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { format, subDays } from 'date-fns'
+import { PostmarkDailyStats, PostmarkMessageStream } from '@/lib/postmark'
+import { getDateRange, queryString } from '@/lib/postmark-request'
+import { ALL_SERVERS, getPostmarkServers, getServerStreams, PostmarkServerConfig } from '@/lib/postmark-servers'
+import { calculateSpamRate, getHistoryStart, getRollingSpamRate, getSpamLevel, getSpamThresholds, SpamLevel, SpamThresholds, withDailySpamRates } from '@/lib/spam-rate'
+import { ALL_STREAMS, ALL_TAGS, getSnapshots, getUniqueEngagement, sumByDay, syncPostmarkServers, UniqueEngagement } from '@/lib/stat-snapshots'
 
 export interface StatsResponse {
   success: boolean
@@ -15,6 +19,13 @@ export interface StatsResponse {
       openRate: number
       clickRate: number
       bounceRate: number
+      unsubscribeRate: number
+      // Spam complaints per delivered message over the range and the last 7
+      // and 30 days of it; spamLevel is the worst of the three
+      spamRate: number
+      spamRate7d: number
+      spamRate30d: number
+      spamLevel: SpamLevel
     }
     byTag: Array<{
       tag: string
@@ -28,6 +39,13 @@ export interface StatsResponse {
       openRate: number
       clickRate: number
       bounceRate: number
+      unsubscribeRate: number
+      spamRate: number
+      spamRate7d: number
+      spamRate30d: number
+      spamLevel: SpamLevel
+      // Servers whose rows were summed into this one
+      servers: string[]
     }>
     daily: Array<{
       date: string
@@ -38,36 +56,111 @@ export interface StatsResponse {
       bounced: number
       spam: number
       unsubscribed: number
+      // The day's own spam rate and the rolling rates of the windows ending on it
+      spamRate: number
+      spamRate7d: number
+      spamRate30d: number
     }>
+    byStream: Array<{
+      stream: string
+      name: string
+      type: string
+      sent: number
+      delivered: number
+      opened: number
+      clicked: number
+      bounced: number
+      spam: number
+      unsubscribed: number
+      openRate: number
+      clickRate: number
+      bounceRate: number
+      unsubscribeRate: number
+      spamRate: number
+      spamRate7d: number
+      spamRate30d: number
+      spamLevel: SpamLevel
+      servers: string[]
+      daily: NonNullable<StatsResponse['data']>['daily']
+    }>
+    // Every configured server, whichever one is selected
+    byServer: Array<{
+      server: string
+      name: string
+      sent: number
+      delivered: number
+      opened: number
+      clicked: number
+      bounced: number
+      spam: number
+      unsubscribed: number
+      openRate: number
+      clickRate: number
+      bounceRate: number
+      unsubscribeRate: number
+      spamRate: number
+      spamRate7d: number
+      spamRate30d: number
+      spamLevel: SpamLevel
+      daily: NonNullable<StatsResponse['data']>['daily']
+    }>
+    // Spam rate percentages that count as a warning or as critical
+    spamThresholds: SpamThresholds
+    // Server the other figures are filtered to, or null for all servers
+    server: string | null
+    // Stream the summary, daily and byTag figures are filtered to, or null for all streams
+    stream: string | null
     timeRange: string
   }
   error?: string
 }
 
-async function makePostmarkRequest(endpoint: string): Promise<any> {
-  const token = process.env.POSTMARK_SERVER_TOKEN
-  if (!token) {
-    throw new Error('POSTMARK_SERVER_TOKEN environment variable not set')
-  }
+type TagStats = NonNullable<StatsResponse['data']>['byTag'][number]
+type StreamStats = NonNullable<StatsResponse['data']>['byStream'][number]
+type ServerStats = NonNullable<StatsResponse['data']>['byServer'][number]
 
-  const response = await fetch(`https://api.postmarkapp.com${endpoint}`, {
-    headers: {
-      'Accept': 'application/json',
-      'X-Postmark-Server-Token': token
-    }
-  })
+function calculateRate(numerator: number, denominator: number): number {
+  if (denominator === 0) return 0
+  return Math.round((numerator / denominator) * 10000) / 100 // Round to 2 decimal places
+}
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Postmark API error: ${response.status} ${response.statusText} - ${errorText}`)
-  }
+function sumDays(days: PostmarkDailyStats[]) {
+  return days.reduce((totals, day) => ({
+    sent: totals.sent + day.sent,
+    delivered: totals.delivered + day.delivered,
+    opened: totals.opened + day.opened,
+    clicked: totals.clicked + day.clicked,
+    bounced: totals.bounced + day.bounced,
+    spam: totals.spam + day.spam,
+    unsubscribed: totals.unsubscribed + day.unsubscribed
+  }), { sent: 0, delivered: 0, opened: 0, clicked: 0, bounced: 0, spam: 0, unsubscribed: 0 })
+}
 
-  return response.json()
+function withRates<T extends { sent: number; opened: number; clicked: number; bounced: number; unsubscribed: number }>(totals: T) {
+  return {
+    ...totals,
+    openRate: calculateRate(totals.opened, totals.sent),
+    clickRate: calculateRate(totals.clicked, totals.sent),
+    bounceRate: calculateRate(totals.bounced, totals.sent),
+    unsubscribeRate: calculateRate(totals.unsubscribed, totals.sent)
+  }
 }
 
-function calculateRate(numerator: number, denominator: number): number {
-  if (denominator === 0) return 0
-  return Math.round((numerator / denominator) * 10000) / 100 // Round to 2 decimal places
+// Totals and rates of the days in the range, plus the spam rates. days may
+// start up to 30 days before the range to fill the rolling windows. unique
+// replaces the summed daily opens and clicks with counts over the whole range.
+function summarize(days: PostmarkDailyStats[], fromDate: string, toDate: string, thresholds: SpamThresholds, unique?: UniqueEngagement) {
+  const totals = withRates({ ...sumDays(days.filter(day => day.date >= fromDate)), ...unique })
+  const spamRate = calculateSpamRate(totals.spam, totals.delivered)
+  const spamRate7d = getRollingSpamRate(days, toDate, 7)
+  const spamRate30d = getRollingSpamRate(days, toDate, 30)
+  return {
+    ...totals,
+    spamRate,
+    spamRate7d,
+    spamRate30d,
+    spamLevel: getSpamLevel(Math.max(spamRate, spamRate7d, spamRate30d), thresholds)
+  }
 }
 
 export default async function handler(
@@ -76,140 +169,142 @@ export default async function handler(
 ) {
   try {
     // Parse query parameters
-    const { days = '30', from, to } = req.query
-    
-    let fromDate: Date
-    let toDate: Date
-    
-    if (from && to) {
-      fromDate = new Date(from as string)
-      toDate = new Date(to as string)
-    } else {
-      toDate = new Date()
-      fromDate = subDays(toDate, parseInt(days as string))
-    }
-    
-    const fromDateStr = format(fromDate, 'yyyy-MM-dd')
-    const toDateStr = format(toDate, 'yyyy-MM-dd')
-    const baseParams = `?fromdate=${fromDateStr}&todate=${toDateStr}`
+    const selectedStream = queryString(req.query.stream) ?? ALL_STREAMS
+    const selectedServer = queryString(req.query.server) ?? ALL_SERVERS
+    const { from: fromDateStr, to: toDateStr } = getDateRange(req.query)
 
-    console.log(`Fetching Postmark stats from ${fromDateStr} to ${toDateStr}`)
+    const servers = await getPostmarkServers()
+    if (selectedServer !== ALL_SERVERS && !servers.some(info => info.id === selectedServer)) {
+      return res.status(400).json({ success: false, error: `Unknown Postmark server: ${selectedServer}` })
+    }
 
+    // Serve from StatSnapshot and only go to Postmark for days we haven't synced yet.
+    // Every server is synced so the per-server breakdown is complete, and from
+    // the start of the rolling spam rate windows so they aren't cut short.
+    const historyStart = getHistoryStart(fromDateStr)
     try {
-      // HYBRID APPROACH:
-      // 1. Use overview endpoint for accurate summary totals (matches Postmark dashboard)
-      // 2. Use individual endpoints for proper daily breakdown data for charts
-      
-      const [overviewData, sendsData, opensData, clicksData, bounceData] = await Promise.all([
-        makePostmarkRequest(`/stats/outbound${baseParams}`),
-        makePostmarkRequest(`/stats/outbound/sends${baseParams}`),
-        makePostmarkRequest(`/stats/outbound/opens${baseParams}`).catch(() => ({ Days: [] })),
-        makePostmarkRequest(`/stats/outbound/clicks${baseParams}`).catch(() => ({ Days: [] })),
-        makePostmarkRequest(`/stats/outbound/bounces${baseParams}`).catch(() => ({ Days: [] }))
-      ])
-
-      console.log('Overview data:', JSON.stringify(overviewData, null, 2))
-
-      // Create daily data map for charts using individual endpoint data
-      const dailyMap = new Map<string, any>()
-      
-      // Initialize with sent data
-      if (sendsData.Days) {
-        sendsData.Days.forEach((day: any) => {
-          dailyMap.set(day.Date, {
-            date: day.Date,
-            sent: day.Sent || 0,
-            delivered: 0, // Will calculate below
-            opened: 0,
-            clicked: 0,
-            bounced: 0,
-            spam: 0,
-            unsubscribed: 0
-          })
-        })
-      }
+      const results = await syncPostmarkServers(servers, { from: historyStart, to: toDateStr })
+      results.forEach(({ source, fetched }) => {
+        if (fetched.length > 0) {
+          console.log(`Fetched ${fetched.map(range => `${range.from} to ${range.to}`).join(', ')} for ${source} from Postmark`)
+        }
+      })
+    } catch (apiError) {
+      console.error('Postmark API error:', apiError)
+      throw new Error(`Failed to fetch data from Postmark: ${apiError instanceof Error ? apiError.message : 'Unknown error'}`)
+    }
+
+    // Earlier days are only read to fill the rolling spam rate windows. Only
+    // configured servers are read, so byServer adds up to the summary.
+    const snapshots = await getSnapshots(historyStart, toDateStr, servers.map(info => info.id))
+    const spamThresholds = getSpamThresholds()
+    const hasDaysInRange = (days: PostmarkDailyStats[]) => days.some(day => day.date >= fromDateStr)
 
-      // Add opens data (use unique opens for consistency)
-      if (opensData.Days) {
-        opensData.Days.forEach((day: any) => {
-          const existing = dailyMap.get(day.Date)
-          if (existing) {
-            existing.opened = day.Unique || day.Opens || 0
-          }
-        })
+    // Rows of several servers are summed per day; a stream or tag of the same
+    // name on different servers counts as one
+    const dailyData: PostmarkDailyStats[] = []
+    const tagDays = new Map<string, { days: PostmarkDailyStats[]; servers: Set<string> }>()
+    const streamDays = new Map<string, { days: PostmarkDailyStats[]; servers: Set<string> }>()
+    const serverDays = new Map<string, PostmarkDailyStats[]>()
+
+    const addTo = (map: typeof tagDays, key: string, rowServer: string, day: PostmarkDailyStats) => {
+      const entry = map.get(key) ?? { days: [], servers: new Set<string>() }
+      entry.days.push(day)
+      entry.servers.add(rowServer)
+      map.set(key, entry)
+    }
+
+    snapshots.forEach(({ server: rowServer, stream: rowStream, tag, ...day }) => {
+      if (rowStream === ALL_STREAMS && tag === ALL_TAGS) {
+        serverDays.set(rowServer, [...(serverDays.get(rowServer) ?? []), day])
       }
 
-      // Add clicks data (use unique clicks for consistency)
-      if (clicksData.Days) {
-        clicksData.Days.forEach((day: any) => {
-          const existing = dailyMap.get(day.Date)
-          if (existing) {
-            existing.clicked = day.Unique || day.Clicks || 0
-          }
-        })
+      if (selectedServer !== ALL_SERVERS && rowServer !== selectedServer) return
+
+      if (rowStream !== ALL_STREAMS && tag === ALL_TAGS) {
+        addTo(streamDays, rowStream, rowServer, day)
       }
 
-      // Add bounce data (use actual bounces, not SMTP errors)
-      if (bounceData.Days) {
-        bounceData.Days.forEach((day: any) => {
-          const existing = dailyMap.get(day.Date)
-          if (existing) {
-            // Only count hard bounces and soft bounces, not SMTP API errors
-            existing.bounced = (day.HardBounce || 0) + (day.SoftBounce || 0) + (day.Transient || 0)
-          }
-        })
+      if (rowStream !== selectedStream) return
+
+      if (tag === ALL_TAGS) {
+        dailyData.push(day)
+      } else {
+        addTo(tagDays, tag, rowServer, day)
       }
+    })
 
-      // Calculate delivered for each day (sent - bounced)
-      dailyMap.forEach((day) => {
-        day.delivered = Math.max(0, day.sent - day.bounced)
+    // The summary and every breakdown count each recipient's opens and clicks
+    // once over the range, like the Postmark dashboard; the daily figures stay
+    // unique per day. Without Postmark they fall back to the daily sums.
+    const scopedServers = servers.filter(info => selectedServer === ALL_SERVERS || info.id === selectedServer)
+    const streamFilter = selectedStream === ALL_STREAMS ? undefined : selectedStream
+    const uniqueFor = (targets: PostmarkServerConfig[], stream?: string, tag?: string) =>
+      getUniqueEngagement(targets, fromDateStr, toDateStr, stream, tag).catch(error => {
+        console.warn('Could not fetch unique opens and clicks from Postmark, summing daily counts:', error)
+        return undefined
       })
+    const serversIn = (ids: Set<string>) => scopedServers.filter(info => ids.has(info.id))
 
-      // Convert to array and sort by date
-      const dailyData = Array.from(dailyMap.values()).sort((a, b) => 
-        new Date(a.date).getTime() - new Date(b.date).getTime()
-      )
-
-      // Calculate delivered emails (sent - bounced) from overview
-      const delivered = Math.max(0, (overviewData.Sent || 0) - (overviewData.Bounced || 0))
-
-      // Create summary using overview data (matches Postmark dashboard exactly)
-      const summary = {
-        sent: overviewData.Sent || 0,
-        delivered: delivered,
-        opened: overviewData.UniqueOpens || 0, // Use unique opens for proper rate calculation
-        clicked: overviewData.UniqueLinksClicked || 0, // Use unique clicks
-        bounced: overviewData.Bounced || 0, // This matches Postmark dashboard exactly
-        spam: overviewData.SpamComplaints || 0,
-        unsubscribed: 0, // Would require suppressions API access
-        openRate: calculateRate(overviewData.UniqueOpens || 0, overviewData.Sent || 0),
-        clickRate: calculateRate(overviewData.UniqueLinksClicked || 0, overviewData.Sent || 0),
-        bounceRate: calculateRate(overviewData.Bounced || 0, overviewData.Sent || 0)
-      }
+    const summary = summarize(dailyData, fromDateStr, toDateStr, spamThresholds, await uniqueFor(scopedServers, streamFilter))
 
-      console.log('Calculated summary:', JSON.stringify(summary, null, 2))
-      console.log('Daily data sample:', JSON.stringify(dailyData.slice(0, 3), null, 2))
+    const byTag: TagStats[] = (await Promise.all(Array.from(tagDays.entries())
+      .filter(([, entry]) => hasDaysInRange(entry.days))
+      .map(async ([tag, entry]) => ({
+        tag,
+        ...summarize(entry.days, fromDateStr, toDateStr, spamThresholds, await uniqueFor(serversIn(entry.servers), streamFilter, tag)),
+        servers: Array.from(entry.servers).sort()
+      }))))
+      .sort((a, b) => b.sent - a.sent)
 
-      // Create empty byTag data (would require tag-specific API calls)
-      const byTag: any[] = []
+    // Stream names are only used for display, so fall back to the stream IDs
+    const streams = (await Promise.all(scopedServers.map(getServerStreams))).flat()
+    const streamInfo = new Map<string, PostmarkMessageStream>()
+    streams.forEach(info => {
+      if (!streamInfo.has(info.ID)) streamInfo.set(info.ID, info)
+    })
 
-      const response: StatsResponse = {
-        success: true,
-        data: {
-          summary,
-          byTag,
-          daily: dailyData,
-          timeRange: `${fromDateStr} to ${toDateStr}`
-        }
-      }
+    const byStream: StreamStats[] = (await Promise.all(Array.from(streamDays.entries())
+      .filter(([, entry]) => hasDaysInRange(entry.days))
+      .map(async ([id, entry]) => ({
+        stream: id,
+        name: streamInfo.get(id)?.Name ?? id,
+        type: streamInfo.get(id)?.MessageStreamType ?? 'Unknown',
+        ...summarize(entry.days, fromDateStr, toDateStr, spamThresholds, await uniqueFor(serversIn(entry.servers), id)),
+        servers: Array.from(entry.servers).sort(),
+        daily: withDailySpamRates(sumByDay([entry.days]), fromDateStr)
+      }))))
+      .sort((a, b) => b.sent - a.sent)
 
-      res.status(200).json(response)
+    // Every server over all of its streams, so with all servers and streams
+    // selected the rows add up to the summary
+    const byServer: ServerStats[] = await Promise.all(servers.map(async info => {
+      const days = serverDays.get(info.id) ?? []
+      return {
+        server: info.id,
+        name: info.name,
+        ...summarize(days, fromDateStr, toDateStr, spamThresholds, hasDaysInRange(days) ? await uniqueFor([info]) : undefined),
+        daily: withDailySpamRates(days, fromDateStr)
+      }
+    }))
 
-    } catch (apiError) {
-      console.error('Postmark API error:', apiError)
-      throw new Error(`Failed to fetch data from Postmark: ${apiError instanceof Error ? apiError.message : 'Unknown error'}`)
+    const response: StatsResponse = {
+      success: true,
+      data: {
+        summary,
+        byTag,
+        daily: withDailySpamRates(sumByDay([dailyData]), fromDateStr),
+        byStream,
+        byServer,
+        spamThresholds,
+        server: selectedServer === ALL_SERVERS ? null : selectedServer,
+        stream: selectedStream === ALL_STREAMS ? null : selectedStream,
+        timeRange: `${fromDateStr} to ${toDateStr}`
+      }
     }
 
+    res.status(200).json(response)
+
   } catch (error) {
     console.error('Stats API error:', error)
     res.status(500).json({
@@ -217,4 +312,4 @@ export default async function handler(
       error: error instanceof Error ? error.message : 'Internal server error'
     })
   }
-} 
\ No newline at end of file
+}
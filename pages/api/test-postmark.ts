@@ -1,4 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
+import { getPostmarkClient, getPrimaryServerToken, PostmarkApiError, PostmarkServer } from '@/lib/postmark'
 
 export default async function handler(
   req: NextApiRequest,
@@ -6,7 +7,7 @@ export default async function handler(
 ) {
   try {
     // Check environment variable
-    const token = process.env.POSTMARK_SERVER_TOKEN
+    const token = getPrimaryServerToken()
     if (!token) {
       return res.status(200).json({
         success: false,
@@ -16,33 +17,43 @@ export default async function handler(
     }
 
     // Test basic fetch to Postmark
-    const response = await fetch('https://api.postmarkapp.com/server', {
-      headers: {
-        'Accept': 'application/json',
-        'X-Postmark-Server-Token': token
-      }
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text()
+    let server: PostmarkServer
+    try {
+      server = await getPostmarkClient().getServer()
+    } catch (apiError) {
       return res.status(200).json({
         success: false,
-        error: `Postmark API returned ${response.status}: ${errorText}`,
+        error: apiError instanceof PostmarkApiError
+          ? `Postmark API returned ${apiError.status}: ${apiError.message}`
+          : `Network error: ${apiError instanceof Error ? apiError.message : 'Unknown error'}`,
         hasToken: true,
         tokenLength: token.length,
         tokenStart: token.substring(0, 8) + '...'
       })
     }
 
-    const data = await response.json()
-    
+    // The account token is optional and only used for domain and sender signature checks
+    let accountError: string | undefined
+    const hasAccountToken = getPostmarkClient().hasAccountToken()
+    if (hasAccountToken) {
+      try {
+        await getPostmarkClient().getDomains()
+      } catch (apiError) {
+        accountError = apiError instanceof PostmarkApiError
+          ? `Postmark API returned ${apiError.status}: ${apiError.message}`
+          : `Network error: ${apiError instanceof Error ? apiError.message : 'Unknown error'}`
+      }
+    }
+
     return res.status(200).json({
       success: true,
       message: 'Postmark connection successful',
       hasToken: true,
       tokenLength: token.length,
       tokenStart: token.substring(0, 8) + '...',
-      serverInfo: data.Name || 'Unknown server'
+      serverInfo: server.Name || 'Unknown server',
+      hasAccountToken,
+      accountError
     })
 
   } catch (error) {
@@ -50,7 +61,7 @@ export default async function handler(
     return res.status(200).json({
       success: false,
       error: `Network error: ${errorMessage}`,
-      hasToken: !!process.env.POSTMARK_SERVER_TOKEN
+      hasToken: !!(process.env.POSTMARK_SERVER_TOKEN || process.env.POSTMARK_SERVER_TOKENS)
     })
   }
 } 
\ No newline at end of file
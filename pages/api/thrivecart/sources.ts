@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ThriveCartService } from '@/lib/thrivecart';
+import {
+  authenticateSourceAdmin,
+  clearThriveCartSources,
+  getThriveCartSources,
+  saveThriveCartSources,
+  SourceValidation,
+  ThriveCartSourcesSchema,
+  ThriveCartSourceSettings,
+  validateThriveCartSource
+} from '@/lib/thrivecart-sources';
+
+export interface SourcesResponse {
+  success: boolean;
+  data?: ThriveCartSourceSettings;
+  // Reports of every source when a save is rejected
+  validations?: SourceValidation[];
+  error?: string;
+}
+
+// GET lists the sources in use, PUT validates and saves new ones and DELETE
+// falls back to THRIVECART_CSV_URLS. PUT and DELETE need the admin secret.
+export default async function handler(req: NextApiRequest, res: NextApiResponse<SourcesResponse>) {
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, data: await getThriveCartSources() });
+    }
+
+    if (req.method === 'PUT' || req.method === 'DELETE') {
+      const auth = authenticateSourceAdmin(req.headers);
+      if (!auth.authorized) {
+        return res.status(401).json({ success: false, error: auth.error });
+      }
+    }
+
+    if (req.method === 'PUT') {
+      const parsed = ThriveCartSourcesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          error: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ')
+        });
+      }
+
+      const validations: SourceValidation[] = [];
+      for (const source of parsed.data.sources) {
+        validations.push(await validateThriveCartSource(source.url));
+      }
+      if (validations.some(validation => !validation.ok)) {
+        return res.status(422).json({ success: false, error: 'One or more sources failed validation', validations });
+      }
+
+      await saveThriveCartSources(parsed.data.sources);
+      await ThriveCartService.getInstance().resetTransactions();
+      return res.status(200).json({ success: true, data: await getThriveCartSources(), validations });
+    }
+
+    if (req.method === 'DELETE') {
+      await clearThriveCartSources();
+      await ThriveCartService.getInstance().resetTransactions();
+      return res.status(200).json({ success: true, data: await getThriveCartSources() });
+    }
+
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Error in ThriveCart sources API:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
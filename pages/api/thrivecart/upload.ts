@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { importUpload, ThriveCartUploadResult, ThriveCartUploadSchema } from '@/lib/thrivecart-upload';
+
+export interface UploadResponse {
+  success: boolean;
+  data?: ThriveCartUploadResult;
+  error?: string;
+}
+
+// Exports of several years run to a few megabytes of JSON
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '20mb' }
+  }
+};
+
+// Imports a ThriveCart export parsed in the browser. Send it with dryRun
+// first to preview the mapping, rejected rows and duplicates.
+export default async function handler(req: NextApiRequest, res: NextApiResponse<UploadResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const parsed = ThriveCartUploadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      error: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ')
+    });
+  }
+
+  try {
+    const result = await importUpload(parsed.data);
+    if (!parsed.data.dryRun && result.missingColumns.length > 0) {
+      return res.status(422).json({ success: false, error: `Missing columns: ${result.missingColumns.join(', ')}`, data: result });
+    }
+
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error importing ThriveCart upload:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { authenticateSourceAdmin, SourceValidation, validateThriveCartSource } from '@/lib/thrivecart-sources';
+
+export interface ValidateSourceResponse {
+  success: boolean;
+  data?: SourceValidation;
+  error?: string;
+}
+
+// Checks a sheet before it's saved as a source; problems are part of the
+// report rather than an error response
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ValidateSourceResponse>) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const auth = authenticateSourceAdmin(req.headers);
+  if (!auth.authorized) {
+    return res.status(401).json({ success: false, error: auth.error });
+  }
+
+  const url = typeof req.body?.url === 'string' ? req.body.url.trim() : '';
+  if (!url) {
+    return res.status(400).json({ success: false, error: 'url is required' });
+  }
+
+  try {
+    res.status(200).json({ success: true, data: await validateThriveCartSource(url) });
+  } catch (error) {
+    console.error('Error validating ThriveCart source:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { facebookRateLimiter } from '@/lib/rate-limiter';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
@@ -19,7 +20,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Test the token by calling Facebook's debug endpoint
     const debugUrl = `https://graph.facebook.com/debug_token?input_token=${accessToken}&access_token=${accessToken}`;
     
-    const debugResponse = await fetch(debugUrl);
+    const debugResponse = await facebookRateLimiter.fetch(debugUrl);
     const debugData = await debugResponse.json();
     
     console.log('📊 Facebook Debug Response:', JSON.stringify(debugData, null, 2));
@@ -36,7 +37,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Test ad accounts access
     const adAccountsUrl = `https://graph.facebook.com/v18.0/me/adaccounts?access_token=${accessToken}&fields=id,name,account_status`;
     
-    const adAccountsResponse = await fetch(adAccountsUrl);
+    const adAccountsResponse = await facebookRateLimiter.fetch(adAccountsUrl);
     const adAccountsData = await adAccountsResponse.json();
     
     console.log('📋 Ad Accounts Response:', JSON.stringify(adAccountsData, null, 2));
@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { PostmarkWebhookSchema } from '@/lib/postmark'
+import { authenticateWebhook, storePostmarkEvent } from '@/lib/postmark-webhooks'
+
+export interface WebhookResponse {
+  success: boolean
+  recordType?: string
+  error?: string
+  issues?: string[]
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<WebhookResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  const auth = authenticateWebhook(req.headers, req.query)
+  if (!auth.authorized) {
+    console.warn('Rejected Postmark webhook:', auth.error)
+    return res.status(401).json({ success: false, error: auth.error })
+  }
+
+  const parsed = PostmarkWebhookSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid webhook payload',
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+    })
+  }
+
+  try {
+    // Webhooks of servers other than the primary one are configured with ?server=<server ID>
+    const server = typeof req.query.server === 'string' && req.query.server !== '' ? req.query.server : undefined
+    await storePostmarkEvent(parsed.data, req.body, server)
+
+    res.status(200).json({ success: true, recordType: parsed.data.RecordType })
+  } catch (error) {
+    console.error('Postmark webhook error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
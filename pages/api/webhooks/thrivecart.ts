@@ -0,0 +1,70 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import {
+  authenticateThriveCartWebhook,
+  expandFormFields,
+  storeThriveCartWebhook,
+  THRIVECART_WEBHOOK_EVENTS,
+  ThriveCartWebhookSchema
+} from '@/lib/thrivecart-webhooks'
+
+export interface ThriveCartWebhookResponse {
+  success: boolean
+  event?: string
+  // Transactions stored by this notification; 0 for retries and ignored events
+  stored?: number
+  ignored?: string
+  error?: string
+  issues?: string[]
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ThriveCartWebhookResponse>
+) {
+  // ThriveCart checks that the URL responds before saving it
+  if (req.method === 'HEAD') {
+    return res.status(200).end()
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  const body = expandFormFields(typeof req.body === 'object' && req.body !== null ? req.body : {})
+
+  const auth = authenticateThriveCartWebhook(body)
+  if (!auth.authorized) {
+    console.warn('Rejected ThriveCart webhook:', auth.error)
+    return res.status(401).json({ success: false, error: auth.error })
+  }
+
+  const parsed = ThriveCartWebhookSchema.safeParse(body)
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid webhook payload',
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+    })
+  }
+
+  const webhook = parsed.data
+  if (THRIVECART_WEBHOOK_EVENTS.indexOf(webhook.event) === -1) {
+    return res.status(200).json({ success: true, event: webhook.event, stored: 0, ignored: 'Unsupported event' })
+  }
+  if (webhook.mode === 'test') {
+    return res.status(200).json({ success: true, event: webhook.event, stored: 0, ignored: 'Test mode' })
+  }
+  if (!webhook.order_id && !webhook.order?.id) {
+    return res.status(400).json({ success: false, error: 'Invalid webhook payload', issues: ['order_id: Required'] })
+  }
+
+  try {
+    const stored = await storeThriveCartWebhook(webhook, body)
+    res.status(200).json({ success: true, event: webhook.event, stored })
+  } catch (error) {
+    console.error('ThriveCart webhook error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    })
+  }
+}
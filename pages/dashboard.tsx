@@ -208,8 +208,8 @@ export default function UnifiedDashboard() {
       costPerLead: facebook?.averageCostPerLead || 0,
 
       // Calculated metrics
-      roas: (facebook?.totalSpend || 0) > 0 ? (thrivecart?.totalRevenue || 0) / (facebook?.totalSpend || 0) : 0,
-      profitMargin: (thrivecart?.totalRevenue || 0) - (facebook?.totalSpend || 0)
+      roas: (facebook?.totalSpend || 0) > 0 ? (thrivecart?.netRevenue || 0) / (facebook?.totalSpend || 0) : 0,
+      profitMargin: (thrivecart?.netRevenue || 0) - (facebook?.totalSpend || 0)
     };
   };
 
@@ -237,7 +237,7 @@ export default function UnifiedDashboard() {
                 </h1>
                 <div className="flex gap-2">
                   <Link 
-                    href="/"
+                    href="/postmark"
                     className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
                   >
                     Postmark
@@ -481,7 +481,7 @@ export default function UnifiedDashboard() {
                         </span>
                       </div>
                       <Link 
-                        href="/"
+                        href="/postmark"
                         className="flex items-center justify-center w-full px-3 py-2 text-sm bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors"
                       >
                         View Details <ArrowRight className="h-4 w-4 ml-1" />
@@ -503,6 +503,18 @@ export default function UnifiedDashboard() {
                           ${stats.thrivecart.totalRevenue.toFixed(2)}
                         </span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600 dark:text-gray-400">Net Revenue</span>
+                        <span className="font-medium text-gray-900 dark:text-white">
+                          ${stats.thrivecart.netRevenue.toFixed(2)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600 dark:text-gray-400">Refund Rate</span>
+                        <span className="font-medium text-gray-900 dark:text-white">
+                          {stats.thrivecart.refundRate.toFixed(1)}%
+                        </span>
+                      </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600 dark:text-gray-400">Transactions</span>
                         <span className="font-medium text-gray-900 dark:text-white">
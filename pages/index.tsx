@@ -20,6 +20,7 @@ import { format, subDays, parseISO } from 'date-fns';
 
 // Import existing components
 import KpiCard from '@/components/KpiCard';
+import RateLimitBanner from '@/components/RateLimitBanner';
 import { FacebookChart } from '@/components/facebook/FacebookChart';
 import { ThriveCartChart } from '@/components/thrivecart/ThriveCartChart';
 
@@ -280,7 +281,7 @@ export default function UnifiedDashboard() {
       }
       const metrics = dateMap.get(day.date)!;
       metrics.grossRevenue = day.revenue;
-      metrics.netRevenue = day.revenue; // Assuming gross = net for now
+      metrics.netRevenue = day.netRevenue;
       metrics.transactions = day.transactions;
       metrics.averageOrderValue = metrics.transactions > 0 ? metrics.grossRevenue / metrics.transactions : 0;
       metrics.upsells = day.upsells || 0;
@@ -321,9 +322,9 @@ export default function UnifiedDashboard() {
       metrics.leads = day.leads;
       metrics.costPerLead = day.costPerLead;
 
-      // Calculate derived metrics
-      metrics.roas = metrics.adSpend > 0 ? metrics.grossRevenue / metrics.adSpend : 0;
-      metrics.profit = metrics.grossRevenue - metrics.adSpend;
+      // Calculate derived metrics, net of refunds
+      metrics.roas = metrics.adSpend > 0 ? metrics.netRevenue / metrics.adSpend : 0;
+      metrics.profit = metrics.netRevenue - metrics.adSpend;
       metrics.conversionRate = metrics.leads > 0 ? (metrics.transactions / metrics.leads) * 100 : 0;
     });
 
@@ -337,7 +338,8 @@ export default function UnifiedDashboard() {
     const dailyMetrics = getDailyMetrics();
     
     const totals = dailyMetrics.reduce((acc, day) => ({
-      totalRevenue: acc.totalRevenue + day.grossRevenue,
+      totalGrossRevenue: acc.totalGrossRevenue + day.grossRevenue,
+      totalRevenue: acc.totalRevenue + day.netRevenue,
       totalSpend: acc.totalSpend + day.adSpend,
       totalClicks: acc.totalClicks + day.adClicks,
       totalLeads: acc.totalLeads + day.leads,
@@ -345,6 +347,7 @@ export default function UnifiedDashboard() {
       totalEmailsSent: acc.totalEmailsSent + day.emailsSent,
       totalEmailsOpened: acc.totalEmailsOpened + day.emailsOpened
     }), {
+      totalGrossRevenue: 0,
       totalRevenue: 0,
       totalSpend: 0,
       totalClicks: 0,
@@ -441,6 +444,8 @@ export default function UnifiedDashboard() {
 
         {/* Main Content */}
         <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <RateLimitBanner active={loading || refreshing} className="mb-6" />
+
           {loading ? (
             <div className="flex items-center justify-center h-64">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -510,10 +515,11 @@ export default function UnifiedDashboard() {
               {/* Summary KPIs */}
               <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
                 <KpiCard
-                  title="Total Revenue"
+                  title="Net Revenue"
                   value={summary.totalRevenue}
                   icon={DollarSign}
                   format="currency"
+                  subtitle={`$${summary.totalGrossRevenue.toFixed(0)} gross`}
                 />
                 <KpiCard
                   title="Ad Spend"
@@ -588,7 +594,7 @@ export default function UnifiedDashboard() {
                         <th className="px-2 py-2 text-xs text-gray-600 dark:text-gray-300 text-center">Opened</th>
                         <th className="px-2 py-2 text-xs text-gray-600 dark:text-gray-300 text-center border-r border-gray-200 dark:border-gray-500">Open %</th>
                         {/* ThriveCart Sub-headers */}
-                        <th className="px-2 py-2 text-xs text-gray-600 dark:text-gray-300 text-center">Revenue</th>
+                        <th className="px-2 py-2 text-xs text-gray-600 dark:text-gray-300 text-center">Net Revenue</th>
                         <th className="px-2 py-2 text-xs text-gray-600 dark:text-gray-300 text-center">Orders</th>
                         <th className="px-2 py-2 text-xs text-gray-600 dark:text-gray-300 text-center">AOV</th>
                         <th className="px-2 py-2 text-xs text-gray-600 dark:text-gray-300 text-center border-r border-gray-200 dark:border-gray-500">Upsells</th>
@@ -627,7 +633,7 @@ export default function UnifiedDashboard() {
 
                           {/* ThriveCart Data */}
                           <td className="px-2 py-3 text-sm text-gray-900 dark:text-white text-center">
-                            ${day.grossRevenue.toFixed(0)}
+                            ${day.netRevenue.toFixed(0)}
                           </td>
                           <td className="px-2 py-3 text-sm text-gray-900 dark:text-white text-center">
                             {day.transactions}
@@ -696,7 +702,7 @@ export default function UnifiedDashboard() {
                           {summary.totalTransactions}
                         </td>
                         <td className="px-2 py-3 text-sm text-gray-900 dark:text-white text-center">
-                          ${summary.totalTransactions > 0 ? (summary.totalRevenue / summary.totalTransactions).toFixed(0) : '0'}
+                          ${summary.totalTransactions > 0 ? (summary.totalGrossRevenue / summary.totalTransactions).toFixed(0) : '0'}
                         </td>
                         <td className="px-2 py-3 text-sm text-gray-900 dark:text-white text-center border-r border-gray-200 dark:border-gray-500">
                           -
@@ -0,0 +1,693 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import {
+  Mail,
+  Eye,
+  MousePointer,
+  AlertTriangle,
+  RefreshCw,
+  Moon,
+  Sun,
+  ArrowLeft,
+  Calendar,
+  UserMinus,
+  ShieldAlert,
+  Layers,
+  Server
+} from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import KpiCard from '@/components/KpiCard';
+import RateLimitBanner from '@/components/RateLimitBanner';
+import StatsChart from '@/components/StatsChart';
+import StatsTable from '@/components/StatsTable';
+import { ShareChart } from '@/components/postmark/ShareChart';
+import { DeliverabilityPanel } from '@/components/postmark/DeliverabilityPanel';
+import { InboundPanel } from '@/components/postmark/InboundPanel';
+import { StatsResponse } from '@/pages/api/stats';
+import { ClientsResponse } from '@/pages/api/postmark/clients';
+
+// KpiCard alert for a spam level from /api/stats
+const spamAlert = (level: NonNullable<StatsResponse['data']>['summary']['spamLevel']) =>
+  level === 'ok' ? undefined : level;
+
+const TIME_RANGES = [
+  { label: '7D', days: 7 },
+  { label: '30D', days: 30 },
+  { label: '90D', days: 90 },
+];
+
+export default function PostmarkDashboard() {
+  const [stats, setStats] = useState<StatsResponse['data'] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [darkMode, setDarkMode] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  // Date filtering state
+  const [selectedRange, setSelectedRange] = useState(30); // Default to 30 days
+  const [dateRange, setDateRange] = useState({
+    from: format(subDays(new Date(), 30), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+
+  // Outbound stats or the inbound message report
+  const [view, setView] = useState<'outbound' | 'inbound'>('outbound');
+
+  // Postmark server filter, empty for all servers
+  const [selectedServer, setSelectedServer] = useState('');
+
+  // Message stream filter, empty for all streams
+  const [selectedStream, setSelectedStream] = useState('');
+
+  // Email client and device breakdowns, loaded separately from the main stats
+  const [clients, setClients] = useState<ClientsResponse['data'] | null>(null);
+  const [clientsError, setClientsError] = useState<string | null>(null);
+  const [clientsTag, setClientsTag] = useState('');
+
+  // Initialize dark mode from localStorage
+  useEffect(() => {
+    const savedDarkMode = localStorage.getItem('darkMode') === 'true';
+    setDarkMode(savedDarkMode);
+    if (savedDarkMode) {
+      document.documentElement.classList.add('dark');
+    }
+  }, []);
+
+  const toggleDarkMode = () => {
+    const newDarkMode = !darkMode;
+    setDarkMode(newDarkMode);
+    localStorage.setItem('darkMode', newDarkMode.toString());
+
+    if (newDarkMode) {
+      document.documentElement.classList.add('dark');
+    } else {
+      document.documentElement.classList.remove('dark');
+    }
+  };
+
+  const fetchData = async (forceRefresh = false) => {
+    try {
+      if (forceRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+
+      // Build query parameters
+      const params = new URLSearchParams();
+      if (selectedRange > 0) {
+        params.append('days', selectedRange.toString());
+      } else {
+        params.append('from', dateRange.from);
+        params.append('to', dateRange.to);
+      }
+      if (selectedServer) {
+        params.append('server', selectedServer);
+      }
+      if (selectedStream) {
+        params.append('stream', selectedStream);
+      }
+
+      // Re-sync the range from Postmark into the database before reading it back
+      if (forceRefresh) {
+        const refreshResponse = await fetch('/api/refresh', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(dateRange),
+        });
+        const refreshData = await refreshResponse.json();
+        if (!refreshData.success) {
+          throw new Error(refreshData.error || `HTTP error! status: ${refreshResponse.status}`);
+        }
+      }
+
+      const response = await fetch(`/api/stats?${params.toString()}`);
+      const data: StatsResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setStats(data.data ?? null);
+      setLastUpdated(new Date());
+    } catch (err) {
+      console.error('Error fetching Postmark data:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch data');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const fetchClients = async () => {
+    try {
+      setClientsError(null);
+
+      const params = new URLSearchParams();
+      if (selectedRange > 0) {
+        params.append('days', selectedRange.toString());
+      } else {
+        params.append('from', dateRange.from);
+        params.append('to', dateRange.to);
+      }
+      if (clientsTag) {
+        params.append('tag', clientsTag);
+      }
+
+      const response = await fetch(`/api/postmark/clients?${params.toString()}`);
+      const data: ClientsResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setClients(data.data ?? null);
+    } catch (err) {
+      console.error('Error fetching email client data:', err);
+      setClientsError(err instanceof Error ? err.message : 'Failed to fetch email client data');
+    }
+  };
+
+  // The inbound report covers one server, the primary one unless another is selected
+  const inboundQuery = () => {
+    const params = new URLSearchParams();
+    if (selectedRange > 0) {
+      params.append('days', selectedRange.toString());
+    } else {
+      params.append('from', dateRange.from);
+      params.append('to', dateRange.to);
+    }
+    if (selectedServer) {
+      params.append('server', selectedServer);
+    }
+    return params.toString();
+  };
+
+  // Handle preset time range change
+  const handleTimeRangeChange = (days: number) => {
+    setSelectedRange(days);
+    setLoading(true);
+    // Update date range for display
+    const toDate = new Date();
+    const fromDate = subDays(toDate, days);
+    setDateRange({
+      from: format(fromDate, 'yyyy-MM-dd'),
+      to: format(toDate, 'yyyy-MM-dd')
+    });
+  };
+
+  // Handle custom date range change
+  const handleDateRangeChange = (newRange: { from: string; to: string }) => {
+    setDateRange(newRange);
+    setSelectedRange(0); // Clear preset selection
+    setLoading(true);
+  };
+
+  const handleServerChange = (server: string) => {
+    setSelectedServer(server);
+    setLoading(true);
+  };
+
+  const handleStreamChange = (stream: string) => {
+    setSelectedStream(stream);
+    setLoading(true);
+  };
+
+  // Initial load and range changes
+  useEffect(() => {
+    fetchData();
+  }, [selectedRange, dateRange, selectedServer, selectedStream]);
+
+  useEffect(() => {
+    fetchClients();
+  }, [selectedRange, dateRange, clientsTag]);
+
+  if (loading) {
+    return (
+      <>
+        <Head>
+          <title>Postmark Analytics Dashboard</title>
+          <meta name="description" content="Email analytics dashboard for Postmark data" />
+          <meta name="viewport" content="width=device-width, initial-scale=1" />
+          <link rel="icon" href="/favicon.ico" />
+        </Head>
+        <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+          <div className="text-center">
+            <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">Loading Postmark data...</p>
+            <RateLimitBanner active={loading} className="mt-4 text-left" />
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  if (error && !stats) {
+    return (
+      <>
+        <Head>
+          <title>Postmark Analytics Dashboard - Error</title>
+          <meta name="description" content="Email analytics dashboard for Postmark data" />
+          <meta name="viewport" content="width=device-width, initial-scale=1" />
+          <link rel="icon" href="/favicon.ico" />
+        </Head>
+        <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+          <div className="text-center">
+            <div className="bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-400 p-4 rounded-lg mb-4">
+              <p className="font-medium">Error loading data</p>
+              <p className="text-sm mt-1">{error}</p>
+            </div>
+            <button
+              onClick={() => fetchData()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Try Again
+            </button>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Postmark Analytics Dashboard</title>
+        <meta name="description" content="Email analytics dashboard for Postmark data" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center h-16">
+              <div className="flex items-center gap-4">
+                <Link
+                  href="/"
+                  className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to Dashboard
+                </Link>
+                <div className="h-6 w-px bg-gray-300 dark:bg-gray-600" />
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                  Postmark Analytics
+                </h1>
+                <Link
+                  href="/postmark/bounces"
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Bounces
+                </Link>
+                <Link
+                  href="/postmark/links"
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Links
+                </Link>
+                <Link
+                  href="/postmark/messages"
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Messages
+                </Link>
+                <Link
+                  href="/postmark/recipients"
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Recipients
+                </Link>
+                <Link
+                  href="/postmark/templates"
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Templates
+                </Link>
+                <Link
+                  href="/postmark/send-times"
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Send Times
+                </Link>
+              </div>
+
+              <div className="flex items-center gap-4">
+                {/* Time Range Presets */}
+                <div className="flex items-center space-x-2">
+                  {TIME_RANGES.map((range) => (
+                    <button
+                      key={range.days}
+                      onClick={() => handleTimeRangeChange(range.days)}
+                      className={`
+                        px-3 py-1 text-sm rounded-md transition-colors
+                        ${selectedRange === range.days
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        }
+                      `}
+                    >
+                      {range.label}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Custom Date Range Picker */}
+                <div className="flex items-center space-x-2 border-l border-gray-200 dark:border-gray-600 pl-4">
+                  <Calendar className="h-4 w-4 text-gray-400" />
+                  <input
+                    type="date"
+                    value={dateRange.from}
+                    onChange={(e) => handleDateRangeChange({ ...dateRange, from: e.target.value })}
+                    className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                  <span className="text-gray-500 dark:text-gray-400">to</span>
+                  <input
+                    type="date"
+                    value={dateRange.to}
+                    onChange={(e) => handleDateRangeChange({ ...dateRange, to: e.target.value })}
+                    className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </div>
+
+                {/* Postmark Server Filter */}
+                {stats && stats.byServer.length > 1 && (
+                  <div className="flex items-center space-x-2 border-l border-gray-200 dark:border-gray-600 pl-4">
+                    <Server className="h-4 w-4 text-gray-400" />
+                    <select
+                      value={selectedServer}
+                      onChange={(e) => handleServerChange(e.target.value)}
+                      className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="">All servers</option>
+                      {stats.byServer.map((server) => (
+                        <option key={server.server} value={server.server}>
+                          {server.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {/* Message Stream Filter */}
+                {stats && stats.byStream.length > 0 && (
+                  <div className="flex items-center space-x-2 border-l border-gray-200 dark:border-gray-600 pl-4">
+                    <Layers className="h-4 w-4 text-gray-400" />
+                    <select
+                      value={selectedStream}
+                      onChange={(e) => handleStreamChange(e.target.value)}
+                      className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="">All streams</option>
+                      {stats.byStream.map((stream) => (
+                        <option key={stream.stream} value={stream.stream}>
+                          {stream.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {lastUpdated && (
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    Last updated: {lastUpdated.toLocaleTimeString()}
+                  </span>
+                )}
+
+                <button
+                  onClick={() => fetchData(true)}
+                  disabled={refreshing}
+                  className="flex items-center gap-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                  {refreshing ? 'Refreshing...' : 'Refresh'}
+                </button>
+
+                <button
+                  onClick={toggleDarkMode}
+                  className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                >
+                  {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+                </button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <RateLimitBanner active={refreshing} className="mb-6" />
+
+          <DeliverabilityPanel />
+
+          {/* Outbound / Inbound Tabs */}
+          <div className="flex gap-6 border-b border-gray-200 dark:border-gray-700 mb-6">
+            {(['outbound', 'inbound'] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setView(tab)}
+                className={`pb-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                  view === tab
+                    ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+              >
+                {tab === 'outbound' ? 'Outbound' : 'Inbound'}
+              </button>
+            ))}
+          </div>
+
+          {view === 'inbound' && (
+            <InboundPanel query={inboundQuery()} refreshKey={lastUpdated?.getTime()} />
+          )}
+
+          {error && (
+            <div className="mb-6 bg-yellow-100 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-700 text-yellow-800 dark:text-yellow-400 px-4 py-3 rounded-lg">
+              <p className="font-medium">Warning</p>
+              <p className="text-sm mt-1">{error}</p>
+            </div>
+          )}
+
+          {view === 'outbound' && stats && (
+            <>
+              {/* Date Range Display */}
+              <div className="flex justify-between items-center mb-6">
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  {stats.timeRange}
+                  {stats.server && ` · ${stats.byServer.find((server) => server.server === stats.server)?.name ?? stats.server}`}
+                  {stats.stream && ` · ${stats.byStream.find((stream) => stream.stream === stats.stream)?.name ?? stats.stream}`}
+                </div>
+              </div>
+
+              {/* KPI Cards */}
+              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-6 mb-8">
+                <KpiCard
+                  title="Emails Sent"
+                  value={stats.summary.sent}
+                  icon={Mail}
+                  format="number"
+                />
+                <KpiCard
+                  title="Open Rate"
+                  value={stats.summary.openRate}
+                  icon={Eye}
+                  format="percentage"
+                  subtitle={`${stats.summary.opened.toLocaleString()} unique opens`}
+                />
+                <KpiCard
+                  title="Click Rate"
+                  value={stats.summary.clickRate}
+                  icon={MousePointer}
+                  format="percentage"
+                  subtitle={`${stats.summary.clicked.toLocaleString()} unique clicks`}
+                />
+                <KpiCard
+                  title="Bounce Rate"
+                  value={stats.summary.bounceRate}
+                  icon={AlertTriangle}
+                  format="percentage"
+                  subtitle={`${stats.summary.bounced.toLocaleString()} bounced`}
+                />
+                <KpiCard
+                  title="Unsubscribe Rate"
+                  value={stats.summary.unsubscribeRate}
+                  icon={UserMinus}
+                  format="percentage"
+                  subtitle={`${stats.summary.unsubscribed.toLocaleString()} unsubscribed`}
+                />
+                <KpiCard
+                  title="Spam Rate"
+                  value={stats.summary.spamRate}
+                  icon={ShieldAlert}
+                  format="percentage"
+                  alert={spamAlert(stats.summary.spamLevel)}
+                  subtitle={`7d ${stats.summary.spamRate7d}% · 30d ${stats.summary.spamRate30d}%`}
+                />
+              </div>
+
+              {/* Daily Trend */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                  Daily Email Activity
+                </h3>
+                <StatsChart data={stats.daily} height={300} />
+              </div>
+
+              {/* Spam Complaint Rate */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                  Spam Complaint Rate (%)
+                </h3>
+                <StatsChart
+                  data={stats.daily}
+                  height={250}
+                  showMetrics={['spamRate', 'spamRate7d', 'spamRate30d']}
+                  labels={{ spamRate: 'Daily', spamRate7d: '7-day', spamRate30d: '30-day' }}
+                  colors={{ spamRate: '#ee5a52', spamRate7d: '#f59e0b', spamRate30d: '#8884d8' }}
+                  thresholds={[
+                    { value: stats.spamThresholds.warning, label: 'Warning', color: '#d97706' },
+                    { value: stats.spamThresholds.critical, label: 'Critical', color: '#dc2626' },
+                  ]}
+                />
+              </div>
+
+              {/* Email Clients & Devices */}
+              <div className="mb-8">
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    Email Clients &amp; Devices
+                  </h3>
+                  <select
+                    value={clientsTag}
+                    onChange={(e) => setClientsTag(e.target.value)}
+                    className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="">All tags</option>
+                    {stats.byTag.map((tag) => (
+                      <option key={tag.tag} value={tag.tag}>
+                        {tag.tag}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {clientsError && (
+                  <p className="text-sm text-red-600 dark:text-red-400 mb-4">{clientsError}</p>
+                )}
+                {clients && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    <ShareChart title="Opens by Email Client" data={clients.emailClients} />
+                    <ShareChart title="Opens by Platform" data={clients.openPlatforms} />
+                    <ShareChart title="Clicks by Browser" data={clients.browserFamilies} />
+                    <ShareChart title="Clicks by Platform" data={clients.clickPlatforms} />
+                    <ShareChart title="Clicks by Location" data={clients.clickLocations} />
+                  </div>
+                )}
+              </div>
+
+              {/* Per-Server Breakdown */}
+              {!stats.server && stats.byServer.length > 1 && (
+                <div className="mb-8">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                    Performance by Server
+                  </h3>
+                  <div className="space-y-6">
+                    {stats.byServer.map((server) => (
+                      <div
+                        key={server.server}
+                        className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6"
+                      >
+                        <div className="flex justify-between items-center mb-4">
+                          <h4 className="font-semibold text-gray-900 dark:text-white">{server.name}</h4>
+                          <button
+                            onClick={() => handleServerChange(server.server)}
+                            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            View server
+                          </button>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-4">
+                          <KpiCard title="Emails Sent" value={server.sent} icon={Mail} format="number" />
+                          <KpiCard title="Open Rate" value={server.openRate} icon={Eye} format="percentage" />
+                          <KpiCard title="Click Rate" value={server.clickRate} icon={MousePointer} format="percentage" />
+                          <KpiCard title="Bounce Rate" value={server.bounceRate} icon={AlertTriangle} format="percentage" />
+                          <KpiCard
+                            title="Spam Rate"
+                            value={server.spamRate}
+                            icon={ShieldAlert}
+                            format="percentage"
+                            alert={spamAlert(server.spamLevel)}
+                          />
+                        </div>
+                        <StatsChart data={server.daily} height={200} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Per-Stream Breakdown */}
+              {!stats.stream && stats.byStream.length > 1 && (
+                <div className="mb-8">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                    Performance by Message Stream
+                  </h3>
+                  <div className="space-y-6">
+                    {stats.byStream.map((stream) => (
+                      <div
+                        key={stream.stream}
+                        className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6"
+                      >
+                        <div className="flex justify-between items-center mb-4">
+                          <div>
+                            <h4 className="font-semibold text-gray-900 dark:text-white">{stream.name}</h4>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">{stream.type}</p>
+                          </div>
+                          <button
+                            onClick={() => handleStreamChange(stream.stream)}
+                            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            View stream
+                          </button>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-4">
+                          <KpiCard title="Emails Sent" value={stream.sent} icon={Mail} format="number" />
+                          <KpiCard title="Open Rate" value={stream.openRate} icon={Eye} format="percentage" />
+                          <KpiCard title="Click Rate" value={stream.clickRate} icon={MousePointer} format="percentage" />
+                          <KpiCard title="Bounce Rate" value={stream.bounceRate} icon={AlertTriangle} format="percentage" />
+                          <KpiCard
+                            title="Spam Rate"
+                            value={stream.spamRate}
+                            icon={ShieldAlert}
+                            format="percentage"
+                            alert={spamAlert(stream.spamLevel)}
+                          />
+                        </div>
+                        <StatsChart data={stream.daily} height={200} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Per-Tag Breakdown */}
+              <div className="mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                  Performance by Tag
+                </h3>
+                <StatsTable data={stats.byTag} />
+              </div>
+            </>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
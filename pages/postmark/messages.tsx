@@ -0,0 +1,335 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import {
+  RefreshCw,
+  Moon,
+  Sun,
+  ArrowLeft,
+  Calendar,
+  Filter
+} from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { MessageTable } from '@/components/postmark/MessageTable';
+import { MessageDetailPanel } from '@/components/postmark/MessageDetailPanel';
+import { MessagesResponse } from '@/pages/api/postmark/messages';
+
+const TIME_RANGES = [
+  { label: '7D', days: 7 },
+  { label: '30D', days: 30 },
+  { label: '90D', days: 90 },
+];
+
+const STATUSES = [
+  { value: '', label: 'All statuses' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'processed', label: 'Processed' },
+  { value: 'queued', label: 'Queued' },
+];
+
+interface MessageFilters {
+  recipient: string;
+  subject: string;
+  tag: string;
+  stream: string;
+  status: string;
+}
+
+// Free-text filters are applied on Enter or when the field loses focus
+const TEXT_FILTERS: Array<{ key: 'recipient' | 'subject' | 'tag'; placeholder: string }> = [
+  { key: 'recipient', placeholder: 'Recipient email' },
+  { key: 'subject', placeholder: 'Subject' },
+  { key: 'tag', placeholder: 'Tag' },
+];
+
+const EMPTY_FILTERS: MessageFilters = { recipient: '', subject: '', tag: '', stream: '', status: '' };
+
+export default function PostmarkMessages() {
+  const [messages, setMessages] = useState<MessagesResponse['data'] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [darkMode, setDarkMode] = useState(false);
+
+  // Date filtering state
+  const [selectedRange, setSelectedRange] = useState(30);
+  const [dateRange, setDateRange] = useState({
+    from: format(subDays(new Date(), 30), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+
+  const [filters, setFilters] = useState<MessageFilters>(EMPTY_FILTERS);
+  const [inputs, setInputs] = useState<MessageFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Initialize dark mode from localStorage
+  useEffect(() => {
+    const savedDarkMode = localStorage.getItem('darkMode') === 'true';
+    setDarkMode(savedDarkMode);
+    if (savedDarkMode) {
+      document.documentElement.classList.add('dark');
+    }
+  }, []);
+
+  const toggleDarkMode = () => {
+    const newDarkMode = !darkMode;
+    setDarkMode(newDarkMode);
+    localStorage.setItem('darkMode', newDarkMode.toString());
+
+    if (newDarkMode) {
+      document.documentElement.classList.add('dark');
+    } else {
+      document.documentElement.classList.remove('dark');
+    }
+  };
+
+  const fetchData = async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setRefreshing(true);
+      }
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (selectedRange > 0) {
+        params.append('days', selectedRange.toString());
+      } else {
+        params.append('from', dateRange.from);
+        params.append('to', dateRange.to);
+      }
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) {
+          params.append(key, value);
+        }
+      });
+      params.append('page', page.toString());
+
+      const response = await fetch(`/api/postmark/messages?${params.toString()}`);
+      const data: MessagesResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setMessages(data.data ?? null);
+    } catch (err) {
+      console.error('Error fetching messages:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch data');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleTimeRangeChange = (days: number) => {
+    setSelectedRange(days);
+    setPage(1);
+    const toDate = new Date();
+    setDateRange({
+      from: format(subDays(toDate, days), 'yyyy-MM-dd'),
+      to: format(toDate, 'yyyy-MM-dd')
+    });
+  };
+
+  const handleDateRangeChange = (newRange: { from: string; to: string }) => {
+    setDateRange(newRange);
+    setSelectedRange(0);
+    setPage(1);
+  };
+
+  const handleFilterChange = (key: keyof MessageFilters, value: string) => {
+    if (filters[key] === value) {
+      return;
+    }
+    setFilters({ ...filters, [key]: value });
+    setPage(1);
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [selectedRange, dateRange, filters, page]);
+
+  if (loading) {
+    return (
+      <>
+        <Head>
+          <title>Messages - Postmark</title>
+          <meta name="viewport" content="width=device-width, initial-scale=1" />
+          <link rel="icon" href="/favicon.ico" />
+        </Head>
+        <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+          <div className="text-center">
+            <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">Loading messages...</p>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  const selectClassName = 'text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <>
+      <Head>
+        <title>Messages - Postmark</title>
+        <meta name="description" content="Search outbound Postmark messages and their delivery events" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center h-16">
+              <div className="flex items-center gap-4">
+                <Link
+                  href="/postmark"
+                  className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to Postmark
+                </Link>
+                <div className="h-6 w-px bg-gray-300 dark:bg-gray-600" />
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                  Messages
+                </h1>
+              </div>
+
+              <div className="flex items-center gap-4">
+                {/* Time Range Presets */}
+                <div className="flex items-center space-x-2">
+                  {TIME_RANGES.map((range) => (
+                    <button
+                      key={range.days}
+                      onClick={() => handleTimeRangeChange(range.days)}
+                      className={`
+                        px-3 py-1 text-sm rounded-md transition-colors
+                        ${selectedRange === range.days
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        }
+                      `}
+                    >
+                      {range.label}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Custom Date Range Picker */}
+                <div className="flex items-center space-x-2 border-l border-gray-200 dark:border-gray-600 pl-4">
+                  <Calendar className="h-4 w-4 text-gray-400" />
+                  <input
+                    type="date"
+                    value={dateRange.from}
+                    onChange={(e) => handleDateRangeChange({ ...dateRange, from: e.target.value })}
+                    className={selectClassName}
+                  />
+                  <span className="text-gray-500 dark:text-gray-400">to</span>
+                  <input
+                    type="date"
+                    value={dateRange.to}
+                    onChange={(e) => handleDateRangeChange({ ...dateRange, to: e.target.value })}
+                    className={selectClassName}
+                  />
+                </div>
+
+                <button
+                  onClick={() => fetchData(true)}
+                  disabled={refreshing}
+                  className="flex items-center gap-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                  {refreshing ? 'Refreshing...' : 'Refresh'}
+                </button>
+
+                <button
+                  onClick={toggleDarkMode}
+                  className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                >
+                  {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+                </button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-4 mb-6">
+            <Filter className="h-4 w-4 text-gray-400" />
+            {TEXT_FILTERS.map(({ key, placeholder }) => (
+              <input
+                key={key}
+                type="text"
+                placeholder={placeholder}
+                value={inputs[key]}
+                onChange={(e) => setInputs({ ...inputs, [key]: e.target.value })}
+                onBlur={() => handleFilterChange(key, inputs[key])}
+                onKeyDown={(e) => e.key === 'Enter' && handleFilterChange(key, inputs[key])}
+                className={selectClassName}
+              />
+            ))}
+            <select
+              value={filters.stream}
+              onChange={(e) => handleFilterChange('stream', e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">All streams</option>
+              {messages?.streams.map((stream) => (
+                <option key={stream.id} value={stream.id}>
+                  {stream.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.status}
+              onChange={(e) => handleFilterChange('status', e.target.value)}
+              className={selectClassName}
+            >
+              {STATUSES.map((status) => (
+                <option key={status.value} value={status.value}>
+                  {status.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-100 dark:bg-red-900/20 border border-red-300 dark:border-red-700 text-red-800 dark:text-red-400 px-4 py-3 rounded-lg">
+              <p className="font-medium">Error loading data</p>
+              <p className="text-sm mt-1">{error}</p>
+            </div>
+          )}
+
+          {messages && (
+            <>
+              <div className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                {messages.timeRange}
+              </div>
+
+              <MessageTable
+                messages={messages.messages}
+                totalCount={messages.totalCount}
+                page={messages.page}
+                pageSize={messages.pageSize}
+                selectedId={selectedId}
+                onPageChange={setPage}
+                onSelect={setSelectedId}
+              />
+            </>
+          )}
+        </main>
+
+        {selectedId && (
+          <MessageDetailPanel messageId={selectedId} onClose={() => setSelectedId(null)} />
+        )}
+      </div>
+    </>
+  );
+}
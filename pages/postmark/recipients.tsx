@@ -0,0 +1,369 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import {
+  RefreshCw,
+  Moon,
+  Sun,
+  ArrowLeft,
+  Calendar,
+  Filter,
+  Search
+} from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { RecipientTable } from '@/components/postmark/RecipientTable';
+import { RecipientPanel } from '@/components/postmark/RecipientPanel';
+import { MessageDetailPanel } from '@/components/postmark/MessageDetailPanel';
+import { RecipientsResponse } from '@/pages/api/postmark/recipients';
+
+const TIME_RANGES = [
+  { label: '7D', days: 7 },
+  { label: '30D', days: 30 },
+  { label: '90D', days: 90 },
+];
+
+const ORDERS: Array<{ value: 'most' | 'least'; label: string }> = [
+  { value: 'most', label: 'Most engaged' },
+  { value: 'least', label: 'Least engaged' },
+];
+
+const MIN_MESSAGES = [1, 3, 5, 10];
+
+export default function PostmarkRecipients() {
+  const [recipients, setRecipients] = useState<RecipientsResponse['data'] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [darkMode, setDarkMode] = useState(false);
+
+  // Date filtering state
+  const [selectedRange, setSelectedRange] = useState(30);
+  const [dateRange, setDateRange] = useState({
+    from: format(subDays(new Date(), 30), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+
+  const [order, setOrder] = useState<'most' | 'least'>('most');
+  const [minMessages, setMinMessages] = useState(1);
+  const [tag, setTag] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [stream, setStream] = useState('');
+  const [lookup, setLookup] = useState('');
+  const [selectedRecipient, setSelectedRecipient] = useState<string | null>(null);
+  const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null);
+
+  // Initialize dark mode from localStorage
+  useEffect(() => {
+    const savedDarkMode = localStorage.getItem('darkMode') === 'true';
+    setDarkMode(savedDarkMode);
+    if (savedDarkMode) {
+      document.documentElement.classList.add('dark');
+    }
+  }, []);
+
+  const toggleDarkMode = () => {
+    const newDarkMode = !darkMode;
+    setDarkMode(newDarkMode);
+    localStorage.setItem('darkMode', newDarkMode.toString());
+
+    if (newDarkMode) {
+      document.documentElement.classList.add('dark');
+    } else {
+      document.documentElement.classList.remove('dark');
+    }
+  };
+
+  const rangeParams = () => {
+    const params = new URLSearchParams();
+    if (selectedRange > 0) {
+      params.append('days', selectedRange.toString());
+    } else {
+      params.append('from', dateRange.from);
+      params.append('to', dateRange.to);
+    }
+    return params;
+  };
+
+  const fetchData = async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setRefreshing(true);
+      }
+      setError(null);
+
+      const params = rangeParams();
+      params.append('order', order);
+      params.append('minMessages', minMessages.toString());
+      if (tag) {
+        params.append('tag', tag);
+      }
+      if (stream) {
+        params.append('stream', stream);
+      }
+
+      const response = await fetch(`/api/postmark/recipients?${params.toString()}`);
+      const data: RecipientsResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setRecipients(data.data ?? null);
+    } catch (err) {
+      console.error('Error fetching recipients:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch data');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleTimeRangeChange = (days: number) => {
+    setSelectedRange(days);
+    const toDate = new Date();
+    setDateRange({
+      from: format(subDays(toDate, days), 'yyyy-MM-dd'),
+      to: format(toDate, 'yyyy-MM-dd')
+    });
+  };
+
+  const handleDateRangeChange = (newRange: { from: string; to: string }) => {
+    setDateRange(newRange);
+    setSelectedRange(0);
+  };
+
+  const handleLookup = () => {
+    const address = lookup.trim();
+    if (address) {
+      setSelectedRecipient(address);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [selectedRange, dateRange, order, minMessages, tag, stream]);
+
+  if (loading) {
+    return (
+      <>
+        <Head>
+          <title>Recipients - Postmark</title>
+          <meta name="viewport" content="width=device-width, initial-scale=1" />
+          <link rel="icon" href="/favicon.ico" />
+        </Head>
+        <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+          <div className="text-center">
+            <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">Loading recipients...</p>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  const selectClassName = 'text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <>
+      <Head>
+        <title>Recipients - Postmark</title>
+        <meta name="description" content="Per-recipient Postmark engagement scores and message timelines" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center h-16">
+              <div className="flex items-center gap-4">
+                <Link
+                  href="/postmark"
+                  className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to Postmark
+                </Link>
+                <div className="h-6 w-px bg-gray-300 dark:bg-gray-600" />
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                  Recipients
+                </h1>
+              </div>
+
+              <div className="flex items-center gap-4">
+                {/* Time Range Presets */}
+                <div className="flex items-center space-x-2">
+                  {TIME_RANGES.map((range) => (
+                    <button
+                      key={range.days}
+                      onClick={() => handleTimeRangeChange(range.days)}
+                      className={`
+                        px-3 py-1 text-sm rounded-md transition-colors
+                        ${selectedRange === range.days
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        }
+                      `}
+                    >
+                      {range.label}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Custom Date Range Picker */}
+                <div className="flex items-center space-x-2 border-l border-gray-200 dark:border-gray-600 pl-4">
+                  <Calendar className="h-4 w-4 text-gray-400" />
+                  <input
+                    type="date"
+                    value={dateRange.from}
+                    onChange={(e) => handleDateRangeChange({ ...dateRange, from: e.target.value })}
+                    className={selectClassName}
+                  />
+                  <span className="text-gray-500 dark:text-gray-400">to</span>
+                  <input
+                    type="date"
+                    value={dateRange.to}
+                    onChange={(e) => handleDateRangeChange({ ...dateRange, to: e.target.value })}
+                    className={selectClassName}
+                  />
+                </div>
+
+                <button
+                  onClick={() => fetchData(true)}
+                  disabled={refreshing}
+                  className="flex items-center gap-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                  {refreshing ? 'Refreshing...' : 'Refresh'}
+                </button>
+
+                <button
+                  onClick={toggleDarkMode}
+                  className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                >
+                  {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+                </button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Filters */}
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex flex-wrap items-center gap-4">
+              <Filter className="h-4 w-4 text-gray-400" />
+              <div className="flex items-center space-x-2">
+                {ORDERS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setOrder(option.value)}
+                    className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                      order === option.value
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <select
+                value={minMessages}
+                onChange={(e) => setMinMessages(parseInt(e.target.value))}
+                className={selectClassName}
+              >
+                {MIN_MESSAGES.map((count) => (
+                  <option key={count} value={count}>
+                    {count === 1 ? 'Any number of messages' : `At least ${count} messages`}
+                  </option>
+                ))}
+              </select>
+              {/* Applied on Enter or when the field loses focus */}
+              <input
+                type="text"
+                placeholder="Tag"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onBlur={() => setTag(tagInput.trim())}
+                onKeyDown={(e) => e.key === 'Enter' && setTag(tagInput.trim())}
+                className={selectClassName}
+              />
+              <select
+                value={stream}
+                onChange={(e) => setStream(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">All streams</option>
+                {recipients?.streams.map((info) => (
+                  <option key={info.id} value={info.id}>
+                    {info.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Recipient Lookup */}
+            <div className="flex items-center space-x-2">
+              <input
+                type="email"
+                placeholder="Look up an address"
+                value={lookup}
+                onChange={(e) => setLookup(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleLookup()}
+                className={selectClassName}
+              />
+              <button
+                onClick={handleLookup}
+                className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+              >
+                <Search className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-100 dark:bg-red-900/20 border border-red-300 dark:border-red-700 text-red-800 dark:text-red-400 px-4 py-3 rounded-lg">
+              <p className="font-medium">Error loading data</p>
+              <p className="text-sm mt-1">{error}</p>
+            </div>
+          )}
+
+          {recipients && (
+            <>
+              <div className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                {recipients.timeRange}
+                {recipients.truncated && ' · More than 10,000 messages were sent in this range; recipients of the older ones are ranked on their stored events only'}
+              </div>
+
+              <RecipientTable
+                recipients={recipients.recipients}
+                totalRecipients={recipients.totalRecipients}
+                order={order}
+                selectedRecipient={selectedRecipient}
+                onSelect={setSelectedRecipient}
+              />
+            </>
+          )}
+        </main>
+
+        {selectedRecipient && (
+          <RecipientPanel
+            recipient={selectedRecipient}
+            rangeQuery={rangeParams().toString()}
+            onClose={() => setSelectedRecipient(null)}
+            onSelectMessage={setSelectedMessageId}
+          />
+        )}
+
+        {selectedMessageId && (
+          <MessageDetailPanel messageId={selectedMessageId} onClose={() => setSelectedMessageId(null)} />
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,346 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import {
+  Eye,
+  MousePointer,
+  Clock,
+  RefreshCw,
+  Moon,
+  Sun,
+  ArrowLeft,
+  Calendar,
+  Filter,
+  Globe
+} from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import KpiCard from '@/components/KpiCard';
+import { EngagementHeatmap, formatHour, WEEKDAY_LABELS } from '@/components/postmark/EngagementHeatmap';
+import { HeatmapResponse } from '@/pages/api/postmark/heatmap';
+import type { HeatmapSlot } from '@/lib/postmark-heatmap';
+
+const TIME_RANGES = [
+  { label: '7D', days: 7 },
+  { label: '30D', days: 30 },
+  { label: '90D', days: 90 },
+];
+
+const TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+const browserTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+const formatSlot = (slot: HeatmapSlot | null) =>
+  slot ? `${WEEKDAY_LABELS[slot.weekday]} ${formatHour(slot.hour)}` : '—';
+
+export default function PostmarkSendTimes() {
+  const [heatmap, setHeatmap] = useState<HeatmapResponse['data'] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [darkMode, setDarkMode] = useState(false);
+
+  // Date filtering state
+  const [selectedRange, setSelectedRange] = useState(30);
+  const [dateRange, setDateRange] = useState({
+    from: format(subDays(new Date(), 30), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+
+  const [tag, setTag] = useState('');
+  const [stream, setStream] = useState('');
+  // Weekdays and hours are shown in the viewer's time zone unless another is picked
+  const [timeZone, setTimeZone] = useState(browserTimeZone);
+
+  // Initialize dark mode from localStorage
+  useEffect(() => {
+    const savedDarkMode = localStorage.getItem('darkMode') === 'true';
+    setDarkMode(savedDarkMode);
+    if (savedDarkMode) {
+      document.documentElement.classList.add('dark');
+    }
+  }, []);
+
+  const toggleDarkMode = () => {
+    const newDarkMode = !darkMode;
+    setDarkMode(newDarkMode);
+    localStorage.setItem('darkMode', newDarkMode.toString());
+
+    if (newDarkMode) {
+      document.documentElement.classList.add('dark');
+    } else {
+      document.documentElement.classList.remove('dark');
+    }
+  };
+
+  const fetchData = async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setRefreshing(true);
+      }
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (selectedRange > 0) {
+        params.append('days', selectedRange.toString());
+      } else {
+        params.append('from', dateRange.from);
+        params.append('to', dateRange.to);
+      }
+      if (tag) {
+        params.append('tag', tag);
+      }
+      if (stream) {
+        params.append('stream', stream);
+      }
+      params.append('timezone', timeZone);
+
+      const response = await fetch(`/api/postmark/heatmap?${params.toString()}`);
+      const data: HeatmapResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setHeatmap(data.data ?? null);
+    } catch (err) {
+      console.error('Error fetching send time data:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch data');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleTimeRangeChange = (days: number) => {
+    setSelectedRange(days);
+    const toDate = new Date();
+    setDateRange({
+      from: format(subDays(toDate, days), 'yyyy-MM-dd'),
+      to: format(toDate, 'yyyy-MM-dd')
+    });
+  };
+
+  const handleDateRangeChange = (newRange: { from: string; to: string }) => {
+    setDateRange(newRange);
+    setSelectedRange(0);
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [selectedRange, dateRange, tag, stream, timeZone]);
+
+  if (loading) {
+    return (
+      <>
+        <Head>
+          <title>Send Times - Postmark</title>
+          <meta name="viewport" content="width=device-width, initial-scale=1" />
+          <link rel="icon" href="/favicon.ico" />
+        </Head>
+        <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+          <div className="text-center">
+            <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">Loading open and click times...</p>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  const inputClassName = 'text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+  const timeZones = TIME_ZONES.indexOf(timeZone) === -1 ? [timeZone, ...TIME_ZONES] : TIME_ZONES;
+
+  return (
+    <>
+      <Head>
+        <title>Send Times - Postmark</title>
+        <meta name="description" content="When recipients open and click Postmark email, by weekday and hour" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center h-16">
+              <div className="flex items-center gap-4">
+                <Link
+                  href="/postmark"
+                  className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to Postmark
+                </Link>
+                <div className="h-6 w-px bg-gray-300 dark:bg-gray-600" />
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                  Send Times
+                </h1>
+              </div>
+
+              <div className="flex items-center gap-4">
+                {/* Time Range Presets */}
+                <div className="flex items-center space-x-2">
+                  {TIME_RANGES.map((range) => (
+                    <button
+                      key={range.days}
+                      onClick={() => handleTimeRangeChange(range.days)}
+                      className={`
+                        px-3 py-1 text-sm rounded-md transition-colors
+                        ${selectedRange === range.days
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        }
+                      `}
+                    >
+                      {range.label}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Custom Date Range Picker */}
+                <div className="flex items-center space-x-2 border-l border-gray-200 dark:border-gray-600 pl-4">
+                  <Calendar className="h-4 w-4 text-gray-400" />
+                  <input
+                    type="date"
+                    value={dateRange.from}
+                    onChange={(e) => handleDateRangeChange({ ...dateRange, from: e.target.value })}
+                    className={inputClassName}
+                  />
+                  <span className="text-gray-500 dark:text-gray-400">to</span>
+                  <input
+                    type="date"
+                    value={dateRange.to}
+                    onChange={(e) => handleDateRangeChange({ ...dateRange, to: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <button
+                  onClick={() => fetchData(true)}
+                  disabled={refreshing}
+                  className="flex items-center gap-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                  {refreshing ? 'Refreshing...' : 'Refresh'}
+                </button>
+
+                <button
+                  onClick={toggleDarkMode}
+                  className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                >
+                  {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+                </button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-4 mb-6">
+            <Filter className="h-4 w-4 text-gray-400" />
+            <select
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">All tags</option>
+              {heatmap?.tags.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={stream}
+              onChange={(e) => setStream(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">All streams</option>
+              {heatmap?.streams.map((info) => (
+                <option key={info.id} value={info.id}>
+                  {info.name}
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center gap-2">
+              <Globe className="h-4 w-4 text-gray-400" />
+              <select
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                className={inputClassName}
+              >
+                {timeZones.map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-100 dark:bg-red-900/20 border border-red-300 dark:border-red-700 text-red-800 dark:text-red-400 px-4 py-3 rounded-lg">
+              <p className="font-medium">Error loading data</p>
+              <p className="text-sm mt-1">{error}</p>
+            </div>
+          )}
+
+          {heatmap && (
+            <>
+              <div className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                {heatmap.timeRange} · {heatmap.timeZone}
+              </div>
+
+              {/* KPI Cards */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+                <KpiCard title="Opens" value={heatmap.totals.opens} icon={Eye} format="number" />
+                <KpiCard title="Clicks" value={heatmap.totals.clicks} icon={MousePointer} format="number" />
+                <KpiCard
+                  title="Peak Open Time"
+                  value={formatSlot(heatmap.peakOpens)}
+                  icon={Clock}
+                  subtitle={heatmap.peakOpens ? `${heatmap.peakOpens.count.toLocaleString()} opens` : undefined}
+                />
+                <KpiCard
+                  title="Peak Click Time"
+                  value={formatSlot(heatmap.peakClicks)}
+                  icon={Clock}
+                  subtitle={heatmap.peakClicks ? `${heatmap.peakClicks.count.toLocaleString()} clicks` : undefined}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 mb-8">
+                <EngagementHeatmap title="Opens by Weekday and Hour" cells={heatmap.cells} metric="opens" />
+                <EngagementHeatmap title="Clicks by Weekday and Hour" cells={heatmap.cells} metric="clicks" color="16, 185, 129" />
+              </div>
+            </>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,358 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import {
+  AlertTriangle,
+  Send,
+  Eye,
+  MousePointer,
+  RefreshCw,
+  Moon,
+  Sun,
+  ArrowLeft,
+  Calendar,
+  Filter
+} from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import KpiCard from '@/components/KpiCard';
+import StatsChart from '@/components/StatsChart';
+import StatsTable, { StatsTableColumn } from '@/components/StatsTable';
+import { TemplatesResponse } from '@/pages/api/postmark/templates';
+import type { TemplateStats } from '@/lib/postmark-templates';
+
+const TIME_RANGES = [
+  { label: '7D', days: 7 },
+  { label: '30D', days: 30 },
+  { label: '90D', days: 90 },
+];
+
+const TEMPLATE_COLUMNS: StatsTableColumn<TemplateStats>[] = [
+  { field: 'name', label: 'Template', format: 'text' },
+  { field: 'alias', label: 'Alias', format: 'text' },
+  { field: 'sent', label: 'Sent' },
+  { field: 'delivered', label: 'Delivered' },
+  { field: 'openRate', label: 'Open Rate', format: 'percentage' },
+  { field: 'clickRate', label: 'Click Rate', format: 'percentage' },
+  { field: 'bounceRate', label: 'Bounce Rate', format: 'percentage' },
+];
+
+export default function PostmarkTemplates() {
+  const [templates, setTemplates] = useState<TemplatesResponse['data'] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [darkMode, setDarkMode] = useState(false);
+
+  // Date filtering state
+  const [selectedRange, setSelectedRange] = useState(30);
+  const [dateRange, setDateRange] = useState({
+    from: format(subDays(new Date(), 30), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+
+  const [stream, setStream] = useState('');
+  // Template shown in the daily chart; empty for every template
+  const [template, setTemplate] = useState('');
+
+  // Initialize dark mode from localStorage
+  useEffect(() => {
+    const savedDarkMode = localStorage.getItem('darkMode') === 'true';
+    setDarkMode(savedDarkMode);
+    if (savedDarkMode) {
+      document.documentElement.classList.add('dark');
+    }
+  }, []);
+
+  const toggleDarkMode = () => {
+    const newDarkMode = !darkMode;
+    setDarkMode(newDarkMode);
+    localStorage.setItem('darkMode', newDarkMode.toString());
+
+    if (newDarkMode) {
+      document.documentElement.classList.add('dark');
+    } else {
+      document.documentElement.classList.remove('dark');
+    }
+  };
+
+  const fetchData = async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setRefreshing(true);
+      }
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (selectedRange > 0) {
+        params.append('days', selectedRange.toString());
+      } else {
+        params.append('from', dateRange.from);
+        params.append('to', dateRange.to);
+      }
+      if (stream) {
+        params.append('stream', stream);
+      }
+      if (template) {
+        params.append('template', template);
+      }
+
+      const response = await fetch(`/api/postmark/templates?${params.toString()}`);
+      const data: TemplatesResponse = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setTemplates(data.data ?? null);
+    } catch (err) {
+      console.error('Error fetching template data:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch data');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleTimeRangeChange = (days: number) => {
+    setSelectedRange(days);
+    const toDate = new Date();
+    setDateRange({
+      from: format(subDays(toDate, days), 'yyyy-MM-dd'),
+      to: format(toDate, 'yyyy-MM-dd')
+    });
+  };
+
+  const handleDateRangeChange = (newRange: { from: string; to: string }) => {
+    setDateRange(newRange);
+    setSelectedRange(0);
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [selectedRange, dateRange, stream, template]);
+
+  if (loading) {
+    return (
+      <>
+        <Head>
+          <title>Templates - Postmark</title>
+          <meta name="viewport" content="width=device-width, initial-scale=1" />
+          <link rel="icon" href="/favicon.ico" />
+        </Head>
+        <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+          <div className="text-center">
+            <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">Loading template data...</p>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  const inputClassName = 'text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <>
+      <Head>
+        <title>Templates - Postmark</title>
+        <meta name="description" content="Per-template performance for Postmark email" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center h-16">
+              <div className="flex items-center gap-4">
+                <Link
+                  href="/postmark"
+                  className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to Postmark
+                </Link>
+                <div className="h-6 w-px bg-gray-300 dark:bg-gray-600" />
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                  Templates
+                </h1>
+              </div>
+
+              <div className="flex items-center gap-4">
+                {/* Time Range Presets */}
+                <div className="flex items-center space-x-2">
+                  {TIME_RANGES.map((range) => (
+                    <button
+                      key={range.days}
+                      onClick={() => handleTimeRangeChange(range.days)}
+                      className={`
+                        px-3 py-1 text-sm rounded-md transition-colors
+                        ${selectedRange === range.days
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        }
+                      `}
+                    >
+                      {range.label}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Custom Date Range Picker */}
+                <div className="flex items-center space-x-2 border-l border-gray-200 dark:border-gray-600 pl-4">
+                  <Calendar className="h-4 w-4 text-gray-400" />
+                  <input
+                    type="date"
+                    value={dateRange.from}
+                    onChange={(e) => handleDateRangeChange({ ...dateRange, from: e.target.value })}
+                    className={inputClassName}
+                  />
+                  <span className="text-gray-500 dark:text-gray-400">to</span>
+                  <input
+                    type="date"
+                    value={dateRange.to}
+                    onChange={(e) => handleDateRangeChange({ ...dateRange, to: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <button
+                  onClick={() => fetchData(true)}
+                  disabled={refreshing}
+                  className="flex items-center gap-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                  {refreshing ? 'Refreshing...' : 'Refresh'}
+                </button>
+
+                <button
+                  onClick={toggleDarkMode}
+                  className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                >
+                  {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+                </button>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-4 mb-6">
+            <Filter className="h-4 w-4 text-gray-400" />
+            <select
+              value={stream}
+              onChange={(e) => setStream(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">All streams</option>
+              {templates?.streams.map((info) => (
+                <option key={info.id} value={info.id}>
+                  {info.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-100 dark:bg-red-900/20 border border-red-300 dark:border-red-700 text-red-800 dark:text-red-400 px-4 py-3 rounded-lg">
+              <p className="font-medium">Error loading data</p>
+              <p className="text-sm mt-1">{error}</p>
+            </div>
+          )}
+
+          {templates && (
+            <>
+              <div className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                {templates.timeRange}
+                {templates.summary.untemplated > 0 && ` · ${templates.summary.untemplated.toLocaleString()} messages sent without a template`}
+              </div>
+
+              {templates.summary.truncated && (
+                <div className="mb-6 bg-yellow-100 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-700 text-yellow-800 dark:text-yellow-400 px-4 py-3 rounded-lg">
+                  <p className="font-medium">Partial report</p>
+                  <p className="text-sm mt-1">
+                    Postmark matched {templates.summary.totalMessages.toLocaleString()} messages in this range, but its message search returns at most 10,000, so only the newest are counted. Choose a shorter range for complete figures.
+                  </p>
+                </div>
+              )}
+
+              {/* KPI Cards */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+                <KpiCard
+                  title="Templated Messages"
+                  value={templates.summary.sent}
+                  icon={Send}
+                  format="number"
+                  subtitle={`${templates.summary.templates} templates sent`}
+                />
+                <KpiCard
+                  title="Open Rate"
+                  value={templates.summary.openRate}
+                  icon={Eye}
+                  format="percentage"
+                />
+                <KpiCard
+                  title="Click Rate"
+                  value={templates.summary.clickRate}
+                  icon={MousePointer}
+                  format="percentage"
+                />
+                <KpiCard
+                  title="Bounce Rate"
+                  value={templates.summary.bounceRate}
+                  icon={AlertTriangle}
+                  format="percentage"
+                />
+              </div>
+
+              {/* Daily Trend */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-8">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    Daily Performance
+                  </h3>
+                  <select
+                    value={template}
+                    onChange={(e) => setTemplate(e.target.value)}
+                    className={inputClassName}
+                  >
+                    <option value="">All templates</option>
+                    {templates.byTemplate.map((row) => (
+                      <option key={row.id} value={row.id}>
+                        {row.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <StatsChart
+                  data={templates.daily}
+                  height={300}
+                  showMetrics={['sent', 'opened', 'clicked', 'bounced']}
+                />
+              </div>
+
+              {/* Per-Template Breakdown */}
+              <div className="mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                  Performance by Template
+                </h3>
+                <StatsTable
+                  data={templates.byTemplate}
+                  columns={TEMPLATE_COLUMNS}
+                  keyField="name"
+                  defaultSort="sent"
+                  searchPlaceholder="Search templates..."
+                />
+              </div>
+            </>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -11,13 +11,18 @@ import {
   Moon,
   Sun,
   ArrowLeft,
-  Calendar
+  Calendar,
+  RotateCcw,
+  Upload
 } from 'lucide-react';
 import Link from 'next/link';
 import { format, subDays } from 'date-fns';
+import RateLimitBanner from '@/components/RateLimitBanner';
 import { ThriveCartKpiCard } from '@/components/thrivecart/ThriveCartKpiCard';
 import { ThriveCartChart } from '@/components/thrivecart/ThriveCartChart';
 import { ThriveCartTable } from '@/components/thrivecart/ThriveCartTable';
+import { ThriveCartImportReport } from '@/components/thrivecart/ThriveCartImportReport';
+import { ThriveCartUpload } from '@/components/thrivecart/ThriveCartUpload';
 import { ThriveCartStats } from '@/lib/thrivecart';
 
 const TIME_RANGES = [
@@ -33,6 +38,7 @@ export default function ThriveCartDashboard() {
   const [error, setError] = useState<string | null>(null);
   const [darkMode, setDarkMode] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [showUpload, setShowUpload] = useState(false);
   
   // Date filtering state
   const [selectedRange, setSelectedRange] = useState(30); // Default to 30 days
@@ -141,6 +147,7 @@ export default function ThriveCartDashboard() {
           <div className="text-center">
             <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
             <p className="text-gray-600 dark:text-gray-400">Loading ThriveCart data...</p>
+            <RateLimitBanner active={loading} className="mt-4 text-left" />
           </div>
         </div>
       </>
@@ -246,6 +253,14 @@ export default function ThriveCartDashboard() {
                   </span>
                 )}
                 
+                <button
+                  onClick={() => setShowUpload(!showUpload)}
+                  className="flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                >
+                  <Upload className="h-4 w-4" />
+                  Upload CSV
+                </button>
+
                 <button
                   onClick={() => fetchData(true)}
                   disabled={refreshing}
@@ -268,6 +283,8 @@ export default function ThriveCartDashboard() {
 
         {/* Main Content */}
         <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <RateLimitBanner active={refreshing} className="mb-6" />
+
           {error && (
             <div className="mb-6 bg-yellow-100 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-700 text-yellow-800 dark:text-yellow-400 px-4 py-3 rounded-lg">
               <p className="font-medium">Warning</p>
@@ -275,6 +292,13 @@ export default function ThriveCartDashboard() {
             </div>
           )}
 
+          {showUpload && (
+            <ThriveCartUpload
+              onImported={() => fetchData(true)}
+              onClose={() => setShowUpload(false)}
+            />
+          )}
+
           {stats && (
             <>
               {/* Date Range Display */}
@@ -287,24 +311,27 @@ export default function ThriveCartDashboard() {
                 </div>
               </div>
 
+              {/* Import Report */}
+              {stats.importReport && <ThriveCartImportReport report={stats.importReport} />}
+
               {/* KPI Cards */}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
                 <ThriveCartKpiCard
-                  title="Total Revenue"
+                  title="Gross Revenue"
                   value={stats.totalRevenue}
                   icon={DollarSign}
                   format="currency"
                 />
                 <ThriveCartKpiCard
-                  title="Total Transactions"
-                  value={stats.totalTransactions}
-                  icon={ShoppingCart}
-                  format="number"
+                  title="Net Revenue"
+                  value={stats.netRevenue}
+                  icon={DollarSign}
+                  format="currency"
                 />
                 <ThriveCartKpiCard
-                  title="Conversion Rate"
-                  value={stats.conversionRate}
-                  icon={TrendingUp}
+                  title="Refund Rate"
+                  value={stats.refundRate}
+                  icon={RotateCcw}
                   format="percentage"
                 />
                 <ThriveCartKpiCard
@@ -316,7 +343,13 @@ export default function ThriveCartDashboard() {
               </div>
 
               {/* Secondary KPIs */}
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-8">
+                <ThriveCartKpiCard
+                  title="Total Transactions"
+                  value={stats.totalTransactions}
+                  icon={ShoppingCart}
+                  format="number"
+                />
                 <ThriveCartKpiCard
                   title="Total Purchases"
                   value={stats.totalPurchases}
@@ -329,6 +362,12 @@ export default function ThriveCartDashboard() {
                   icon={TrendingUp}
                   format="number"
                 />
+                <ThriveCartKpiCard
+                  title="Conversion Rate"
+                  value={stats.conversionRate}
+                  icon={TrendingUp}
+                  format="percentage"
+                />
                 <ThriveCartKpiCard
                   title="Upsell Rate"
                   value={stats.upsellConversionRate}
@@ -367,6 +406,12 @@ export default function ThriveCartDashboard() {
                           <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                             Revenue
                           </th>
+                          <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                            Refunded
+                          </th>
+                          <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                            Net Revenue
+                          </th>
                           <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                             Quantity
                           </th>
@@ -386,6 +431,12 @@ export default function ThriveCartDashboard() {
                             <td className="px-4 py-4 text-sm text-gray-900 dark:text-white text-right font-medium">
                               ${product.revenue.toFixed(2)}
                             </td>
+                            <td className="px-4 py-4 text-sm text-red-600 dark:text-red-400 text-right">
+                              {product.refunds > 0 ? `-$${product.refundedAmount.toFixed(2)} (${product.refunds})` : '-'}
+                            </td>
+                            <td className="px-4 py-4 text-sm text-gray-900 dark:text-white text-right font-medium">
+                              ${product.netRevenue.toFixed(2)}
+                            </td>
                             <td className="px-4 py-4 text-sm text-gray-900 dark:text-white text-right">
                               {product.quantity}
                             </td>